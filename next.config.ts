@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The JS/TS instrumentor parses user code with the compiler at runtime
+  serverExternalPackages: ["typescript"],
 };
 
 export default nextConfig;
@@ -1,36 +1,158 @@
 import { NextRequest, NextResponse } from "next/server";
-import { instrumentPython } from "@/lib/interpreter/instrumentors/python";
-import { executeLocal } from "@/lib/execution/local";
-import { parseTrace } from "@/lib/interpreter/parsers/traceParser";
+import { getBackend } from "@/lib/execution/registry";
+import { limitsForBudget, limitViolation, SandboxLimits } from "@/lib/execution/sandbox";
+import { LanguageSpec, resolveLanguage } from "@/lib/interpreter/languages";
+import { parseError, parseTrace, parseTraceLine, parseTruncation } from "@/lib/interpreter/parsers/traceParser";
+import { ExecutionError, ExecutionStreamEvent, TraceBudgetSchema, Truncation } from "@/lib/interpreter/schema";
+
+const errorResponse = (type: string, message: string, status: number) => {
+    const error: ExecutionError = { type, message, line: null, traceback: [] };
+    return NextResponse.json({ trace: [], error }, { status });
+};
+
+/**
+ * Budgets the run ran into, and whether its trace is cut short. Tracers
+ * report budgets as they exit, which a program killed for a sandbox limit
+ * never does: its trace is incomplete either way, and if it filled the step
+ * budget, that budget was hit.
+ */
+const truncationOf = (stdout: string, violation: ExecutionError | null, steps: number, maxSteps: number) => {
+    let truncatedBy: Truncation = parseTruncation(stdout);
+    if (violation && steps >= maxSteps && !truncatedBy.includes("maxSteps")) truncatedBy = [...truncatedBy, "maxSteps" as const].sort();
+    return { truncated: truncatedBy.length > 0 || violation !== null, truncatedBy };
+};
+
+/**
+ * Runs the program and streams its trace as NDJSON (see ExecutionStreamEvent)
+ * while it executes. The client disconnecting or cancelling the stream kills
+ * the program.
+ */
+const streamExecution = (
+    target: LanguageSpec,
+    instrumentedCode: string,
+    stdin: string,
+    maxSteps: number,
+    limits: SandboxLimits,
+    req: NextRequest
+) => {
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    req.signal.addEventListener("abort", () => abort.abort());
+
+    return new ReadableStream<Uint8Array>({
+        async start(stream) {
+            const send = (event: ExecutionStreamEvent) => {
+                if (!abort.signal.aborted) stream.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+            };
+            let pending = "";
+            let steps = 0;
+            let lastLine: number | null = null;
+            const forward = (lines: string[]) => {
+                for (const line of lines) {
+                    const step = parseTraceLine(line);
+                    if (!step) continue;
+                    send({ type: "step", step });
+                    steps++;
+                    lastLine = step.line;
+                }
+            };
+
+            try {
+                const result = await getBackend().execute(instrumentedCode, target.runtime, {
+                    memoryLimit: target.memoryLimit,
+                    outputMb: limits.outputMb,
+                    stdin,
+                    signal: abort.signal,
+                    onStdout: (chunk) => {
+                        pending += chunk;
+                        const lines = pending.split("\n");
+                        pending = lines.pop() ?? "";
+                        forward(lines);
+                    },
+                });
+                forward([pending]);
+
+                const reported = parseError(result.stdout);
+                const violation = limitViolation(result, reported, lastLine, limits);
+                let error = violation ?? reported;
+                if (!error && result.stderr && steps === 0) {
+                    error = { type: "ExecutionFailed", message: result.stderr, line: null, traceback: [] };
+                }
+                const { truncated, truncatedBy } = truncationOf(result.stdout, violation, steps, maxSteps);
+                send({ type: "done", error, stderr: result.stderr, truncated, truncatedBy });
+            } catch (error: unknown) {
+                console.error("Execution error:", error);
+                const message = error instanceof Error ? error.message : "Internal Server Error";
+                const failure: ExecutionError = { type: "InternalError", message, line: null, traceback: [] };
+                send({ type: "done", error: failure, stderr: "", truncated: false, truncatedBy: [] });
+            }
+            if (!abort.signal.aborted) stream.close();
+        },
+        cancel() {
+            abort.abort();
+        },
+    });
+};
 
 export async function POST(req: NextRequest) {
     try {
-        const { code, language } = await req.json();
+        const { code, language, stream, budget: requestedBudget, stdin = "" } = await req.json();
 
         if (!code || !language) {
-            return NextResponse.json({ error: "Code and language are required" }, { status: 400 });
+            return errorResponse("BadRequest", "Code and language are required", 400);
         }
 
-        let instrumentedCode = code;
+        const target = resolveLanguage(language);
+        if (!target) {
+            return errorResponse("BadRequest", "Language not yet supported", 400);
+        }
 
-        if (language === "python" || language === "python3") {
-            instrumentedCode = instrumentPython(code);
-        } else {
-            return NextResponse.json({ error: "Language not yet supported" }, { status: 400 });
+        if (typeof stdin !== "string") {
+            return errorResponse("BadRequest", "stdin must be a string", 400);
         }
 
-        const result = await executeLocal(instrumentedCode);
+        // Any budget field left out falls back to its default
+        const budget = TraceBudgetSchema.safeParse(requestedBudget ?? {});
+        if (!budget.success) {
+            return errorResponse("BadRequest", `Invalid budget: ${budget.error.issues[0].message}`, 400);
+        }
+
+        const instrumentedCode = target.instrument(code, budget.data);
+        const limits = limitsForBudget(budget.data.maxSteps);
 
-        if (result.stderr && !result.stdout.includes("__TRACE__")) {
-            return NextResponse.json({ error: result.stderr }, { status: 500 });
+        if (stream) {
+            return new Response(streamExecution(target, instrumentedCode, stdin, budget.data.maxSteps, limits, req), {
+                headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" },
+            });
         }
 
+        const result = await getBackend().execute(instrumentedCode, target.runtime, {
+            memoryLimit: target.memoryLimit,
+            outputMb: limits.outputMb,
+            stdin,
+        });
+
+        // A runtime error or a hit sandbox limit still comes with the partial trace leading up to it
         const trace = parseTrace(result.stdout);
+        const reported = parseError(result.stdout);
+        const violation = limitViolation(result, reported, trace.at(-1)?.line ?? null, limits);
+        const error = violation ?? reported;
+        const { truncated, truncatedBy } = truncationOf(result.stdout, violation, trace.length, budget.data.maxSteps);
 
-        return NextResponse.json({ trace, rawStdout: result.stdout, stderr: result.stderr });
-    } catch (error: any) {
+        if (!error && result.stderr && trace.length === 0) {
+            return errorResponse("ExecutionFailed", result.stderr, 500);
+        }
+
+        return NextResponse.json({
+            trace,
+            error,
+            truncated,
+            truncatedBy,
+            rawStdout: result.stdout,
+            stderr: result.stderr,
+        });
+    } catch (error: unknown) {
         console.error("Execution error:", error);
-        return NextResponse.json({ error: error.message || "Internal Server Error" }, { status: 500 });
+        return errorResponse("InternalError", error instanceof Error ? error.message : "Internal Server Error", 500);
     }
 }
-
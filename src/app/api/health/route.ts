@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { configuredBackendName, listBackends } from "@/lib/execution/registry";
+import { LANGUAGES } from "@/lib/interpreter/languages";
+
+/**
+ * Reports every execution backend, which one is active, the tool versions
+ * each can see, and the languages those tools make traceable.
+ */
+export async function GET() {
+    const active = configuredBackendName();
+    const backends = await Promise.all(
+        listBackends().map(async (backend) => {
+            const health = await backend.health();
+            const languages = Object.entries(LANGUAGES)
+                .filter(([, spec]) => health.available && spec.tools.every((tool) => health.versions[tool]))
+                .map(([name]) => name);
+            return { ...health, active: backend.name === active, languages };
+        })
+    );
+    const current = backends.find((b) => b.active);
+
+    return NextResponse.json(
+        { backend: active, ok: Boolean(current?.available), backends },
+        { status: current ? 200 : 500 }
+    );
+}
@@ -1,14 +1,17 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useRef, useEffect } from "react";
 import { CodeEditor } from "@/components/editor/CodeEditor";
 import { Scene } from "@/components/three/Scene";
 import { Toolbar } from "@/components/controls/Toolbar";
 import { StepSlider } from "@/components/controls/StepSlider";
-import { VariablePanel, StdoutPanel } from "@/components/panels/InfoPanels";
+import { VariablePanel, StdoutPanel, StdinPanel, ErrorBanner, TruncationBanner } from "@/components/panels/InfoPanels";
 import { useTraceStore } from "@/lib/store/traceStore";
 import { Visualization2D } from "@/components/visualizer/Visualization2D";
 import { detectVizType } from "@/lib/vizDetector";
+import { buildCallTree } from "@/lib/recursionTree";
+import { readExecutionStream } from "@/lib/interpreter/parsers/streamParser";
+import { DEFAULT_BUDGET, Trace, TraceBudget } from "@/lib/interpreter/schema";
 
 // ────────────────────────────────────────────────────────────
 // Algorithm Templates
@@ -296,14 +299,137 @@ while low <= high:
 
 const DEFAULT_EXAMPLE = "binary_search";
 
+// Languages the tracer supports. The examples above are Python; the others start from a template.
+const LANGUAGES: Record<string, { label: string; starter: string | null }> = {
+  python: { label: "Python", starter: null },
+  javascript: {
+    label: "JavaScript",
+    starter: `// Bubble Sort
+function bubbleSort(nums) {
+  const n = nums.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n - i - 1; j++) {
+      if (nums[j] > nums[j + 1]) {
+        [nums[j], nums[j + 1]] = [nums[j + 1], nums[j]];
+      }
+    }
+  }
+  return nums;
+}
+
+const nums = [64, 34, 25, 12, 22, 11, 90];
+console.log(bubbleSort(nums));`,
+  },
+  typescript: {
+    label: "TypeScript",
+    starter: `// Binary Search
+function search(nums: number[], target: number): number {
+  let left = 0;
+  let right = nums.length - 1;
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+    if (nums[mid] === target) return mid;
+    if (nums[mid] < target) {
+      left = mid + 1;
+    } else {
+      right = mid - 1;
+    }
+  }
+  return -1;
+}
+
+const nums: number[] = [1, 3, 5, 7, 9, 11, 13, 15];
+const index = search(nums, 11);
+console.log("found at", index);`,
+  },
+  java: {
+    label: "Java",
+    starter: `// Insertion Sort
+public class Main {
+    static void insertionSort(int[] nums) {
+        for (int i = 1; i < nums.length; i++) {
+            int key = nums[i];
+            int j = i - 1;
+            while (j >= 0 && nums[j] > key) {
+                nums[j + 1] = nums[j];
+                j--;
+            }
+            nums[j + 1] = key;
+        }
+    }
+
+    public static void main(String[] args) {
+        int[] nums = {12, 11, 13, 5, 6};
+        insertionSort(nums);
+        System.out.println(java.util.Arrays.toString(nums));
+    }
+}`,
+  },
+  cpp: {
+    label: "C++",
+    starter: `// Two Pointer — pair with target sum
+#include <iostream>
+#include <vector>
+using namespace std;
+
+int main() {
+    vector<int> nums = {1, 2, 4, 7, 11, 15};
+    int target = 15;
+    int left = 0, right = nums.size() - 1;
+
+    while (left < right) {
+        int sum = nums[left] + nums[right];
+        if (sum == target) {
+            cout << left << " " << right << endl;
+            break;
+        } else if (sum < target) {
+            left++;
+        } else {
+            right--;
+        }
+    }
+    return 0;
+}`,
+  },
+};
+
+// While steps stream in, the whole-trace analysis reruns at most this often
+const ANALYSIS_INTERVAL_MS = 500;
+
+/**
+ * The trace as last analyzed: the live one once it is complete, and while it
+ * streams a snapshot refreshed every ANALYSIS_INTERVAL_MS, so detectVizType
+ * and buildCallTree don't rerun over the whole trace for every batch.
+ */
+function useAnalyzedTrace(): Trace {
+  const trace = useTraceStore((s) => s.trace);
+  const isStreaming = useTraceStore((s) => s.isStreaming);
+  const [analyzed, setAnalyzed] = useState(trace);
+  const stale = analyzed !== trace;
+
+  useEffect(() => {
+    if (!stale) return;
+    // The first steps and the finished trace are analyzed right away
+    const delay = isStreaming && analyzed.length > 0 ? ANALYSIS_INTERVAL_MS : 0;
+    const timer = setTimeout(() => setAnalyzed(useTraceStore.getState().trace), delay);
+    return () => clearTimeout(timer);
+  }, [stale, isStreaming, analyzed]);
+
+  return analyzed;
+}
+
 export default function Home() {
   const [selectedExample, setSelectedExample] = useState(DEFAULT_EXAMPLE);
   const [code, setCode] = useState(EXAMPLES[DEFAULT_EXAMPLE].code);
   const [language, setLanguage] = useState("python");
   const [isExecuting, setIsExecuting] = useState(false);
+  const runController = useRef<AbortController | null>(null);
+  const [budget, setBudget] = useState<TraceBudget>(DEFAULT_BUDGET);
+  const [stdin, setStdin] = useState("");
   const [viewMode, setViewMode] = useState<"2d" | "3d">("2d");
   const setTrace = useTraceStore((state) => state.setTrace);
-  const trace = useTraceStore((s) => s.trace);
+  const setError = useTraceStore((state) => state.setError);
   const currentStep = useTraceStore((s) => {
     const { trace: t, currentStepIndex } = s;
     return t.length > 0 ? t[currentStepIndex] : null;
@@ -312,43 +438,80 @@ export default function Home() {
     const { trace: t, currentStepIndex } = s;
     return currentStepIndex > 0 ? t[currentStepIndex - 1] : null;
   });
-  const vizCtx = useMemo(() => detectVizType(trace), [trace]);
-
-  const handleExecute = async () => {
+  const stepIndex = useTraceStore((s) => s.currentStepIndex);
+  const analyzedTrace = useAnalyzedTrace();
+  const vizCtx = useMemo(() => detectVizType(analyzedTrace), [analyzedTrace]);
+  const callTree = useMemo(() => buildCallTree(analyzedTrace), [analyzedTrace]);
+
+  const handleExecute = async (runBudget: TraceBudget = budget) => {
+    const controller = new AbortController();
+    runController.current = controller;
     setIsExecuting(true);
     setTrace([]); // Clear old trace immediately to prevent stale vizCtx
+    setError(null);
+    setBudget(runBudget);
+    useTraceStore.getState().setTruncatedBy([]);
     try {
       const response = await fetch("/api/execute", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ code, language }),
+        body: JSON.stringify({ code, language, stdin, stream: true, budget: runBudget }),
+        signal: controller.signal,
       });
 
-      const data = await response.json();
-      if (data.error) {
-        alert("Execution Error: " + data.error);
-      } else {
-        setTrace(data.trace);
-        // Auto-start animation after execution
-        if (data.trace.length > 0) {
-          setTimeout(() => {
-            useTraceStore.getState().togglePlay();
-          }, 100);
-        }
+      // Rejected requests (bad input, unknown language) come back as plain JSON
+      if (!response.body || !response.headers.get("Content-Type")?.includes("application/x-ndjson")) {
+        const data = await response.json();
+        setTrace(data.trace ?? []);
+        setError(data.error ?? null);
+        return;
       }
+
+      // Steps are appended as they arrive; playback starts with the first batch
+      useTraceStore.getState().setStreaming(true);
+      let started = false;
+      const { error, truncatedBy } = await readExecutionStream(response.body, (steps) => {
+        useTraceStore.getState().appendSteps(steps);
+        if (!started) {
+          started = true;
+          useTraceStore.getState().togglePlay();
+        }
+      });
+      // A runtime error arrives after the partial trace that led up to it
+      setError(error);
+      useTraceStore.getState().setTruncatedBy(truncatedBy);
     } catch (err) {
+      // Cancelling keeps whatever trace had arrived
+      if (controller.signal.aborted) return;
       console.error(err);
-      alert("Failed to connect to execution engine");
+      setError({ type: "ConnectionError", message: "Failed to connect to execution engine", line: null, traceback: [] });
     } finally {
+      useTraceStore.getState().setStreaming(false);
+      runController.current = null;
       setIsExecuting(false);
     }
   };
 
+  const handleCancel = () => runController.current?.abort();
+
+  const clearRun = () => {
+    setBudget(DEFAULT_BUDGET);
+    useTraceStore.getState().reset();
+    useTraceStore.getState().setTrace([]);
+    useTraceStore.getState().clearBreakpoints();
+  };
+
   const handleExampleChange = (key: string) => {
     setSelectedExample(key);
+    setLanguage("python"); // Examples are written in Python
     setCode(EXAMPLES[key].code);
-    useTraceStore.getState().reset();
-    useTraceStore.getState().setTrace([]);
+    clearRun();
+  };
+
+  const handleLanguageChange = (key: string) => {
+    setLanguage(key);
+    setCode(LANGUAGES[key].starter ?? EXAMPLES[selectedExample].code);
+    clearRun();
   };
 
   return (
@@ -390,7 +553,16 @@ export default function Home() {
               <option value="nqueens">N-Queens</option>
             </optgroup>
           </select>
-          <span className="px-2 py-1 rounded bg-slate-900 border border-slate-800 text-xs uppercase tracking-widest text-slate-500">{language}</span>
+          {/* Language picker */}
+          <select
+            value={language}
+            onChange={(e) => handleLanguageChange(e.target.value)}
+            className="bg-slate-900 border border-slate-800 text-slate-400 text-xs uppercase tracking-widest px-2 py-1.5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer appearance-none"
+          >
+            {Object.entries(LANGUAGES).map(([key, { label }]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
         </div>
       </header>
 
@@ -398,7 +570,7 @@ export default function Home() {
       <div className="flex-1 flex min-h-0">
         {/* Left Side: Editor + Controls */}
         <div className="w-[450px] flex flex-col border-r border-slate-800">
-          <Toolbar onExecute={handleExecute} isExecuting={isExecuting} />
+          <Toolbar onExecute={() => handleExecute()} onCancel={handleCancel} isExecuting={isExecuting} />
           <div className="flex-1 min-h-0">
             <CodeEditor code={code} language={language} onChange={(val) => setCode(val || "")} />
           </div>
@@ -433,13 +605,16 @@ export default function Home() {
             </span>
           </div>
 
+          <ErrorBanner />
+          <TruncationBanner budget={budget} onRerun={handleExecute} disabled={isExecuting} />
+
           {/* Visualization Area */}
           <div className="flex-1 min-h-0">
             {viewMode === "3d" ? (
-              <Scene />
+              <Scene vizCtx={vizCtx} />
             ) : (
               currentStep ? (
-                <Visualization2D step={currentStep} prevStep={prevStep} vizCtx={vizCtx} />
+                <Visualization2D step={currentStep} prevStep={prevStep} vizCtx={vizCtx} callTree={callTree} stepIndex={stepIndex} />
               ) : (
                 <div className="w-full h-full flex items-center justify-center text-slate-600 text-sm">
                   Run your code to see the visualization
@@ -456,6 +631,7 @@ export default function Home() {
       <div className="h-48 border-t border-slate-800 flex overflow-hidden">
         <VariablePanel />
         <StdoutPanel />
+        <StdinPanel value={stdin} onChange={setStdin} />
       </div>
     </main>
   );
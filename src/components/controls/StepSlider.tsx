@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useMemo } from "react";
 import { Play, Pause } from "lucide-react";
 import { useTraceStore } from "@/lib/store/traceStore";
 
@@ -49,31 +49,42 @@ export function StepSlider() {
         const state = useTraceStore.getState();
         const { currentStepIndex: idx, trace: t } = state;
         if (idx >= t.length - 1) {
-            state.togglePlay();
+            // Caught up with a run that is still streaming: wait for more steps
+            if (!state.isStreaming) state.togglePlay();
             return;
         }
 
         // At high speeds (≤100ms), skip non-visual steps
+        let target = idx + 1;
         if (state.playSpeed <= 100) {
-            let next = idx + 1;
-            while (next < t.length - 1 && next - idx < 5) {
-                if (hasVisualChange(t[idx].stack, t[next].stack)) break;
-                next++;
+            while (target < t.length - 1 && target - idx < 5) {
+                // Never skip past a return or an exception — those are what students look for
+                if (t[target].event === "return" || t[target].event === "exception") break;
+                if (hasVisualChange(t[idx].stack, t[target].stack)) break;
+                target++;
             }
-            state.setStep(next);
-        } else {
-            state.nextStep();
         }
+
+        // Pause on the first breakpoint line reached, even if it's inside a skipped run
+        for (let i = idx + 1; i <= target; i++) {
+            if (t[i].event === "line" && state.breakpoints.includes(t[i].line)) {
+                state.setStep(i);
+                state.togglePlay();
+                return;
+            }
+        }
+        state.setStep(target);
     }, []);
 
-    // Auto-play timer
+    // Auto-play timer (not restarted as streamed steps arrive, only when a trace appears)
+    const hasTrace = trace.length > 0;
     useEffect(() => {
         if (intervalRef.current) {
             clearInterval(intervalRef.current);
             intervalRef.current = null;
         }
 
-        if (isPlaying && trace.length > 0) {
+        if (isPlaying && hasTrace) {
             intervalRef.current = setInterval(smartStep, playSpeed);
         }
 
@@ -82,7 +93,18 @@ export function StepSlider() {
                 clearInterval(intervalRef.current);
             }
         };
-    }, [isPlaying, playSpeed, trace.length, smartStep]);
+    }, [isPlaying, playSpeed, hasTrace, smartStep]);
+
+    // Markers for steps worth finding on the timeline
+    const markers = useMemo(() => {
+        const result: Array<{ index: number; kind: "return" | "exception" }> = [];
+        trace.forEach((step, index) => {
+            const isFunctionReturn = step.event === "return" && step.returnValue !== undefined;
+            if (isFunctionReturn) result.push({ index, kind: "return" });
+            else if (step.event === "exception") result.push({ index, kind: "exception" });
+        });
+        return result;
+    }, [trace]);
 
     if (trace.length === 0) return null;
 
@@ -103,14 +125,27 @@ export function StepSlider() {
             <span className="text-xs font-mono text-slate-500 whitespace-nowrap min-w-[80px]">
                 Step {currentStepIndex + 1} / {trace.length}
             </span>
-            <input
-                type="range"
-                min={0}
-                max={trace.length - 1}
-                value={currentStepIndex}
-                onChange={(e) => setStep(parseInt(e.target.value))}
-                className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-            />
+            <div className="relative w-full flex items-center">
+                <input
+                    type="range"
+                    min={0}
+                    max={trace.length - 1}
+                    value={currentStepIndex}
+                    onChange={(e) => setStep(parseInt(e.target.value))}
+                    className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                {/* Return / exception ticks above the track */}
+                <div className="absolute inset-x-0 -top-1.5 h-1.5 pointer-events-none">
+                    {markers.map((m) => (
+                        <span
+                            key={m.index}
+                            className={`absolute top-0 h-1.5 w-[2px] rounded-sm ${m.kind === "exception" ? "bg-red-500" : "bg-emerald-400/70"}`}
+                            style={{ left: `${trace.length > 1 ? (m.index / (trace.length - 1)) * 100 : 0}%` }}
+                            title={m.kind === "exception" ? `Step ${m.index + 1}: exception` : `Step ${m.index + 1}: return`}
+                        />
+                    ))}
+                </div>
+            </div>
             {/* Speed selector */}
             <div className="flex items-center gap-1">
                 {SPEED_OPTIONS.map((opt) => (
@@ -1,14 +1,15 @@
 "use client";
 
-import { SkipBack, SkipForward, RotateCcw, Zap, Loader2 } from "lucide-react";
+import { SkipBack, SkipForward, RotateCcw, Zap, Loader2, Square } from "lucide-react";
 import { useTraceStore } from "@/lib/store/traceStore";
 
 interface ToolbarProps {
     onExecute: () => void;
+    onCancel: () => void;
     isExecuting: boolean;
 }
 
-export function Toolbar({ onExecute, isExecuting }: ToolbarProps) {
+export function Toolbar({ onExecute, onCancel, isExecuting }: ToolbarProps) {
     const { nextStep, prevStep, reset, trace } = useTraceStore();
 
     return (
@@ -32,6 +33,18 @@ export function Toolbar({ onExecute, isExecuting }: ToolbarProps) {
                 )}
             </button>
 
+            {/* Cancel — stops the program on the server; the steps received so far stay */}
+            {isExecuting && (
+                <button
+                    onClick={onCancel}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 hover:bg-red-600 text-slate-300 hover:text-white rounded-md text-sm font-medium transition-colors"
+                    title="Cancel run"
+                >
+                    <Square size={14} fill="currentColor" />
+                    Cancel
+                </button>
+            )}
+
             <div className="h-6 w-[1px] bg-slate-700 mx-2" />
 
             {/* Step controls — manual stepping */}
@@ -1,6 +1,12 @@
 "use client";
 
-import Editor from "@monaco-editor/react";
+import { useEffect, useRef, useState } from "react";
+import Editor, { Monaco, OnMount } from "@monaco-editor/react";
+import { useTraceStore } from "@/lib/store/traceStore";
+
+type EditorInstance = Parameters<OnMount>[0];
+type DecorationsCollection = ReturnType<EditorInstance["createDecorationsCollection"]>;
+type Decoration = Parameters<DecorationsCollection["set"]>[0][number];
 
 interface CodeEditorProps {
     code: string;
@@ -9,6 +15,60 @@ interface CodeEditorProps {
 }
 
 export function CodeEditor({ code, language, onChange }: CodeEditorProps) {
+    const [editor, setEditor] = useState<{ instance: EditorInstance; monaco: Monaco } | null>(null);
+    const decorations = useRef<DecorationsCollection | null>(null);
+
+    const currentLine = useTraceStore((s) => s.trace[s.currentStepIndex]?.line ?? null);
+    const previousLine = useTraceStore((s) => (s.currentStepIndex > 0 ? s.trace[s.currentStepIndex - 1]?.line ?? null : null));
+    const errorLine = useTraceStore((s) => s.error?.line ?? null);
+    const breakpoints = useTraceStore((s) => s.breakpoints);
+
+    const handleMount: OnMount = (instance, monaco) => {
+        decorations.current = instance.createDecorationsCollection();
+        // Clicking the glyph margin or a line number toggles a breakpoint
+        instance.onMouseDown((e) => {
+            const { type, position } = e.target;
+            if (!position) return;
+            if (type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN || type === monaco.editor.MouseTargetType.GUTTER_LINE_NUMBERS) {
+                useTraceStore.getState().toggleBreakpoint(position.lineNumber);
+            }
+        });
+        setEditor({ instance, monaco });
+    };
+
+    useEffect(() => {
+        if (!editor || !decorations.current) return;
+        const { Range } = editor.monaco;
+        const lineRange = (line: number) => new Range(line, 1, line, 1);
+        const next: Decoration[] = [];
+
+        for (const line of breakpoints) {
+            next.push({ range: lineRange(line), options: { glyphMarginClassName: "breakpoint-glyph", glyphMarginHoverMessage: { value: "Breakpoint" } } });
+        }
+        if (previousLine && previousLine !== currentLine) {
+            next.push({ range: lineRange(previousLine), options: { isWholeLine: true, className: "previous-line-decoration" } });
+        }
+        if (currentLine) {
+            next.push({
+                range: lineRange(currentLine),
+                options: { isWholeLine: true, className: "current-line-decoration", linesDecorationsClassName: "current-line-gutter" },
+            });
+        }
+        if (errorLine) {
+            next.push({
+                range: lineRange(errorLine),
+                options: { isWholeLine: true, className: "error-line-decoration", linesDecorationsClassName: "error-line-gutter" },
+            });
+        }
+        decorations.current.set(next);
+    }, [editor, currentLine, previousLine, errorLine, breakpoints]);
+
+    // Keep the executing line (or the error) on screen while stepping
+    useEffect(() => {
+        const line = currentLine ?? errorLine;
+        if (editor && line) editor.instance.revealLineInCenterIfOutsideViewport(line);
+    }, [editor, currentLine, errorLine]);
+
     return (
         <div className="w-full h-full border-r border-slate-800">
             <Editor
@@ -18,12 +78,14 @@ export function CodeEditor({ code, language, onChange }: CodeEditorProps) {
                 value={code}
                 theme="vs-dark"
                 onChange={onChange}
+                onMount={handleMount}
                 options={{
                     minimap: { enabled: false },
                     fontSize: 14,
                     scrollBeyondLastLine: false,
                     automaticLayout: true,
                     padding: { top: 16 },
+                    glyphMargin: true,
                 }}
             />
         </div>
@@ -1,6 +1,11 @@
 "use client";
 
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronRight, RefreshCw, Scissors, X } from "lucide-react";
 import { useTraceStore } from "@/lib/store/traceStore";
+import { BUDGET_CAPS, Frame, Trace, TraceBudget, Truncation } from "@/lib/interpreter/schema";
+import { findAliases, shortAddress } from "@/lib/interpreter/heap";
+import { formatTree, isTreeValue } from "@/lib/treeLayout";
 
 /** Format a variable value for display — special-casing linked lists and trees */
 function formatVariableValue(value: unknown): string {
@@ -14,38 +19,114 @@ function formatVariableValue(value: unknown): string {
     if (obj.__type__ === "linked_list" && Array.isArray(obj.values)) {
         const vals = (obj.values as unknown[]).map(v => String(v));
         if (vals.length === 0) return "∅ (empty)";
-        return vals.join(" → ") + " → NULL";
+        // A cycle ends by pointing back at one of the nodes already listed
+        const end = typeof obj.cycleAt === "number" ? `↺ ${vals[obj.cycleAt]}` : "NULL";
+        return vals.join(" → ") + " → " + end;
     }
 
     // Tree: {"__type__": "tree", "root": {...}}
-    if (obj.__type__ === "tree") {
-        return "tree(...)";
+    if (isTreeValue(value)) {
+        return formatTree(value.root);
     }
 
     return JSON.stringify(value);
 }
 
+function VariableRow({
+    name,
+    value,
+    address,
+    aliases,
+}: {
+    name: string;
+    value: unknown;
+    address?: string;
+    aliases?: Map<string, string[]>;
+}) {
+    const isLinkedList = value !== null && typeof value === "object" && !Array.isArray(value) && (value as Record<string, unknown>).__type__ === "linked_list";
+    const sharedWith = address ? aliases?.get(address) : undefined;
+    return (
+        <div className="flex items-baseline gap-2 font-mono text-sm">
+            <span className={isLinkedList ? "text-emerald-400" : "text-blue-400"}>{name}</span>
+            <span className="text-slate-500">=</span>
+            {address && (
+                <span
+                    className={`shrink-0 px-1 rounded text-[10px] ${sharedWith ? "bg-purple-900/60 text-purple-300" : "bg-slate-800 text-slate-500"}`}
+                    title={sharedWith ? `Same object as: ${sharedWith.join(", ")}` : `Heap object ${address}`}
+                >
+                    {shortAddress(address)}
+                </span>
+            )}
+            <span className={`truncate ${isLinkedList ? "text-emerald-300" : "text-slate-300"}`}>
+                {formatVariableValue(value)}
+            </span>
+        </div>
+    );
+}
+
+/** Call stack listing — innermost frame first, outer frames collapsed by default */
+function CallStackView({ frames, aliases }: { frames: Frame[]; aliases: Map<string, string[]> }) {
+    const [toggled, setToggled] = useState<Record<string, boolean>>({});
+    const innermostId = frames[frames.length - 1]?.id;
+
+    return (
+        <div className="space-y-1">
+            {[...frames].reverse().map((frame) => {
+                const isInnermost = frame.id === innermostId;
+                const isOpen = toggled[frame.id] ?? isInnermost;
+                const entries = Object.entries(frame.locals);
+                return (
+                    <div key={frame.id} className={`rounded border ${isInnermost ? "border-blue-900/60 bg-blue-950/20" : "border-slate-800"}`}>
+                        <button
+                            onClick={() => setToggled((t) => ({ ...t, [frame.id]: !isOpen }))}
+                            className="w-full flex items-center gap-2 px-2 py-1 text-left font-mono text-xs hover:bg-slate-800/50"
+                        >
+                            {isOpen ? <ChevronDown size={12} className="text-slate-500" /> : <ChevronRight size={12} className="text-slate-500" />}
+                            <span className={isInnermost ? "text-blue-300 font-semibold" : "text-slate-300"}>
+                                {frame.name === "<module>" ? "global" : frame.name}
+                            </span>
+                            <span className="text-slate-600">line {frame.line}</span>
+                        </button>
+                        {isOpen && (
+                            <div className="px-6 pb-2 space-y-1">
+                                {entries.map(([name, value]) => (
+                                    <VariableRow key={name} name={name} value={value} address={frame.refs[name]} aliases={aliases} />
+                                ))}
+                                {entries.length === 0 && (
+                                    <div className="text-slate-600 italic text-xs">No locals</div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
 export function VariablePanel() {
     const currentStep = useTraceStore((state) => state.getCurrentStep());
+    const aliases = useMemo(() => (currentStep ? findAliases(currentStep) : new Map<string, string[]>()), [currentStep]);
 
     if (!currentStep) return null;
 
+    // Older traces (or other instrumentors) may not carry frames — fall back to the flat stack
+    if (currentStep.frames.length > 0) {
+        return (
+            <div className="flex-1 min-w-[300px] border-r border-slate-800 p-4 overflow-auto bg-slate-900/50">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">Call Stack</h3>
+                <CallStackView frames={currentStep.frames} aliases={aliases} />
+            </div>
+        );
+    }
+
     return (
         <div className="flex-1 min-w-[300px] border-r border-slate-800 p-4 overflow-auto bg-slate-900/50">
             <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">Variables (Stack)</h3>
             <div className="space-y-2">
-                {Object.entries(currentStep.stack).map(([name, value]) => {
-                    const isLinkedList = value !== null && typeof value === "object" && !Array.isArray(value) && (value as Record<string, unknown>).__type__ === "linked_list";
-                    return (
-                        <div key={name} className="flex items-baseline gap-2 font-mono text-sm">
-                            <span className={isLinkedList ? "text-emerald-400" : "text-blue-400"}>{name}</span>
-                            <span className="text-slate-500">=</span>
-                            <span className={`truncate ${isLinkedList ? "text-emerald-300" : "text-slate-300"}`}>
-                                {formatVariableValue(value)}
-                            </span>
-                        </div>
-                    );
-                })}
+                {Object.entries(currentStep.stack).map(([name, value]) => (
+                    <VariableRow key={name} name={name} value={value} address={currentStep.refs[name]} aliases={aliases} />
+                ))}
                 {Object.keys(currentStep.stack).length === 0 && (
                     <div className="text-slate-600 italic text-xs">No variables in scope</div>
                 )}
@@ -54,15 +135,223 @@ export function VariablePanel() {
     );
 }
 
+interface ConsoleSegment {
+    text: string;
+    step: number; // Step whose output delta this text arrived in
+    stream: "stdout" | "stderr";
+}
+
+interface ConsoleLine {
+    step: number; // Step at which the line was started
+    segments: ConsoleSegment[];
+}
+
+/** Split the per-step output deltas into console lines, remembering which step wrote each piece. */
+function buildConsoleLines(trace: Trace): ConsoleLine[] {
+    const lines: ConsoleLine[] = [{ step: 0, segments: [] }];
+    trace.forEach((step, index) => {
+        for (const stream of ["stdout", "stderr"] as const) {
+            step[stream].split("\n").forEach((text, i) => {
+                if (i > 0) lines.push({ step: index, segments: [] });
+                if (text) lines[lines.length - 1].segments.push({ text, step: index, stream });
+            });
+        }
+    });
+    // Output ending in a newline leaves an empty line that nothing has been written to yet
+    if (lines[lines.length - 1].segments.length === 0) lines.pop();
+    return lines;
+}
+
+/**
+ * Console output up to the current step, rebuilt from the per-step deltas.
+ * Output from the current step is highlighted, stderr is red, and clicking
+ * any piece of output jumps to the step where it appeared.
+ */
 export function StdoutPanel() {
-    const currentStep = useTraceStore((state) => state.getCurrentStep());
+    const trace = useTraceStore((state) => state.trace);
+    const currentStepIndex = useTraceStore((state) => state.currentStepIndex);
+    const setStep = useTraceStore((state) => state.setStep);
+    const lines = useMemo(() => buildConsoleLines(trace), [trace]);
+    const newestRef = useRef<HTMLSpanElement>(null);
+
+    const visible = lines
+        .filter((line) => line.step <= currentStepIndex)
+        .map((line) => line.segments.filter((segment) => segment.step <= currentStepIndex));
+
+    useEffect(() => {
+        newestRef.current?.scrollIntoView({ block: "nearest" });
+    }, [currentStepIndex]);
 
     return (
         <div className="flex-1 p-4 overflow-auto bg-slate-950">
             <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">Console Output</h3>
             <pre className="text-sm font-mono text-slate-300 whitespace-pre-wrap leading-relaxed">
-                {currentStep?.stdout || "Program output will appear here..."}
+                {visible.length === 0 && "Program output will appear here..."}
+                {visible.map((line, i) => (
+                    <div key={i} className="min-h-[1lh]">
+                        {line.map((segment, j) => {
+                            const isNew = segment.step === currentStepIndex;
+                            return (
+                                <span
+                                    key={j}
+                                    ref={isNew ? newestRef : undefined}
+                                    onClick={() => setStep(segment.step)}
+                                    title={`Step ${segment.step + 1}`}
+                                    className={`cursor-pointer hover:underline ${segment.stream === "stderr" ? "text-red-400" : ""} ${isNew ? "bg-blue-500/25 rounded-sm" : ""}`}
+                                >
+                                    {segment.text}
+                                </span>
+                            );
+                        })}
+                    </div>
+                ))}
             </pre>
         </div>
     );
 }
+
+interface StdinPanelProps {
+    value: string;
+    onChange: (value: string) => void;
+}
+
+/**
+ * Program input. Once a run is loaded it shows how far the program has read:
+ * input consumed before the current step is dimmed, input read by the line
+ * that just ran is highlighted. Tracers that cannot tell (Java) leave the
+ * input as typed. Clicking switches back to editing.
+ */
+export function StdinPanel({ value, onChange }: StdinPanelProps) {
+    const trace = useTraceStore((state) => state.trace);
+    const currentStepIndex = useTraceStore((state) => state.currentStepIndex);
+    const [editing, setEditing] = useState(false);
+
+    const { consumed, justRead } = useMemo(() => {
+        let total = 0;
+        for (let i = 0; i < currentStepIndex && i < trace.length; i++) total += trace[i].stdin?.length ?? 0;
+        return { consumed: total, justRead: trace[currentStepIndex]?.stdin?.length ?? 0 };
+    }, [trace, currentStepIndex]);
+
+    const tracksInput = trace.length > 0 && trace[0].stdin !== undefined;
+    const showProgress = tracksInput && !editing && value.length > 0;
+
+    return (
+        <div className="w-64 shrink-0 border-l border-slate-800 p-4 flex flex-col bg-slate-950">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">
+                Input (stdin)
+                {showProgress && <span className="ml-2 normal-case tracking-normal text-slate-600">{consumed + justRead}/{value.length} read</span>}
+            </h3>
+            {showProgress ? (
+                <pre
+                    onClick={() => setEditing(true)}
+                    className="flex-1 overflow-auto text-sm font-mono whitespace-pre-wrap leading-relaxed cursor-text"
+                    title="Click to edit"
+                >
+                    <span className="text-slate-600">{value.slice(0, consumed)}</span>
+                    <span className="bg-blue-500/30 text-blue-200 rounded-sm">{value.slice(consumed, consumed + justRead)}</span>
+                    <span className="text-slate-300">{value.slice(consumed + justRead)}</span>
+                </pre>
+            ) : (
+                <textarea
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    onBlur={() => setEditing(false)}
+                    autoFocus={editing}
+                    spellCheck={false}
+                    placeholder="Input for input() / stdin..."
+                    className="flex-1 resize-none bg-slate-900 border border-slate-800 rounded-md p-2 text-sm font-mono text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+            )}
+        </div>
+    );
+}
+
+/** Structured runtime/syntax error from the last run, shown above the visualization */
+export function ErrorBanner() {
+    const error = useTraceStore((state) => state.error);
+    const hasTrace = useTraceStore((state) => state.trace.length > 0);
+    const jumpToError = useTraceStore((state) => state.jumpToError);
+    const setError = useTraceStore((state) => state.setError);
+
+    if (!error) return null;
+
+    return (
+        <div className="flex items-start gap-3 px-4 py-2 border-b border-red-900/60 bg-red-950/40 text-sm">
+            <AlertTriangle size={16} className="text-red-400 mt-0.5 shrink-0" />
+            <div className="flex-1 min-w-0 font-mono">
+                <div className="text-red-300">
+                    <span className="font-semibold">{error.type}</span>: {error.message}
+                    {error.line !== null && <span className="text-red-400/70"> (line {error.line})</span>}
+                </div>
+                {error.traceback.length > 0 && (
+                    <div className="mt-1 text-xs text-red-400/70 truncate">
+                        {error.traceback.map((f) => `${f.name === "<module>" ? "global" : f.name}:${f.line}`).join(" → ")}
+                    </div>
+                )}
+            </div>
+            {hasTrace && (
+                <button
+                    onClick={jumpToError}
+                    className="shrink-0 px-2 py-0.5 text-xs rounded bg-red-900/60 text-red-200 hover:bg-red-800/60"
+                >
+                    Jump to error step
+                </button>
+            )}
+            <button onClick={() => setError(null)} className="shrink-0 text-red-400/70 hover:text-red-200" title="Dismiss">
+                <X size={14} />
+            </button>
+        </div>
+    );
+}
+
+const TRUNCATION_MESSAGES: Record<Truncation[number], (limit: number) => string> = {
+    maxSteps: (n) => `tracing stopped after ${n} steps`,
+    maxDepth: (n) => `values nested deeper than ${n} levels are abbreviated`,
+    maxListNodes: (n) => `linked lists are cut off after ${n} nodes`,
+    maxTreeDepth: (n) => `trees are cut off below depth ${n}`,
+};
+
+/** Double every limit the run hit, up to what the server accepts; null if none can grow. */
+function growBudget(budget: TraceBudget, truncatedBy: Truncation): TraceBudget | null {
+    const next = { ...budget };
+    for (const key of truncatedBy) next[key] = Math.min(budget[key] * 2, BUDGET_CAPS[key]);
+    return truncatedBy.some((key) => next[key] > budget[key]) ? next : null;
+}
+
+interface TruncationBannerProps {
+    budget: TraceBudget; // Budget the last run used
+    onRerun: (budget: TraceBudget) => void;
+    disabled: boolean;
+}
+
+/** Says which trace budget limits cut the last run short, and offers a re-run with more room. */
+export function TruncationBanner({ budget, onRerun, disabled }: TruncationBannerProps) {
+    const truncatedBy = useTraceStore((state) => state.truncatedBy);
+    const setTruncatedBy = useTraceStore((state) => state.setTruncatedBy);
+
+    if (truncatedBy.length === 0) return null;
+    const bigger = growBudget(budget, truncatedBy);
+    const details = truncatedBy.map((key) => TRUNCATION_MESSAGES[key](budget[key])).join("; ");
+
+    return (
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-amber-900/60 bg-amber-950/30 text-sm">
+            <Scissors size={16} className="text-amber-400 shrink-0" />
+            <div className="flex-1 min-w-0 text-amber-200">
+                <span className="font-semibold">Trace truncated</span>: {details}
+            </div>
+            {bigger && (
+                <button
+                    onClick={() => onRerun(bigger)}
+                    disabled={disabled}
+                    className="shrink-0 flex items-center gap-1.5 px-2 py-0.5 text-xs rounded bg-amber-900/60 text-amber-100 hover:bg-amber-800/60 disabled:opacity-40"
+                >
+                    <RefreshCw size={12} />
+                    Re-run with a bigger budget
+                </button>
+            )}
+            <button onClick={() => setTruncatedBy([])} className="shrink-0 text-amber-400/70 hover:text-amber-200" title="Dismiss">
+                <X size={14} />
+            </button>
+        </div>
+    );
+}
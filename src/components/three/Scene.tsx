@@ -4,7 +4,7 @@ import { Suspense, useMemo, useState, useCallback, useRef, useEffect } from "rea
 import { Canvas } from "@react-three/fiber";
 import { OrbitControls, PerspectiveCamera, Grid } from "@react-three/drei";
 import { useTraceStore } from "@/lib/store/traceStore";
-import { detectVizType, VizType } from "@/lib/vizDetector";
+import { VizContext, VizType } from "@/lib/vizDetector";
 import { UniversalScene3D } from "./UniversalScene3D";
 import * as THREE from "three";
 
@@ -13,6 +13,7 @@ const CAMERA_POSITIONS: Record<VizType, [number, number, number]> = {
     search: [0, 5, 18],
     array: [0, 5, 18],
     graph: [6, 3, 22],
+    tree: [0, -2, 20],
     grid: [0, 14, 10],
     none: [10, 10, 10],
 };
@@ -179,15 +180,14 @@ function CameraToolbar({
 }
 
 
-export function Scene() {
-    const trace = useTraceStore((s) => s.trace);
+/** The 3D view; `vizCtx` comes from the page, which keeps it in step with the streamed trace. */
+export function Scene({ vizCtx }: { vizCtx: VizContext }) {
     const currentStep = useTraceStore((s) => s.getCurrentStep());
     const prevStep = useTraceStore((s) => {
         const { trace: t, currentStepIndex } = s;
         return currentStepIndex > 0 ? t[currentStepIndex - 1] : null;
     });
 
-    const vizCtx = useMemo(() => detectVizType(trace), [trace]);
     const cameraPos = CAMERA_POSITIONS[vizCtx.type];
 
     // Camera mode: pan (default) or orbit
@@ -1,10 +1,18 @@
 "use client";
 
-import { useRef, useMemo, useState, useCallback } from "react";
+import { useRef, useMemo, useState, useCallback, useEffect } from "react";
 import { useFrame, useThree } from "@react-three/fiber";
 import { Text, RoundedBox, Line } from "@react-three/drei";
 import * as THREE from "three";
 import { TraceStep } from "@/lib/interpreter/schema";
+import { indexAccesses } from "@/lib/accesses";
+import { pointersByArray } from "@/lib/arrayPointers";
+import { dpStepAccesses } from "@/lib/dpTable";
+import { ActiveEdge, annotateGraph, findActiveEdge, formatAnnotation, GraphAnnotations, GraphModel, parseGraph } from "@/lib/graphModel";
+import { heapHeight, heapMoves, heapSlot, isHeapOrdered } from "@/lib/heapLayout";
+import { buildListDiagram, ListDiagram } from "@/lib/linkedListLayout";
+import { DSRole, roleLabel } from "@/lib/stackQueue";
+import { collectTrees, isTreeValue, TreeChanges, TreeInScope, treeChanges } from "@/lib/treeLayout";
 import { VizContext } from "@/lib/vizDetector";
 
 // ─── Configuration ───────────────────────────────────────────
@@ -134,12 +142,6 @@ function classifyValue(val: unknown): "array" | "dict" | "scalar" | "none" {
     return "scalar";
 }
 
-function isAdjList(val: unknown): boolean {
-    if (typeof val !== "object" || val === null || Array.isArray(val)) return false;
-    const entries = Object.entries(val as Record<string, unknown>);
-    return entries.length >= 2 && entries.every(([, v]) => Array.isArray(v));
-}
-
 function formatCellValue(val: unknown): string {
     if (typeof val === "number") return String(val);
     if (typeof val === "boolean") return val ? "T" : "F";
@@ -188,6 +190,7 @@ function Bar3D({
     zPos,
     isPointed,
     isChanged,
+    isRead = false,
     color,
 }: {
     value: unknown;
@@ -196,6 +199,8 @@ function Bar3D({
     zPos: number;
     isPointed: boolean;
     isChanged: boolean;
+    /** Read by the line that just ran */
+    isRead?: boolean;
     color: string;
 }) {
     const meshRef = useRef<THREE.Mesh>(null!);
@@ -209,15 +214,17 @@ function Bar3D({
 
     const targetColor = useMemo(() => {
         if (isChanged) return new THREE.Color("#22c55e");
+        if (isRead) return new THREE.Color("#38bdf8");
         if (isPointed) return new THREE.Color("#f59e0b");
         return new THREE.Color(color);
-    }, [isChanged, isPointed, color]);
+    }, [isChanged, isRead, isPointed, color]);
 
     const targetEmissive = useMemo(() => {
         if (isChanged) return new THREE.Color("#16a34a");
+        if (isRead) return new THREE.Color("#0284c7");
         if (isPointed) return new THREE.Color("#d97706");
         return new THREE.Color("#1e40af");
-    }, [isChanged, isPointed]);
+    }, [isChanged, isRead, isPointed]);
 
     useFrame((_, delta) => {
         elapsedRef.current += delta;
@@ -402,6 +409,7 @@ function GridTile3D({
     col,
     isPointed,
     isChanged,
+    isRead = false,
     totalRows,
     totalCols,
 }: {
@@ -410,6 +418,8 @@ function GridTile3D({
     col: number;
     isPointed: boolean;
     isChanged: boolean;
+    /** A DP cell the written cell was computed from */
+    isRead?: boolean;
     totalRows: number;
     totalCols: number;
 }) {
@@ -422,11 +432,12 @@ function GridTile3D({
     const targetColor = useMemo(() => {
         if (isChanged) return new THREE.Color("#22c55e");
         if (isPointed) return new THREE.Color("#f59e0b");
+        if (isRead) return new THREE.Color("#38bdf8");
         const numVal = typeof value === "number" ? value : 0;
         if (numVal === 0) return new THREE.Color("#1e293b");
         if (numVal === 1 || value === true) return new THREE.Color("#3b82f6");
         return new THREE.Color("#6366f1");
-    }, [isChanged, isPointed, value]);
+    }, [isChanged, isPointed, isRead, value]);
 
     useFrame((_, delta) => {
         elapsedRef.current += delta;
@@ -541,26 +552,19 @@ function DictView3D({
     );
 }
 
-// ─── Classify variable name as stack / queue / plain array ───
-type DSType = "stack" | "queue" | "array";
-function classifyDSType(name: string): DSType {
-    const lower = name.toLowerCase();
-    if (/^(stack|stk|call_stack|mono_stack)$|_stack$|^stack_/.test(lower)) return "stack";
-    if (/^(queue|deque|bfs_queue|dq)$|_queue$|^queue_/.test(lower)) return "queue";
-    return "array";
-}
-
 // ─── Stack3D ─ Vertical column (LIFO) ─────────────────────────
 function Stack3D({
     name,
     items,
     yPos,
     prevItems,
+    role,
 }: {
     name: string;
     items: unknown[];
     yPos: number;
     prevItems: unknown[] | null;
+    role: DSRole;
 }) {
     const CELL_H = 0.5;
     const CELL_W = 1.3;
@@ -596,7 +600,7 @@ function Stack3D({
                 anchorX="center"
                 anchorY="middle"
             >
-                ↓ push  ·  pop ↑
+                ↓ push  ·  pop ↑  ·  {roleLabel(role)}
             </Text>
 
             {/* Top-of-stack indicator arrow */}
@@ -694,11 +698,13 @@ function Queue3D({
     items,
     yPos,
     prevItems,
+    role,
 }: {
     name: string;
     items: unknown[];
     yPos: number;
     prevItems: unknown[] | null;
+    role: DSRole;
 }) {
     const CELL_W = 1.1;
     const CELL_H = 0.55;
@@ -734,7 +740,7 @@ function Queue3D({
                 anchorX="center"
                 anchorY="middle"
             >
-                dequeue ← · → enqueue
+                dequeue ← · → enqueue  ·  {roleLabel(role)}
             </Text>
 
             {/* FRONT arrow (dequeue side — left) */}
@@ -854,43 +860,30 @@ function Queue3D({
     );
 }
 
-// ─── Helper: detect if a value is a serialized linked list ───
-function isLinkedListValue(val: unknown): val is { __type__: "linked_list"; values: unknown[] } {
-    return (
-        val !== null &&
-        typeof val === "object" &&
-        (val as Record<string, unknown>).__type__ === "linked_list" &&
-        Array.isArray((val as Record<string, unknown>).values)
-    );
-}
-
-// ─── LinkedListView3D ─ Horizontal chain (lime/emerald) ───────
-function LinkedListView3D({
-    name,
-    values,
-    yPos,
-    currentVar,
-    prevVar,
-}: {
-    name: string;
-    values: unknown[];
-    yPos: number;
-    currentVar?: string | null;
-    prevVar?: string | null;
-}) {
+// ─── LinkedListDiagram3D ─ Every node once, one row per chain (emerald) ───
+function LinkedListDiagram3D({ diagram, yPos }: { diagram: ListDiagram; yPos: number }) {
     const NODE_W = 1.1;
     const NODE_H = 0.65;
     const GAP = 0.7; // space for arrow between nodes
     const BAR_D = 0.55;
-    const n = values.length;
-    const totalW = n * NODE_W + (n - 1) * GAP;
-    const xCenter = totalW / 2 - NODE_W / 2;
+    const ROW_GAP = 2.4;
+    const xCenter = (diagram.cols * NODE_W + (diagram.cols - 1) * GAP) / 2 - NODE_W / 2;
+    const byId = new Map(diagram.nodes.map(n => [n.id, n]));
+    const nodeX = (col: number) => col * (NODE_W + GAP) - xCenter;
+    const nodeY = (row: number) => -row * ROW_GAP;
+
+    const pointersByNode = new Map<string, Array<{ name: string; color: string }>>();
+    diagram.pointers.forEach((p, idx) => {
+        const names = pointersByNode.get(p.id) ?? [];
+        names.push({ name: p.name, color: POINTER_COLORS[idx % POINTER_COLORS.length] });
+        pointersByNode.set(p.id, names);
+    });
 
     return (
         <group position={[0, yPos, 0]}>
             {/* Label */}
             <Text
-                position={[0, NODE_H + 1.4, 0]}
+                position={[0, NODE_H + 1.6, 0]}
                 fontSize={0.34}
                 color="#86efac"
                 anchorX="center"
@@ -899,43 +892,45 @@ function LinkedListView3D({
                 outlineColor="#020617"
                 fontWeight="bold"
             >
-                {name} (linked list) [{n}]
+                linked lists [{diagram.nodes.length} nodes]
             </Text>
 
-            {/* Direction hint */}
-            <Text
-                position={[0, NODE_H + 0.95, 0]}
-                fontSize={0.16}
-                color="#4ade80"
-                anchorX="center"
-                anchorY="middle"
-            >
-                HEAD → ... → NULL
-            </Text>
-
-            {/* HEAD label on first node */}
-            {n > 0 && (
-                <Text
-                    position={[-xCenter - 0.0, NODE_H + 0.55, 0]}
-                    fontSize={0.18}
-                    color="#22c55e"
-                    anchorX="center"
-                    anchorY="middle"
-                    fontWeight="bold"
-                >
-                    HEAD
-                </Text>
-            )}
+            {/* Cycles and shared tails — curved, dashed back-edges */}
+            {diagram.edges.filter(e => e.kind !== "next").map(edge => {
+                const from = byId.get(edge.from)!;
+                const to = byId.get(edge.to)!;
+                const start = new THREE.Vector3(nodeX(from.col) + NODE_W / 2, nodeY(from.row) + NODE_H / 2, 0);
+                const end = edge.kind === "back"
+                    ? new THREE.Vector3(nodeX(to.col), nodeY(to.row) - 0.05, 0)
+                    : new THREE.Vector3(nodeX(to.col), nodeY(to.row) + (to.row < from.row ? -0.05 : NODE_H + 0.05), 0);
+                const control = edge.kind === "back"
+                    ? new THREE.Vector3((start.x + end.x) / 2, nodeY(from.row) - 1.3, 0.3)
+                    : new THREE.Vector3(end.x, start.y, 0.3);
+                const curve = new THREE.QuadraticBezierCurve3(start, control, end);
+                const points = curve.getPoints(24);
+                const tangent = curve.getTangent(1);
+                const color = edge.kind === "back" ? "#f59e0b" : "#4ade80";
+                return (
+                    <group key={`${edge.from}-${edge.to}`}>
+                        <Line points={points} color={color} lineWidth={2} dashed dashSize={0.15} gapSize={0.08} />
+                        <mesh
+                            position={end}
+                            quaternion={new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), tangent)}
+                        >
+                            <coneGeometry args={[0.08, 0.18, 4]} />
+                            <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.6} />
+                        </mesh>
+                    </group>
+                );
+            })}
 
             {/* Nodes */}
-            {values.map((val, idx) => {
-                const x = idx * (NODE_W + GAP) - xCenter;
-                const displayText = formatCellValue(val);
-                const isHead = idx === 0;
-                const isTail = idx === n - 1;
-
+            {diagram.nodes.map(node => {
+                const names = pointersByNode.get(node.id) ?? [];
+                const isTail = diagram.tails.includes(node.id);
+                const next = diagram.edges.find(e => e.from === node.id);
                 return (
-                    <group key={idx} position={[x, 0, 0]}>
+                    <group key={node.id} position={[nodeX(node.col), nodeY(node.row), 0]}>
                         {/* Node box */}
                         <RoundedBox
                             args={[NODE_W, NODE_H, BAR_D]}
@@ -945,9 +940,9 @@ function LinkedListView3D({
                             castShadow
                         >
                             <meshStandardMaterial
-                                color={isHead ? "#16a34a" : isTail ? "#15803d" : "#166534"}
-                                emissive={isHead ? "#22c55e" : "#15803d"}
-                                emissiveIntensity={isHead ? 0.6 : 0.25}
+                                color={names.length > 0 ? "#16a34a" : "#166534"}
+                                emissive={names[0]?.color ?? "#15803d"}
+                                emissiveIntensity={names.length > 0 ? 0.5 : 0.25}
                                 roughness={0.2}
                                 metalness={0.8}
                             />
@@ -970,10 +965,10 @@ function LinkedListView3D({
                             outlineColor="#020617"
                             fontWeight="bold"
                         >
-                            {displayText}
+                            {formatCellValue(node.value)}
                         </Text>
 
-                        {/* "·" or arrow symbol in right compartment (next pointer) */}
+                        {/* next pointer compartment */}
                         <Text
                             position={[NODE_W / 2.8, NODE_H / 2, BAR_D / 2 + 0.02]}
                             fontSize={0.2}
@@ -984,19 +979,31 @@ function LinkedListView3D({
                             {isTail ? "∅" : "→"}
                         </Text>
 
-                        {/* Index below */}
-                        <Text
-                            position={[0, -0.2, 0]}
-                            fontSize={0.14}
-                            color="#64748b"
-                            anchorX="center"
-                            anchorY="top"
-                        >
-                            {String(idx)}
-                        </Text>
+                        {/* Pointer variables, stacked above the node */}
+                        {names.map((p, idx) => (
+                            <Text
+                                key={p.name}
+                                position={[0, NODE_H + 0.45 + (names.length - 1 - idx) * 0.28, 0]}
+                                fontSize={0.2}
+                                color={p.color}
+                                anchorX="center"
+                                anchorY="middle"
+                                outlineWidth={0.015}
+                                outlineColor="#020617"
+                                fontWeight="bold"
+                            >
+                                {p.name}
+                            </Text>
+                        ))}
+                        {names.length > 0 && (
+                            <mesh position={[0, NODE_H + 0.2, 0]} rotation={[Math.PI, 0, 0]}>
+                                <coneGeometry args={[0.08, 0.16, 4]} />
+                                <meshStandardMaterial color={names[0].color} emissive={names[0].color} emissiveIntensity={0.6} />
+                            </mesh>
+                        )}
 
-                        {/* Arrow to next node */}
-                        {!isTail && (
+                        {/* Arrow to the neighbour on the right */}
+                        {next?.kind === "next" && (
                             <group position={[NODE_W / 2 + GAP / 2, NODE_H / 2, 0]}>
                                 {/* Shaft */}
                                 <mesh position={[0, 0, 0]}>
@@ -1021,47 +1028,388 @@ function LinkedListView3D({
                                 </mesh>
                             </group>
                         )}
+
+                        {/* NULL terminator */}
+                        {isTail && (
+                            <Text
+                                position={[NODE_W / 2 + 0.45, NODE_H / 2, 0]}
+                                fontSize={0.22}
+                                color="#ef4444"
+                                anchorX="center"
+                                anchorY="middle"
+                                fontWeight="bold"
+                                outlineWidth={0.015}
+                                outlineColor="#020617"
+                            >
+                                NULL
+                            </Text>
+                        )}
                     </group>
                 );
             })}
 
-            {/* NULL terminator after last node */}
-            {n > 0 && (
-                <group position={[(n - 1) * (NODE_W + GAP) - xCenter + NODE_W / 2 + GAP / 2 + 0.4, NODE_H / 2, 0]}>
-                    <Text
-                        fontSize={0.22}
-                        color="#ef4444"
-                        anchorX="center"
-                        anchorY="middle"
-                        fontWeight="bold"
-                        outlineWidth={0.015}
-                        outlineColor="#020617"
-                    >
-                        NULL
-                    </Text>
-                </group>
+            {/* Pointer variables holding no node */}
+            {diagram.nullPointers.length > 0 && (
+                <Text
+                    position={[0, nodeY(diagram.rows - 1) - 0.7, 0]}
+                    fontSize={0.2}
+                    color="#94a3b8"
+                    anchorX="center"
+                    anchorY="middle"
+                >
+                    {diagram.nullPointers.map(name => `${name} → NULL`).join("   ")}
+                </Text>
             )}
         </group>
     );
 }
 
-/** Graph visualization — force-directed layout with curved edges */
+// ─── PriorityQueueTree3D ─ Heap list as its complete binary tree ───
+const PQ_X_GAP = 1.1;
+const PQ_Y_GAP = 1.4;
+
+/** Heap slot whose item glides over from its old slot after a sift swap */
+function HeapNode3D({
+    value,
+    x,
+    y,
+    origin,
+    isNew,
+    isTop,
+}: {
+    value: unknown;
+    x: number;
+    y: number;
+    origin: [number, number] | null;
+    isNew: boolean;
+    isTop: boolean;
+}) {
+    const groupRef = useRef<THREE.Group>(null!);
+    const [initialPosition] = useState<[number, number, number]>([x, y, 0]);
+    const target = useMemo(() => new THREE.Vector3(x, y, 0), [x, y]);
+    const valueKey = JSON.stringify(value);
+    // Compared by coordinates: the parent builds a new origin array on every render
+    const [fromX, fromY] = origin ?? [null, null];
+
+    // A new item in this slot: jump to where it came from, then let useFrame glide it home
+    useEffect(() => {
+        if (fromX !== null && fromY !== null && groupRef.current) groupRef.current.position.set(fromX, fromY, 0);
+    }, [valueKey, fromX, fromY]);
+
+    useFrame((_, delta) => {
+        if (groupRef.current) groupRef.current.position.lerp(target, Math.min(1, LERP_SPEED * delta));
+    });
+
+    let color = "#6366f1";
+    if (isTop) color = "#3b82f6";
+    if (isNew) color = "#22c55e";
+    if (origin) color = "#f59e0b";
+
+    return (
+        <group ref={groupRef} position={initialPosition}>
+            <mesh castShadow>
+                <sphereGeometry args={[0.38, 24, 24]} />
+                <meshStandardMaterial color={color} emissive={color} emissiveIntensity={origin || isNew ? 0.6 : 0.25} roughness={0.25} metalness={0.7} />
+            </mesh>
+            <Text
+                position={[0, 0, 0.4]}
+                fontSize={formatCellValue(value).length > 4 ? 0.14 : 0.24}
+                color="white"
+                anchorX="center"
+                anchorY="middle"
+                outlineWidth={0.012}
+                outlineColor="#020617"
+                fontWeight="bold"
+            >
+                {formatCellValue(value)}
+            </Text>
+        </group>
+    );
+}
+
+function PriorityQueueTree3D({
+    items,
+    prevItems,
+    xPos,
+}: {
+    items: unknown[];
+    prevItems: unknown[] | null;
+    xPos: number;
+}) {
+    const n = items.length;
+    const height = heapHeight(n);
+    const prevHeight = heapHeight(prevItems?.length ?? 0);
+    const moves = useMemo(() => heapMoves(prevItems, items), [prevItems, items]);
+    const kind = isHeapOrdered(items, "min") || !isHeapOrdered(items, "max") ? "min" : "max";
+    const bottomWidth = 2 ** Math.max(0, height - 1);
+    const place = (index: number, levels: number): [number, number] => {
+        const { x, y } = heapSlot(index, levels);
+        return [(x - (bottomWidth - 1) / 2) * PQ_X_GAP, 2.5 - y * PQ_Y_GAP];
+    };
+
+    if (n === 0) return null;
+    return (
+        <group position={[xPos + (bottomWidth * PQ_X_GAP) / 2, 0, 0]}>
+            <Text
+                position={[0, 3.4, 0]}
+                fontSize={0.28}
+                color="#a5b4fc"
+                anchorX="center"
+                anchorY="middle"
+                outlineWidth={0.015}
+                outlineColor="#020617"
+            >
+                {kind}-heap
+            </Text>
+            {/* Edges join slots, so they stay put while items move */}
+            {items.map((_, i) => {
+                if (i === 0) return null;
+                const [px, py] = place(Math.floor((i - 1) / 2), height);
+                const [cx, cy] = place(i, height);
+                return <Line key={`edge-${i}`} points={[[px, py, 0], [cx, cy, 0]]} color="#64748b" lineWidth={1.5} />;
+            })}
+            {items.map((val, i) => {
+                const [x, y] = place(i, height);
+                const from = moves[i];
+                return (
+                    <HeapNode3D
+                        key={i}
+                        value={val}
+                        x={x}
+                        y={y}
+                        origin={from !== null && from !== i ? place(from, prevHeight) : null}
+                        isNew={from === null}
+                        isTop={i === 0}
+                    />
+                );
+            })}
+        </group>
+    );
+}
+
+// ─── TreeView3D ─ Binary tree, root on top (indigo) ───────────
+const TREE_X_GAP = 1.3;
+const TREE_Y_GAP = 1.7;
+const TREE_NODE_R = 0.42;
+const TREE_UP = new THREE.Vector3(0, 1, 0);
+
+/** Live node positions, written by the nodes and read by the edges every frame */
+type TreePositions = Map<string, THREE.Vector3>;
+
+/** Tree node that glides to its slot; new nodes grow in, removed ones shrink away */
+function TreeNode3D({
+    id,
+    value,
+    x,
+    y,
+    pointers,
+    isNew,
+    isChanged,
+    isRemoved,
+    positions,
+}: {
+    id: string;
+    value: unknown;
+    x: number;
+    y: number;
+    pointers: Array<{ name: string; color: string }>;
+    isNew: boolean;
+    isChanged: boolean;
+    isRemoved: boolean;
+    positions: TreePositions;
+}) {
+    const groupRef = useRef<THREE.Group>(null!);
+    const matRef = useRef<THREE.MeshStandardMaterial>(null!);
+    const elapsedRef = useRef(0);
+    // Only the first position is handed to three; after that useFrame moves the node
+    const [initialPosition] = useState<[number, number, number]>([x, y, 0]);
+    const [initialScale] = useState(isNew ? 0.01 : 1);
+    const target = useMemo(() => new THREE.Vector3(x, y, 0), [x, y]);
+
+    let color = "#4f46e5";
+    if (pointers.length > 0) color = pointers[0].color;
+    if (isNew || isChanged) color = "#22c55e";
+    if (isRemoved) color = "#ef4444";
+
+    useFrame((_, delta) => {
+        elapsedRef.current += delta;
+        const speed = Math.min(1, LERP_SPEED * delta);
+        const group = groupRef.current;
+        if (!group) return;
+        group.position.lerp(target, speed);
+        group.scale.setScalar(THREE.MathUtils.lerp(group.scale.x, isRemoved ? 0 : 1, speed));
+        positions.set(id, group.position);
+
+        if (matRef.current) {
+            matRef.current.emissiveIntensity = isNew || isChanged
+                ? Math.sin(elapsedRef.current * 4) * 0.3 + 0.7
+                : THREE.MathUtils.lerp(matRef.current.emissiveIntensity, pointers.length > 0 ? 0.6 : 0.25, speed);
+        }
+    });
+
+    return (
+        <group ref={groupRef} position={initialPosition} scale={initialScale}>
+            <mesh castShadow>
+                <sphereGeometry args={[TREE_NODE_R, 24, 24]} />
+                <meshStandardMaterial
+                    ref={matRef}
+                    color={color}
+                    emissive={color}
+                    emissiveIntensity={0.25}
+                    roughness={0.25}
+                    metalness={0.7}
+                    transparent={isRemoved}
+                    opacity={isRemoved ? 0.6 : 1}
+                />
+            </mesh>
+            <Text
+                position={[0, 0, TREE_NODE_R + 0.02]}
+                fontSize={0.26}
+                color="white"
+                anchorX="center"
+                anchorY="middle"
+                outlineWidth={0.012}
+                outlineColor="#020617"
+                fontWeight="bold"
+            >
+                {formatCellValue(value)}
+            </Text>
+            {/* Variables pointing at this node, stacked above it */}
+            {pointers.map((p, idx) => (
+                <Text
+                    key={p.name}
+                    position={[0, TREE_NODE_R + 0.25 + (pointers.length - 1 - idx) * 0.3, 0]}
+                    fontSize={0.22}
+                    color={p.color}
+                    anchorX="center"
+                    anchorY="middle"
+                    outlineWidth={0.015}
+                    outlineColor="#020617"
+                    fontWeight="bold"
+                >
+                    {p.name}
+                </Text>
+            ))}
+        </group>
+    );
+}
+
+/** Parent → child edge that follows both nodes while they move */
+function TreeEdge3D({ from, to, positions }: { from: string; to: string; positions: TreePositions }) {
+    const meshRef = useRef<THREE.Mesh>(null!);
+    const direction = useMemo(() => new THREE.Vector3(), []);
+
+    useFrame(() => {
+        const mesh = meshRef.current;
+        const a = positions.get(from);
+        const b = positions.get(to);
+        if (!mesh) return;
+        if (!a || !b) {
+            mesh.visible = false;
+            return;
+        }
+        direction.subVectors(b, a);
+        const length = direction.length();
+        mesh.visible = length > 0.01;
+        mesh.position.copy(a).addScaledVector(direction, 0.5);
+        mesh.scale.set(1, length, 1);
+        if (length > 0.01) mesh.quaternion.setFromUnitVectors(TREE_UP, direction.normalize());
+    });
+
+    return (
+        <mesh ref={meshRef} visible={false}>
+            <cylinderGeometry args={[0.035, 0.035, 1, 6]} />
+            <meshStandardMaterial color="#64748b" emissive="#334155" emissiveIntensity={0.4} />
+        </mesh>
+    );
+}
+
+function TreeView3D({
+    tree,
+    changes,
+    yPos,
+}: {
+    tree: TreeInScope;
+    changes: TreeChanges;
+    yPos: number;
+}) {
+    const { layout, pointers } = tree;
+    const [positions] = useState<TreePositions>(() => new Map());
+    const xCenter = ((layout.width - 1) * TREE_X_GAP) / 2;
+
+    const pointersByNode = new Map<string, Array<{ name: string; color: string }>>();
+    pointers.forEach((p, idx) => {
+        const names = pointersByNode.get(p.id) ?? [];
+        names.push({ name: p.name, color: POINTER_COLORS[idx % POINTER_COLORS.length] });
+        pointersByNode.set(p.id, names);
+    });
+
+    return (
+        <group position={[0, yPos, 0]}>
+            <Text
+                position={[0, 1.6, 0]}
+                fontSize={0.34}
+                color="#a5b4fc"
+                anchorX="center"
+                anchorY="middle"
+                outlineWidth={0.018}
+                outlineColor="#020617"
+                fontWeight="bold"
+            >
+                {tree.name} (tree) [{layout.nodes.length}]
+            </Text>
+
+            {layout.nodes.map(node => node.parent !== null && (
+                <TreeEdge3D key={`edge-${node.id}`} from={node.parent} to={node.id} positions={positions} />
+            ))}
+
+            {/* Removed nodes keep their key so the same node shrinks where it stood */}
+            {[...layout.nodes, ...changes.removed].map(node => {
+                const isRemoved = !layout.nodes.includes(node);
+                return (
+                    <TreeNode3D
+                        key={node.id}
+                        id={node.id}
+                        value={node.value}
+                        x={node.x * TREE_X_GAP - xCenter}
+                        y={-node.y * TREE_Y_GAP}
+                        pointers={isRemoved ? [] : pointersByNode.get(node.id) ?? []}
+                        isNew={changes.added.has(node.id)}
+                        isChanged={changes.changed.has(node.id)}
+                        isRemoved={isRemoved}
+                        positions={positions}
+                    />
+                );
+            })}
+        </group>
+    );
+}
+
+// One color per annotation table (dist, indegree, ...), in the order found
+const BADGE_COLORS = ["#38bdf8", "#f472b6", "#facc15", "#a3e635"];
+
+/** Graph visualization — force-directed layout with curved edges, arrowheads, weights and node badges */
 function GraphView3D({
-    adj,
+    graph,
     visited,
     queue,
     current,
+    active,
+    annotations,
     xOffset,
     zOffset,
 }: {
-    adj: Record<string, number[]>;
+    graph: GraphModel;
     visited: unknown[];
     queue: unknown[];
     current: unknown;
+    active: ActiveEdge | null;
+    annotations: GraphAnnotations;
     xOffset: number;
     zOffset: number;
 }) {
-    const nodeIds = Object.keys(adj);
+    const nodeIds = graph.nodes;
+    const { badges, parents } = annotations;
 
     // ── Force-directed layout ──
     // Runs a spring simulation to naturally separate nodes and minimize edge crossings
@@ -1079,19 +1427,6 @@ function GraphView3D({
             };
         });
 
-        // Build undirected edge set
-        const edgeSet = new Set<string>();
-        const edgeList: [string, string][] = [];
-        for (const [node, neighbors] of Object.entries(adj)) {
-            for (const neighbor of neighbors) {
-                const key = [node, String(neighbor)].sort().join("-");
-                if (!edgeSet.has(key)) {
-                    edgeSet.add(key);
-                    edgeList.push([node, String(neighbor)]);
-                }
-            }
-        }
-
         // Force simulation parameters
         const REPULSION = 8.0;
         const SPRING_K = 0.15;
@@ -1124,7 +1459,7 @@ function GraphView3D({
             }
 
             // Spring attraction along edges (Hooke's law)
-            for (const [a, b] of edgeList) {
+            for (const { from: a, to: b } of graph.edges) {
                 const dx = positions[b].x - positions[a].x;
                 const dy = positions[b].y - positions[a].y;
                 const dist = Math.sqrt(dx * dx + dy * dy) + 0.01;
@@ -1157,7 +1492,7 @@ function GraphView3D({
             result.set(id, positions[id]);
         }
         return result;
-    }, [nodeIds, adj]);
+    }, [nodeIds, graph]);
 
     const visitedSet = useMemo(() => {
         if (Array.isArray(visited)) return new Set(visited.map(String));
@@ -1171,21 +1506,11 @@ function GraphView3D({
     }, [queue]);
     const currentStr = current !== undefined ? String(current) : null;
 
-    // Deduplicated edges
-    const edges = useMemo(() => {
-        const e: { from: string; to: string }[] = [];
-        const seen = new Set<string>();
-        for (const [node, neighbors] of Object.entries(adj)) {
-            for (const neighbor of neighbors) {
-                const key = [node, String(neighbor)].sort().join("-");
-                if (!seen.has(key)) {
-                    seen.add(key);
-                    e.push({ from: node, to: String(neighbor) });
-                }
-            }
-        }
-        return e;
-    }, [adj]);
+    const graphBounds = useMemo(() => {
+        const xs = [...layout.values()].map(p => p.x);
+        const ys = [...layout.values()].map(p => p.y);
+        return { minX: Math.min(0, ...xs), maxY: Math.max(0, ...ys) };
+    }, [layout]);
 
     // Compute center of graph for edge curving direction
     const graphCenter = useMemo(() => {
@@ -1196,7 +1521,13 @@ function GraphView3D({
     }, [layout]);
 
     // ── Generate curved edge points (quadratic bezier) ──
-    const getEdgePoints = (fromPos: { x: number; y: number }, toPos: { x: number; y: number }) => {
+    // Both directions of a directed pair are drawn, bent to opposite sides
+    const hasTwin = (from: string, to: string) => graph.directed && graph.edges.some(e => e.from === to && e.to === from);
+    const isActive = (from: string, to: string) => !!active && (
+        (active.from === from && active.to === to) || (!graph.directed && active.from === to && active.to === from)
+    );
+
+    const getEdgePoints = (from: string, to: string, fromPos: { x: number; y: number }, toPos: { x: number; y: number }) => {
         const NODE_RADIUS = 0.45;
         const dx = toPos.x - fromPos.x;
         const dy = toPos.y - fromPos.y;
@@ -1225,10 +1556,11 @@ function GraphView3D({
         const centerDx = midX - graphCenter.x;
         const centerDy = midY - graphCenter.y;
         const dot = centerDx * perpX + centerDy * perpY;
-        const sign = dot >= 0 ? 1 : -1;
+        const twin = hasTwin(from, to);
+        const sign = twin ? (from < to ? 1 : -1) : dot >= 0 ? 1 : -1;
 
         // Curve strength proportional to distance (longer edges curve more)
-        const curvature = Math.min(dist * 0.15, 1.2);
+        const curvature = twin ? Math.max(dist * 0.2, 0.5) : Math.min(dist * 0.15, 1.2);
         const ctrlX = midX + perpX * curvature * sign;
         const ctrlY = midY + perpY * curvature * sign;
 
@@ -1242,31 +1574,97 @@ function GraphView3D({
             const py = oneMinusT * oneMinusT * startY + 2 * oneMinusT * t * ctrlY + t * t * endY;
             points.push([px, py, 0]);
         }
-        return points;
+        return {
+            points,
+            label: [0.25 * startX + 0.5 * ctrlX + 0.25 * endX, 0.25 * startY + 0.5 * ctrlY + 0.25 * endY] as const,
+            // Arrowhead direction: the curve's tangent at its end
+            tip: [endX, endY, endX - ctrlX, endY - ctrlY] as const,
+        };
     };
 
     return (
         <group position={[xOffset, 0, zOffset]}>
-            {/* Edges — curved bezier lines */}
-            {edges.map(({ from, to }) => {
+            {/* Legend for the badges and the parent tree, above the graph */}
+            {[...badges.map((badge, i) => ({ text: `● ${badge.name}`, color: BADGE_COLORS[i % BADGE_COLORS.length] })),
+                ...(parents ? [{ text: `━ ${parents.name} tree`, color: "#a855f7" }] : [])].map((entry, i) => (
+                <Text
+                    key={entry.text}
+                    position={[graphBounds.minX + i * 2.4, graphBounds.maxY + 1.1, 0]}
+                    fontSize={0.26}
+                    color={entry.color}
+                    anchorX="left"
+                    anchorY="middle"
+                >
+                    {entry.text}
+                </Text>
+            ))}
+
+            {/* Parent pointers — the search tree, drawn behind the edges */}
+            {parents?.links.map(({ from, to }) => {
                 const fromPos = layout.get(from);
                 const toPos = layout.get(to);
                 if (!fromPos || !toPos) return null;
-                const points = getEdgePoints(fromPos, toPos);
-                if (!points) return null;
-                const isTraversed = visitedSet.has(from) && visitedSet.has(to);
                 return (
                     <Line
-                        key={`${from}-${to}`}
-                        points={points}
-                        color={isTraversed ? "#22c55e" : "#475569"}
-                        lineWidth={isTraversed ? 2.5 : 1.2}
+                        key={`parent-${from}-${to}`}
+                        points={[[fromPos.x, fromPos.y, -0.05], [toPos.x, toPos.y, -0.05]]}
+                        color="#a855f7"
+                        lineWidth={7}
                         transparent
-                        opacity={isTraversed ? 1.0 : 0.5}
+                        opacity={0.35}
                     />
                 );
             })}
 
+            {/* Edges — curved bezier lines */}
+            {graph.edges.map(({ from, to, weight }) => {
+                const fromPos = layout.get(from);
+                const toPos = layout.get(to);
+                if (!fromPos || !toPos) return null;
+                const edge = getEdgePoints(from, to, fromPos, toPos);
+                if (!edge) return null;
+                const isTraversed = visitedSet.has(from) && visitedSet.has(to);
+                const highlighted = isActive(from, to);
+                const color = highlighted ? "#f59e0b" : isTraversed ? "#22c55e" : "#475569";
+                const [tipX, tipY, dirX, dirY] = edge.tip;
+                return (
+                    <group key={`${from}-${to}`}>
+                        <Line
+                            points={edge.points}
+                            color={color}
+                            lineWidth={highlighted ? 3.5 : isTraversed ? 2.5 : 1.2}
+                            dashed={highlighted && !active?.relaxed}
+                            dashSize={0.2}
+                            gapSize={0.12}
+                            transparent
+                            opacity={highlighted || isTraversed ? 1.0 : 0.5}
+                        />
+                        {graph.directed && (
+                            <mesh
+                                position={[tipX, tipY, 0]}
+                                rotation={[0, 0, Math.atan2(dirY, dirX) - Math.PI / 2]}
+                            >
+                                <coneGeometry args={[0.12, 0.3, 12]} />
+                                <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.3} />
+                            </mesh>
+                        )}
+                        {graph.weighted && weight !== null && (
+                            <Text
+                                position={[edge.label[0], edge.label[1], 0.1]}
+                                fontSize={0.24}
+                                color={highlighted ? "#fbbf24" : "#cbd5e1"}
+                                anchorX="center"
+                                anchorY="middle"
+                                outlineWidth={0.03}
+                                outlineColor="#020617"
+                            >
+                                {formatCellValue(weight)}
+                            </Text>
+                        )}
+                    </group>
+                );
+            })}
+
             {/* Nodes */}
             {nodeIds.map((id) => {
                 const pos = layout.get(id);
@@ -1308,6 +1706,24 @@ function GraphView3D({
                         >
                             {id}
                         </Text>
+                        {badges.map((badge, i) => {
+                            if (!(id in badge.values)) return null;
+                            const changed = badge.changed.has(id);
+                            return (
+                                <Text
+                                    key={badge.name}
+                                    position={[0, -0.62 - i * 0.3, 0.1]}
+                                    fontSize={changed ? 0.26 : 0.22}
+                                    color={BADGE_COLORS[i % BADGE_COLORS.length]}
+                                    anchorX="center"
+                                    anchorY="middle"
+                                    outlineWidth={changed ? 0.04 : 0.02}
+                                    outlineColor={changed ? "#ffffff" : "#020617"}
+                                >
+                                    {formatAnnotation(badge.values[id])}
+                                </Text>
+                            );
+                        })}
                     </group>
                 );
             })}
@@ -1326,56 +1742,62 @@ interface UniversalScene3DProps {
 export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DProps) {
     const sortedVars = useMemo(() => getSortedVariables(step, vizCtx), [step, vizCtx]);
 
-    // Build pointer map for primary array
+    // Pointers per array: scalars bound to the array they index, else pointer-like names on the primary one
     const pointerMap = useMemo(() => {
-        const pointers: Array<{ name: string; index: number; color: string }> = [];
-        let colorIdx = 0;
-        for (const v of sortedVars) {
-            if (v.type !== "scalar") continue;
-            const val = v.value;
-            if (typeof val !== "number" || !Number.isInteger(val) || val < 0) continue;
-            const primaryArr = vizCtx.primaryVar ? step.stack[vizCtx.primaryVar] : null;
-            if (Array.isArray(primaryArr) && val < primaryArr.length) {
-                const isLikelyPointer = vizCtx.pointerVars.includes(v.name) ||
-                    /^(i|j|k|l|r|m|idx|index|left|right|low|high|mid|start|end|top|bottom|cur|ptr|head|tail|lo|hi|cut\d?)$/i.test(v.name);
-                if (isLikelyPointer) {
-                    pointers.push({ name: v.name, index: val, color: POINTER_COLORS[colorIdx++ % POINTER_COLORS.length] });
-                }
-            }
+        const scalarNames = sortedVars.filter(v => v.type === "scalar").map(v => v.name);
+        const byArray = new Map<string, Array<{ name: string; index: number; color: string }>>();
+        for (const [array, pointers] of pointersByArray(step, scalarNames, vizCtx)) {
+            byArray.set(array, pointers.map(p => ({ name: p.name, index: p.index, color: POINTER_COLORS[p.slot % POINTER_COLORS.length] })));
         }
-        return pointers;
+        return byArray;
     }, [sortedVars, vizCtx, step]);
 
+    const listDiagram = useMemo(() => buildListDiagram(step), [step]);
+
+    // Trees are gathered across the whole call stack so recursive helpers still see the root
+    const trees = useMemo(() => collectTrees(step), [step]);
+    const treeChangeList = useMemo(
+        () => trees.map(tree => treeChanges(tree, trees, prevStep ? collectTrees(prevStep) : [])),
+        [trees, prevStep]
+    );
+
     // Separate variables — classify arrays into stacks, queues, plain arrays, and linked lists
     const plainArrays: Array<{ name: string; value: unknown[] }> = [];
-    const stacks: Array<{ name: string; value: unknown[] }> = [];
-    const queues: Array<{ name: string; value: unknown[] }> = [];
-    const linkedLists: Array<{ name: string; values: unknown[] }> = [];
+    const stacks: Array<{ name: string; value: unknown[]; role: DSRole }> = [];
+    const queues: Array<{ name: string; value: unknown[]; role: DSRole }> = [];
     const grids: Array<{ name: string; value: unknown[][] }> = [];
     const dicts: Array<{ name: string; value: Record<string, unknown> }> = [];
-    const adjLists: Array<{ name: string; value: Record<string, number[]> }> = [];
+    const graphs: Array<{ name: string; graph: GraphModel; annotations: GraphAnnotations }> = [];
     const scalars: Array<{ name: string; value: unknown }> = [];
 
     for (const v of sortedVars) {
-        if (v.type === "array") {
-            if (is2DGrid(v.value)) {
+        const graph = v.type === "array" || v.type === "dict" ? parseGraph(v.name, v.value) : null;
+        if (graph) {
+            graphs.push({ name: v.name, graph, annotations: annotateGraph(graph, step, prevStep) });
+        }
+    }
+    // dist/parent/indegree... tables are drawn on their graph's nodes instead
+    const annotationVars = new Set(graphs.flatMap(g => g.annotations.vars));
+
+    for (const v of sortedVars) {
+        if (annotationVars.has(v.name) || graphs.some(g => g.name === v.name)) {
+            continue;
+        } else if (v.type === "array") {
+            // A stack of (node, depth) pairs is still a stack, not a grid
+            const role = vizCtx.dsRoles[v.name];
+            if (role?.type === "stack") {
+                stacks.push({ name: v.name, value: v.value as unknown[], role });
+            } else if (role?.type === "queue") {
+                queues.push({ name: v.name, value: v.value as unknown[], role });
+            } else if (is2DGrid(v.value)) {
                 grids.push({ name: v.name, value: v.value as unknown[][] });
             } else {
-                const dsType = classifyDSType(v.name);
-                if (dsType === "stack") {
-                    stacks.push({ name: v.name, value: v.value as unknown[] });
-                } else if (dsType === "queue") {
-                    queues.push({ name: v.name, value: v.value as unknown[] });
-                } else {
-                    plainArrays.push({ name: v.name, value: v.value as unknown[] });
-                }
+                plainArrays.push({ name: v.name, value: v.value as unknown[] });
             }
         } else if (v.type === "dict") {
-            // Check for linked list first (serialized as {__type__: "linked_list", values: [...]})
-            if (isLinkedListValue(v.value)) {
-                linkedLists.push({ name: v.name, values: (v.value as { __type__: string; values: unknown[] }).values });
-            } else if (isAdjList(v.value)) {
-                adjLists.push({ name: v.name, value: v.value as Record<string, number[]> });
+            // Linked lists and trees are drawn below as diagrams, with each variable as a pointer
+            if (isTreeValue(v.value) || (v.value as Record<string, unknown>).__type__ === "linked_list") {
+                continue;
             } else {
                 dicts.push({ name: v.name, value: v.value as Record<string, unknown> });
             }
@@ -1389,20 +1811,22 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
 
     // ─── Layout Strategy ───
     const ARRAY_Y_GAP = 5;
-    const hasGraphs = adjLists.length > 0;
-
-    const pointedIndices = useMemo(() => {
-        const s = new Set<number>();
-        for (const p of pointerMap) s.add(p.index);
-        return s;
-    }, [pointerMap]);
+    const hasGraphs = graphs.length > 0;
 
     // Each array-like structure gets a Y position going downward
     let layoutIdx = 0;
     const plainArrayYPositions = plainArrays.map(() => -(layoutIdx++) * ARRAY_Y_GAP);
     const stackYPositions = stacks.map(() => -(layoutIdx++) * ARRAY_Y_GAP);
     const queueYPositions = queues.map(() => -(layoutIdx++) * ARRAY_Y_GAP);
-    const linkedListYPositions = linkedLists.map(() => -(layoutIdx++) * ARRAY_Y_GAP);
+    // The linked list diagram takes a slot per row of chains
+    const linkedListYPos = -layoutIdx * ARRAY_Y_GAP;
+    if (listDiagram) layoutIdx += Math.max(1, Math.ceil((listDiagram.rows * 2.4) / ARRAY_Y_GAP));
+    // Trees hang down from their root, so they take as many slots as they are tall
+    const treeYPositions = trees.map(tree => {
+        const yPos = -layoutIdx * ARRAY_Y_GAP;
+        layoutIdx += Math.max(1, Math.ceil((tree.layout.height * TREE_Y_GAP + 1) / ARRAY_Y_GAP));
+        return yPos;
+    });
 
     // Place graph to the RIGHT of arrays (X-axis offset)
     const maxArrayWidth = allArrayLike.length > 0
@@ -1439,6 +1863,8 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                 const yPos = plainArrayYPositions[arrIdx];
                 const n = arr.value.length;
                 const xCenter = (n * BAR_SPACING) / 2 - BAR_SPACING / 2;
+                const pointers = pointerMap.get(arr.name) ?? [];
+                const accesses = indexAccesses(step, arr.name);
 
                 return (
                     <DraggableGroup key={arr.name} initialPosition={[0, yPos, 0]}>
@@ -1456,12 +1882,13 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                         </Text>
 
                         {arr.value.map((val, idx) => {
-                            const isChanged = prevStep
+                            // A write shows even when it stored the same value
+                            const isChanged = accesses.writes.has(idx) || (prevStep
                                 ? JSON.stringify(
                                     (prevStep.stack[arr.name] as unknown[])?.[idx]
                                 ) !== JSON.stringify(val)
-                                : false;
-                            const isPointed = isPrimary && pointedIndices.has(idx);
+                                : false);
+                            const isPointed = pointers.some(p => p.index === idx);
 
                             return (
                                 <Bar3D
@@ -1472,21 +1899,30 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                                     zPos={0}
                                     isPointed={isPointed}
                                     isChanged={isChanged}
+                                    isRead={accesses.reads.has(idx)}
                                     color={isPrimary ? "#3b82f6" : "#6366f1"}
                                 />
                             );
                         })}
 
-                        {isPrimary &&
-                            pointerMap.map((p) => (
-                                <Pointer3D
-                                    key={p.name}
-                                    label={p.name}
-                                    targetX={p.index * BAR_SPACING - xCenter}
-                                    zPos={0}
-                                    color={p.color}
-                                />
-                            ))}
+                        {pointers.map((p) => (
+                            <Pointer3D
+                                key={p.name}
+                                label={p.name}
+                                targetX={p.index * BAR_SPACING - xCenter}
+                                zPos={0}
+                                color={p.color}
+                            />
+                        ))}
+
+                        {/* Heaps also get the tree their indices encode, right of the bars */}
+                        {vizCtx.heapVars.includes(arr.name) && (
+                            <PriorityQueueTree3D
+                                items={arr.value}
+                                prevItems={(prevStep?.stack[arr.name] as unknown[] | undefined) ?? null}
+                                xPos={n * BAR_SPACING - xCenter + 1}
+                            />
+                        )}
                     </DraggableGroup>
                 );
             })}
@@ -1503,6 +1939,7 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                             items={s.value}
                             yPos={stackYPositions[idx]}
                             prevItems={prevArr}
+                            role={s.role}
                         />
                     </DraggableGroup>
                 );
@@ -1520,18 +1957,26 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                             items={q.value}
                             yPos={queueYPositions[idx]}
                             prevItems={prevArr}
+                            role={q.role}
                         />
                     </DraggableGroup>
                 );
             })}
 
-            {/* ─── Linked Lists — horizontal chain (emerald) ─── */}
-            {linkedLists.map((ll, idx) => (
-                <DraggableGroup key={ll.name} initialPosition={[0, 0, 0]}>
-                    <LinkedListView3D
-                        name={ll.name}
-                        values={ll.values}
-                        yPos={linkedListYPositions[idx]}
+            {/* ─── Linked Lists — every node once, pointers labelled (emerald) ─── */}
+            {listDiagram && (
+                <DraggableGroup initialPosition={[0, 0, 0]}>
+                    <LinkedListDiagram3D diagram={listDiagram} yPos={linkedListYPos} />
+                </DraggableGroup>
+            )}
+
+            {/* ─── Binary Trees — root on top, pointers labelled (indigo) ─── */}
+            {trees.map((tree, idx) => (
+                <DraggableGroup key={tree.name} initialPosition={[0, 0, 0]}>
+                    <TreeView3D
+                        tree={tree}
+                        changes={treeChangeList[idx]}
+                        yPos={treeYPositions[idx]}
                     />
                 </DraggableGroup>
             ))}
@@ -1546,6 +1991,13 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                 const iVal = step.stack.i as number | undefined;
                 const jVal = step.stack.j as number | undefined;
                 const wVal = step.stack.w as number | undefined;
+                // DP tables know exactly which cell was written and which were read
+                const dp = vizCtx.dpVars.includes(grid.name) ? dpStepAccesses(grid.name, step, prevStep) : null;
+                const tilePos = ([r, c]: number[]): [number, number, number] => [
+                    (c - totalCols / 2 + 0.5) * (GRID_TILE + GRID_GAP),
+                    0.35,
+                    (r - totalRows / 2 + 0.5) * (GRID_TILE + GRID_GAP),
+                ];
 
                 return (
                     <DraggableGroup key={grid.name} initialPosition={[0, yBase, 0]}>
@@ -1562,7 +2014,10 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                         </Text>
                         {grid.value.map((row, r) =>
                             (row as unknown[]).map((cellVal, c) => {
-                                const isPointed = (iVal !== undefined && r === iVal && ((wVal !== undefined && c === wVal) || (jVal !== undefined && c === jVal)));
+                                const isPointed = dp
+                                    ? dp.written?.[0] === r && dp.written[1] === c
+                                    : (iVal !== undefined && r === iVal && ((wVal !== undefined && c === wVal) || (jVal !== undefined && c === jVal)));
+                                const isRead = !!dp?.reads.some(([rr, cc]) => rr === r && cc === c);
                                 const isChanged = prevStep
                                     ? JSON.stringify(
                                         ((prevStep.stack[grid.name] as unknown[][])?.[r] as unknown[])?.[c]
@@ -1577,18 +2032,40 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                                         col={c}
                                         isPointed={isPointed}
                                         isChanged={isChanged}
+                                        isRead={isRead}
                                         totalRows={totalRows}
                                         totalCols={totalCols}
                                     />
                                 );
                             })
                         )}
+                        {/* Dependency arcs: each cell read → the cell written */}
+                        {dp?.written && dp.reads.map(read => {
+                            const from = tilePos(read);
+                            const to = tilePos(dp.written!);
+                            const mid: [number, number, number] = [(from[0] + to[0]) / 2, 1.1, (from[2] + to[2]) / 2];
+                            const curve = new THREE.QuadraticBezierCurve3(new THREE.Vector3(...from), new THREE.Vector3(...mid), new THREE.Vector3(...to));
+                            const points = curve.getPoints(16);
+                            const tangent = curve.getTangent(1);
+                            return (
+                                <group key={`dep-${read.join("-")}`}>
+                                    <Line points={points} color="#38bdf8" lineWidth={2} />
+                                    <mesh
+                                        position={to}
+                                        quaternion={new THREE.Quaternion().setFromUnitVectors(TREE_UP, tangent)}
+                                    >
+                                        <coneGeometry args={[0.08, 0.22, 10]} />
+                                        <meshStandardMaterial color="#38bdf8" emissive="#38bdf8" emissiveIntensity={0.4} />
+                                    </mesh>
+                                </group>
+                            );
+                        })}
                     </DraggableGroup>
                 );
             })}
 
             {/* ─── Graph (adjacency list) — placed to the right of arrays ─── */}
-            {adjLists.map((g) => {
+            {graphs.map((g) => {
                 const rawVisited = step.stack.visited;
                 const visited = Array.isArray(rawVisited)
                     ? rawVisited
@@ -1601,15 +2078,17 @@ export function UniversalScene3D({ step, prevStep, vizCtx }: UniversalScene3DPro
                     : rawQueue && typeof rawQueue === 'object'
                         ? Object.keys(rawQueue)
                         : [];
-                const current = step.stack.current ?? step.stack.node ?? step.stack.curr;
+                const current = step.stack.current ?? step.stack.node ?? step.stack.curr ?? step.stack.u;
 
                 return (
                     <DraggableGroup key={g.name} initialPosition={[GRAPH_X_OFFSET, 0, 0]}>
                         <GraphView3D
-                            adj={g.value}
+                            graph={g.graph}
                             visited={visited}
                             queue={queue}
                             current={current}
+                            active={findActiveEdge(g.graph, step, prevStep)}
+                            annotations={g.annotations}
                             xOffset={0}
                             zOffset={0}
                         />
@@ -1,13 +1,27 @@
 "use client";
 
-import { useMemo } from "react";
-import { TraceStep } from "@/lib/interpreter/schema";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Frame, HeapObject, TraceStep } from "@/lib/interpreter/schema";
+import { findAliases, isHeapRef, shortAddress } from "@/lib/interpreter/heap";
+import { indexAccesses, IndexAccesses } from "@/lib/accesses";
+import { pointersByArray } from "@/lib/arrayPointers";
+import { dpStepAccesses, sequenceLabels, tableDims } from "@/lib/dpTable";
+import { ActiveEdge, annotateGraph, findActiveEdge, formatAnnotation, GraphAnnotations, GraphModel, parseGraph } from "@/lib/graphModel";
+import { findGridPointers, GridPointer, is2DGrid, isNumericGrid } from "@/lib/gridLayout";
+import { heapHeight, heapMoves, heapSlot, isHeapOrdered } from "@/lib/heapLayout";
+import { buildListDiagram, ListDiagram } from "@/lib/linkedListLayout";
+import { activeCall, CallNode, CallTree, formatCall } from "@/lib/recursionTree";
+import { DSRole, queueDiff, roleLabel, stackDiff } from "@/lib/stackQueue";
+import { collectTrees, isTreeValue, TreeChanges, TreeInScope, treeChanges } from "@/lib/treeLayout";
 import { VizContext } from "@/lib/vizDetector";
 
 interface Visualization2DProps {
     step: TraceStep;
     prevStep: TraceStep | null;
     vizCtx: VizContext;
+    /** Calls of the run's recursive functions, when it has any */
+    callTree?: CallTree | null;
+    stepIndex?: number;
 }
 
 // ─── Color Palette ───────────────────────────────────────────
@@ -24,6 +38,7 @@ const COLORS = {
     pointerBg: "#78350f",
     changed: "#22c55e",
     changedBg: "#052e16",
+    readBg: "#172554",
     highlight: "#a855f7",
     highlightBg: "#3b0764",
     danger: "#ef4444",
@@ -94,12 +109,15 @@ function ArrayRow({
     prevData,
     pointers,
     isPrimary,
+    accesses,
 }: {
     name: string;
     data: unknown[];
     prevData?: unknown[];
     pointers: Array<{ name: string; index: number; color: string }>;
     isPrimary: boolean;
+    /** Cells the line that just ran read and wrote */
+    accesses?: IndexAccesses;
 }) {
     const baseFontSize = isPrimary ? 13 : 11;
 
@@ -134,13 +152,25 @@ function ArrayRow({
                 }}>
                     [{data.length}]
                 </span>
+                {accesses && accesses.reads.size > 0 && (
+                    <span style={{ color: COLORS.accent, fontSize: 9, fontFamily: "monospace" }}>
+                        ● read {[...accesses.reads].sort((a, b) => a - b).join(", ")}
+                    </span>
+                )}
+                {accesses && accesses.writes.size > 0 && (
+                    <span style={{ color: COLORS.changed, fontSize: 9, fontFamily: "monospace" }}>
+                        ● wrote {[...accesses.writes].sort((a, b) => a - b).join(", ")}
+                    </span>
+                )}
             </div>
 
             {/* Cells */}
             <div style={{ display: "flex", gap: 2, flexWrap: "wrap", alignItems: "flex-end" }}>
                 {data.map((val, idx) => {
-                    const changed = prevData && idx < prevData.length &&
-                        JSON.stringify(prevData[idx]) !== JSON.stringify(val);
+                    // A write shows even when it stored the same value
+                    const changed = accesses?.writes.has(idx) || (prevData && idx < prevData.length &&
+                        JSON.stringify(prevData[idx]) !== JSON.stringify(val));
+                    const isRead = !changed && !!accesses?.reads.has(idx);
                     const pointedBy = pointers.filter(p => p.index === idx);
                     const isPointed = pointedBy.length > 0;
                     const cellW = cellWidths[idx];
@@ -176,22 +206,26 @@ function ArrayRow({
                                 alignItems: "center",
                                 justifyContent: "center",
                                 padding: "0 6px",
-                                background: isPointed
-                                    ? `${pointedBy[0].color}30`
-                                    : changed
-                                        ? COLORS.changedBg
-                                        : COLORS.cellDefault,
+                                background: changed
+                                    ? COLORS.changedBg
+                                    : isRead
+                                        ? COLORS.readBg
+                                        : isPointed
+                                            ? `${pointedBy[0].color}30`
+                                            : COLORS.cellDefault,
                                 border: `2px solid ${isPointed
                                     ? pointedBy[0].color
                                     : changed
                                         ? COLORS.changed
-                                        : COLORS.cardBorder
+                                        : isRead
+                                            ? COLORS.accent
+                                            : COLORS.cardBorder
                                     }`,
                                 borderRadius: 6,
                                 transition: "all 0.2s ease",
                             }}>
                                 <span style={{
-                                    color: changed ? COLORS.changed : COLORS.text,
+                                    color: changed ? COLORS.changed : isRead ? COLORS.accent : COLORS.text,
                                     fontSize: baseFontSize,
                                     fontWeight: changed ? 700 : 500,
                                     fontFamily: "monospace",
@@ -217,6 +251,153 @@ function ArrayRow({
     );
 }
 
+// ─── Grid / Matrix View (2D) ──────────────────────────────────
+const GRID_CELL = 34;
+
+/** Blue (low) → red (high) */
+function heatColor(val: number, min: number, max: number): string {
+    const t = max === min ? 0.5 : (val - min) / (max - min);
+    return `hsl(${Math.round(220 - 220 * t)}, 70%, ${Math.round(22 + 16 * t)}%)`;
+}
+
+function GridView2D({
+    name,
+    grid,
+    prevGrid,
+    pointers,
+    isPrimary,
+}: {
+    name: string;
+    grid: unknown[][];
+    prevGrid?: unknown[][];
+    pointers: Array<GridPointer & { color: string }>;
+    isPrimary: boolean;
+}) {
+    const [heatmap, setHeatmap] = useState(false);
+    const numeric = isNumericGrid(grid);
+    const cols = grid[0].length;
+    const values = numeric ? (grid.flat() as number[]) : [];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+
+    return (
+        <div style={{ marginBottom: 12 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
+                <span style={{
+                    color: isPrimary ? COLORS.accent : COLORS.textDim,
+                    fontSize: 12,
+                    fontWeight: isPrimary ? 700 : 500,
+                    fontFamily: "monospace",
+                    letterSpacing: "0.5px",
+                }}>
+                    {name}
+                </span>
+                <span style={{ color: COLORS.textMuted, fontSize: 10 }}>
+                    [{grid.length}×{cols}]
+                </span>
+                {numeric && (
+                    <button
+                        onClick={() => setHeatmap(h => !h)}
+                        style={{
+                            fontSize: 9,
+                            padding: "1px 6px",
+                            borderRadius: 4,
+                            border: `1px solid ${heatmap ? COLORS.pointer : COLORS.cardBorder}`,
+                            background: heatmap ? COLORS.pointerBg : "none",
+                            color: heatmap ? COLORS.pointer : COLORS.textMuted,
+                            cursor: "pointer",
+                        }}
+                    >
+                        heatmap
+                    </button>
+                )}
+                {pointers.map(p => (
+                    <span key={p.name} style={{
+                        fontSize: 9,
+                        fontWeight: 700,
+                        color: p.color,
+                        fontFamily: "monospace",
+                        padding: "1px 4px",
+                        borderRadius: 3,
+                        background: `${p.color}20`,
+                    }}>
+                        {p.name} = ({p.row}, {p.col})
+                    </span>
+                ))}
+            </div>
+
+            <div style={{ overflowX: "auto" }}>
+                <div style={{
+                    display: "inline-grid",
+                    gridTemplateColumns: `22px repeat(${cols}, minmax(${GRID_CELL}px, auto))`,
+                    gap: 2,
+                }}>
+                    {/* Column indices */}
+                    <span />
+                    {Array.from({ length: cols }, (_, c) => (
+                        <span key={`col-${c}`} style={{
+                            fontSize: 9,
+                            textAlign: "center",
+                            fontFamily: "monospace",
+                            color: pointers.some(p => p.col === c) ? COLORS.pointer : COLORS.textMuted,
+                        }}>
+                            {c}
+                        </span>
+                    ))}
+                    {grid.map((row, r) => [
+                        <span key={`row-${r}`} style={{
+                            fontSize: 9,
+                            alignSelf: "center",
+                            textAlign: "right",
+                            paddingRight: 4,
+                            fontFamily: "monospace",
+                            color: pointers.some(p => p.row === r) ? COLORS.pointer : COLORS.textMuted,
+                        }}>
+                            {r}
+                        </span>,
+                        ...row.map((val, c) => {
+                            const changed = prevGrid?.[r] !== undefined && JSON.stringify(prevGrid[r][c]) !== JSON.stringify(val);
+                            const pointedBy = pointers.filter(p => p.row === r && p.col === c);
+                            const pointer = pointedBy[0];
+                            let background = COLORS.cellDefault;
+                            if (heatmap && typeof val === "number") background = heatColor(val, min, max);
+                            if (changed) background = COLORS.changedBg;
+                            if (pointer) background = `${pointer.color}30`;
+                            return (
+                                <div
+                                    key={`${r}-${c}`}
+                                    title={pointedBy.map(p => p.name).join(" ")}
+                                    style={{
+                                        height: GRID_CELL,
+                                        display: "flex",
+                                        alignItems: "center",
+                                        justifyContent: "center",
+                                        padding: "0 4px",
+                                        background,
+                                        border: `2px solid ${pointer ? pointer.color : changed ? COLORS.changed : COLORS.cardBorder}`,
+                                        borderRadius: 4,
+                                        transition: "all 0.2s ease",
+                                    }}
+                                >
+                                    <span style={{
+                                        color: changed ? COLORS.changed : COLORS.text,
+                                        fontSize: 11,
+                                        fontWeight: changed ? 700 : 500,
+                                        fontFamily: "monospace",
+                                        whiteSpace: "nowrap",
+                                    }}>
+                                        {formatCellValue(val)}
+                                    </span>
+                                </div>
+                            );
+                        }),
+                    ])}
+                </div>
+            </div>
+        </div>
+    );
+}
+
 // ─── Scalar Variable Badge ────────────────────────────────────
 function ScalarBadge({
     name,
@@ -288,27 +469,240 @@ function ScalarBadge({
     );
 }
 
-// ─── Helper: detect serialized linked list ────────────────────
-function isLinkedListValue2D(val: unknown): val is { __type__: "linked_list"; values: unknown[] } {
+// ─── Linked List Diagram (2D) ─────────────────────────────────
+const LL_NODE_W = 64;
+const LL_NODE_H = 30;
+const LL_COL = 104;
+const LL_PAD = 24;
+const LL_LABEL_H = 13;
+
+function LinkedListDiagram2D({ diagram }: { diagram: ListDiagram }) {
+    const pointersByNode = new Map<string, Array<{ name: string; color: string }>>();
+    diagram.pointers.forEach((p, idx) => {
+        const names = pointersByNode.get(p.id) ?? [];
+        names.push({ name: p.name, color: getPointerColor(idx) });
+        pointersByNode.set(p.id, names);
+    });
+    const maxLabels = Math.max(0, ...[...pointersByNode.values()].map(names => names.length));
+    const labelArea = maxLabels > 0 ? maxLabels * LL_LABEL_H + 14 : 0;
+    // Room below each row for cycle edges curving back
+    const rowH = labelArea + LL_NODE_H + 34;
+    const byId = new Map(diagram.nodes.map(n => [n.id, n]));
+    const left = (col: number) => LL_PAD + col * LL_COL;
+    const top = (row: number) => LL_PAD + labelArea + row * rowH;
+
+    const width = LL_PAD * 2 + diagram.cols * LL_COL + 20;
+    const height = LL_PAD + diagram.rows * rowH;
+
     return (
-        val !== null &&
-        typeof val === "object" &&
-        (val as Record<string, unknown>).__type__ === "linked_list" &&
-        Array.isArray((val as Record<string, unknown>).values)
+        <div style={{ marginBottom: 16 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+                <span style={{ color: COLORS.textMuted, fontSize: 10 }}>
+                    {diagram.nodes.length} nodes
+                    {diagram.edges.some(e => e.kind === "back") && " · cycle"}
+                    {diagram.edges.some(e => e.kind === "merge") && " · shared tail"}
+                </span>
+            </div>
+            <svg width={width} height={height} style={{ display: "block", maxWidth: "100%" }}>
+                <defs>
+                    <marker id="ll-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill="#4ade80" />
+                    </marker>
+                    <marker id="ll-arrow-back" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS.pointer} />
+                    </marker>
+                </defs>
+
+                {/* next pointers */}
+                {diagram.edges.map(edge => {
+                    const from = byId.get(edge.from)!;
+                    const to = byId.get(edge.to)!;
+                    const sx = left(from.col) + LL_NODE_W - 10;
+                    const sy = top(from.row) + LL_NODE_H / 2;
+                    let d: string;
+                    if (edge.kind === "next") {
+                        d = `M ${sx} ${sy} L ${left(to.col) - 2} ${top(to.row) + LL_NODE_H / 2}`;
+                    } else if (edge.kind === "back") {
+                        // Loop under the row, back to the node the cycle starts at
+                        const below = top(from.row) + LL_NODE_H + 26;
+                        const ex = left(to.col) + LL_NODE_W / 2;
+                        d = `M ${sx} ${sy} C ${sx + 40} ${sy}, ${sx + 30} ${below}, ${sx} ${below} L ${ex} ${below} L ${ex} ${top(to.row) + LL_NODE_H + 2}`;
+                    } else {
+                        const ex = left(to.col) + LL_NODE_W / 2;
+                        const ey = to.row < from.row ? top(to.row) + LL_NODE_H + 2 : top(to.row) - 2;
+                        d = `M ${sx} ${sy} C ${ex} ${sy}, ${ex} ${sy}, ${ex} ${ey}`;
+                    }
+                    const isBack = edge.kind === "back";
+                    return (
+                        <path
+                            key={`${edge.from}-${edge.to}`}
+                            d={d}
+                            fill="none"
+                            stroke={isBack ? COLORS.pointer : "#4ade80"}
+                            strokeWidth={1.5}
+                            strokeDasharray={edge.kind === "next" ? undefined : "5 3"}
+                            markerEnd={isBack ? "url(#ll-arrow-back)" : "url(#ll-arrow)"}
+                        />
+                    );
+                })}
+
+                {/* NULL terminators */}
+                {diagram.tails.map(id => {
+                    const node = byId.get(id)!;
+                    const x = left(node.col) + LL_NODE_W;
+                    const y = top(node.row) + LL_NODE_H / 2;
+                    return (
+                        <text key={`null-${id}`} x={x + 8} y={y + 4} fill={COLORS.danger} fontSize={10} fontWeight={700} fontFamily="monospace">
+                            NULL
+                        </text>
+                    );
+                })}
+
+                {/* Nodes: val | next */}
+                {diagram.nodes.map(node => {
+                    const x = left(node.col);
+                    const y = top(node.row);
+                    const names = pointersByNode.get(node.id) ?? [];
+                    const border = names[0]?.color ?? "#166534";
+                    return (
+                        <g key={node.id}>
+                            <rect x={x} y={y} width={LL_NODE_W} height={LL_NODE_H} rx={6} fill={names.length > 0 ? "#052e16" : COLORS.cardBg} stroke={border} strokeWidth={2} />
+                            <line x1={x + LL_NODE_W - 20} y1={y + 4} x2={x + LL_NODE_W - 20} y2={y + LL_NODE_H - 4} stroke="#16653480" />
+                            <text
+                                x={x + (LL_NODE_W - 20) / 2} y={y + LL_NODE_H / 2} textAnchor="middle" dominantBaseline="central"
+                                fill="white" fontSize={12} fontWeight={700} fontFamily="monospace"
+                            >
+                                {formatCellValue(node.value)}
+                            </text>
+                            <circle cx={x + LL_NODE_W - 10} cy={y + LL_NODE_H / 2} r={2.5} fill={diagram.tails.includes(node.id) ? COLORS.danger : "#4ade80"} />
+                            {names.map((p, idx) => {
+                                const labelY = y - 14 - (names.length - 1 - idx) * LL_LABEL_H;
+                                return (
+                                    <text key={p.name} x={x + LL_NODE_W / 2} y={labelY} textAnchor="middle" fill={p.color} fontSize={10} fontWeight={700} fontFamily="monospace">
+                                        {p.name}
+                                    </text>
+                                );
+                            })}
+                            {names.length > 0 && (
+                                <path d={`M ${x + LL_NODE_W / 2 - 4} ${y - 9} L ${x + LL_NODE_W / 2 + 4} ${y - 9} L ${x + LL_NODE_W / 2} ${y - 3} z`} fill={names[0].color} />
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+
+            {/* Pointer variables that hold no node right now */}
+            {diagram.nullPointers.length > 0 && (
+                <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginTop: 4 }}>
+                    {diagram.nullPointers.map(name => (
+                        <span key={name} style={{
+                            fontSize: 9,
+                            fontWeight: 700,
+                            fontFamily: "monospace",
+                            padding: "2px 5px",
+                            background: "#1c0a0a",
+                            borderRadius: 4,
+                            border: "1px solid #7f1d1d",
+                            color: COLORS.textDim,
+                        }}>
+                            {name} → <span style={{ color: COLORS.danger }}>NULL</span>
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
     );
 }
 
-// ─── Linked List View (2D) ────────────────────────────────────
-function LinkedListView2D({ name, values }: { name: string; values: unknown[] }) {
-    const n = values.length;
+// ─── Binary Tree View (2D) ────────────────────────────────────
+interface TweenPoint {
+    x: number;
+    y: number;
+    opacity: number;
+}
+
+/**
+ * Eases every point from where it is drawn now to its new target, so nodes
+ * slide into place after an insert, delete or rotation. Points seen for the
+ * first time fade in at their target; `origins` overrides where a point
+ * starts from (an item that changed slots).
+ */
+function useTweenedPoints(
+    targets: Map<string, TweenPoint>,
+    origins?: Map<string, TweenPoint>,
+    duration = 350
+): Map<string, TweenPoint> {
+    const [shown, setShown] = useState(targets);
+    const shownRef = useRef(targets);
+
+    useEffect(() => {
+        const from = shownRef.current;
+        const start = performance.now();
+        let frame = 0;
+        const tick = (now: number) => {
+            const t = Math.min(1, (now - start) / duration);
+            const ease = 1 - Math.pow(1 - t, 3);
+            const next = new Map<string, TweenPoint>();
+            for (const [id, to] of targets) {
+                const f = origins?.get(id) ?? from.get(id) ?? { ...to, opacity: 0 };
+                next.set(id, {
+                    x: f.x + (to.x - f.x) * ease,
+                    y: f.y + (to.y - f.y) * ease,
+                    opacity: f.opacity + (to.opacity - f.opacity) * ease,
+                });
+            }
+            shownRef.current = next;
+            setShown(next);
+            if (t < 1) frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [targets, origins, duration]);
+
+    return shown;
+}
+
+const TREE_X_GAP = 44;
+const TREE_Y_GAP = 62;
+const TREE_NODE_R = 17;
+const TREE_PAD = 30;
+
+function TreeView2D({ tree, changes }: { tree: TreeInScope; changes: TreeChanges }) {
+    const { layout, pointers } = tree;
+
+    // Removed nodes stay in the picture at their old spot, fading out
+    const targets = useMemo(() => {
+        const points = new Map<string, TweenPoint>();
+        for (const node of layout.nodes) {
+            points.set(node.id, { x: node.x * TREE_X_GAP, y: node.y * TREE_Y_GAP, opacity: 1 });
+        }
+        for (const node of changes.removed) {
+            points.set(node.id, { x: node.x * TREE_X_GAP, y: node.y * TREE_Y_GAP, opacity: 0 });
+        }
+        return points;
+    }, [layout, changes]);
+    const shown = useTweenedPoints(targets);
+    const at = (id: string): TweenPoint | undefined => {
+        const target = targets.get(id);
+        // Until the first frame runs, a new node is not drawn yet
+        return shown.get(id) ?? (target && { ...target, opacity: 0 });
+    };
+
+    const pointersByNode = new Map<string, Array<{ name: string; color: string }>>();
+    pointers.forEach((p, idx) => {
+        const names = pointersByNode.get(p.id) ?? [];
+        names.push({ name: p.name, color: getPointerColor(idx) });
+        pointersByNode.set(p.id, names);
+    });
+    const labelRows = Math.max(0, ...[...pointersByNode.values()].map(names => names.length));
+
+    const width = Math.max(1, layout.width, ...changes.removed.map(n => n.x + 1)) * TREE_X_GAP;
+    const height = Math.max(1, layout.height, ...changes.removed.map(n => n.y + 1)) * TREE_Y_GAP;
+    const top = TREE_PAD + labelRows * 14;
+
     return (
         <div style={{ marginBottom: 16 }}>
-            <div style={{
-                display: "flex",
-                alignItems: "center",
-                gap: 8,
-                marginBottom: 6,
-            }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
                 <span style={{
                     color: "#4ade80",
                     fontSize: 12,
@@ -316,124 +710,586 @@ function LinkedListView2D({ name, values }: { name: string; values: unknown[] })
                     fontFamily: "monospace",
                     letterSpacing: "0.5px",
                 }}>
-                    {name}
+                    {tree.name}
                 </span>
-                <span style={{
-                    color: COLORS.textMuted,
-                    fontSize: 10,
-                }}>
-                    linked list [{n}]
+                <span style={{ color: COLORS.textMuted, fontSize: 10 }}>
+                    binary tree [{layout.nodes.length} nodes, height {layout.height}]
                 </span>
             </div>
-            <div style={{ display: "flex", alignItems: "center", flexWrap: "wrap", gap: 0 }}>
-                {/* HEAD label */}
+            <svg
+                width={width + TREE_PAD * 2}
+                height={height + top}
+                viewBox={`${-TREE_PAD - TREE_X_GAP / 2} ${-top} ${width + TREE_PAD * 2} ${height + top}`}
+                style={{ display: "block", maxWidth: "100%" }}
+            >
+                {/* Edges, child → parent */}
+                {layout.nodes.map(node => {
+                    if (node.parent === null) return null;
+                    const from = at(node.parent);
+                    const to = at(node.id);
+                    if (!from || !to) return null;
+                    return (
+                        <line
+                            key={`edge-${node.id}`}
+                            x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                            stroke="#475569"
+                            strokeWidth={1.5}
+                            opacity={Math.min(from.opacity, to.opacity)}
+                        />
+                    );
+                })}
+
+                {/* Deleted nodes fading out */}
+                {changes.removed.map(node => {
+                    const pos = at(node.id);
+                    if (!pos || pos.opacity < 0.02) return null;
+                    return (
+                        <g key={node.id} opacity={pos.opacity}>
+                            <circle cx={pos.x} cy={pos.y} r={TREE_NODE_R} fill={COLORS.cardBg} stroke={COLORS.danger} strokeWidth={2} strokeDasharray="4 3" />
+                            <text
+                                x={pos.x} y={pos.y} textAnchor="middle" dominantBaseline="central"
+                                fill={COLORS.danger} fontSize={11} fontFamily="monospace" fontWeight={600}
+                            >
+                                {formatCellValue(node.value)}
+                            </text>
+                        </g>
+                    );
+                })}
+
+                {/* Nodes */}
+                {layout.nodes.map(node => {
+                    const pos = at(node.id);
+                    if (!pos) return null;
+                    const names = pointersByNode.get(node.id) ?? [];
+                    const isNew = changes.added.has(node.id);
+                    const isChanged = changes.changed.has(node.id);
+                    let fill: string = COLORS.cardBg;
+                    let stroke: string = COLORS.cardBorder;
+                    if (names.length > 0) { fill = COLORS.pointerBg; stroke = names[0].color; }
+                    if (isNew || isChanged) { fill = COLORS.changedBg; stroke = COLORS.changed; }
+                    return (
+                        <g key={node.id} opacity={pos.opacity}>
+                            <circle cx={pos.x} cy={pos.y} r={TREE_NODE_R} fill={fill} stroke={stroke} strokeWidth={names.length > 0 || isNew || isChanged ? 2.5 : 1.5} />
+                            <text
+                                x={pos.x} y={pos.y} textAnchor="middle" dominantBaseline="central"
+                                fill={COLORS.text} fontSize={11} fontFamily="monospace" fontWeight={600}
+                            >
+                                {formatCellValue(node.value)}
+                            </text>
+                            {names.map((p, idx) => (
+                                <text
+                                    key={p.name}
+                                    x={pos.x} y={pos.y - TREE_NODE_R - 6 - (names.length - 1 - idx) * 14}
+                                    textAnchor="middle"
+                                    fill={p.color} fontSize={10} fontFamily="monospace" fontWeight={700}
+                                >
+                                    {p.name}
+                                </text>
+                            ))}
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+}
+
+// ─── Heap / Priority Queue Tree (2D) ──────────────────────────
+const PQ_X_GAP = 40;
+const PQ_Y_GAP = 52;
+const PQ_NODE_R = 16;
+const PQ_PAD = 22;
+
+function PriorityQueueTree2D({ items, prevItems }: { items: unknown[]; prevItems?: unknown[] }) {
+    const n = items.length;
+    const height = heapHeight(n);
+    const kind = isHeapOrdered(items, "min") || !isHeapOrdered(items, "max") ? "min" : "max";
+    const moves = useMemo(() => heapMoves(prevItems, items), [prevItems, items]);
+
+    const prevHeight = heapHeight(prevItems?.length ?? 0);
+
+    // Slots are keyed by index; an item that moved in a sift starts from its old slot
+    const { targets, origins } = useMemo(() => {
+        const targets = new Map<string, TweenPoint>();
+        const origins = new Map<string, TweenPoint>();
+        for (let i = 0; i < n; i++) {
+            const { x, y } = heapSlot(i, height);
+            targets.set(String(i), { x: x * PQ_X_GAP, y: y * PQ_Y_GAP, opacity: 1 });
+            const from = moves[i];
+            if (from !== null && from !== i) {
+                const old = heapSlot(from, prevHeight);
+                origins.set(String(i), { x: old.x * PQ_X_GAP, y: old.y * PQ_Y_GAP, opacity: 1 });
+            }
+        }
+        return { targets, origins };
+    }, [n, height, prevHeight, moves]);
+    const shown = useTweenedPoints(targets, origins);
+    const slot = (index: number) => targets.get(String(index))!;
+
+    if (n === 0) return null;
+    const width = Math.max(1, 2 ** (height - 1)) * PQ_X_GAP;
+
+    return (
+        <div>
+            <div style={{ color: COLORS.textMuted, fontSize: 10, marginBottom: 4 }}>
+                {kind}-heap · top = <span style={{ color: COLORS.pointer, fontFamily: "monospace" }}>{formatCellValue(items[0])}</span>
+            </div>
+            <svg
+                width={width + PQ_PAD * 2}
+                height={(height - 1) * PQ_Y_GAP + PQ_PAD * 2}
+                viewBox={`${-PQ_PAD - PQ_X_GAP / 2} ${-PQ_PAD} ${width + PQ_PAD * 2} ${(height - 1) * PQ_Y_GAP + PQ_PAD * 2}`}
+                style={{ display: "block", maxWidth: "100%" }}
+            >
+                {/* Edges connect slots, so they stay put while items move */}
+                {items.map((_, i) => {
+                    if (i === 0) return null;
+                    const from = slot(Math.floor((i - 1) / 2));
+                    const to = slot(i);
+                    return <line key={`edge-${i}`} x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="#475569" strokeWidth={1.5} />;
+                })}
+                {items.map((val, i) => {
+                    const pos = shown.get(String(i)) ?? { ...slot(i), opacity: 0 };
+                    const from = moves[i];
+                    const isMoved = from !== null && from !== i;
+                    const isNew = from === null;
+                    let stroke: string = COLORS.cardBorder;
+                    if (i === 0) stroke = COLORS.accent;
+                    if (isNew) stroke = COLORS.changed;
+                    if (isMoved) stroke = COLORS.pointer;
+                    return (
+                        <g key={i} opacity={pos.opacity}>
+                            <circle
+                                cx={pos.x} cy={pos.y} r={PQ_NODE_R}
+                                fill={isMoved ? COLORS.pointerBg : isNew ? COLORS.changedBg : COLORS.cardBg}
+                                stroke={stroke} strokeWidth={isMoved || isNew || i === 0 ? 2.5 : 1.5}
+                            />
+                            <text
+                                x={pos.x} y={pos.y} textAnchor="middle" dominantBaseline="central"
+                                fill={COLORS.text} fontSize={formatCellValue(val).length > 4 ? 8 : 11} fontFamily="monospace" fontWeight={600}
+                            >
+                                {formatCellValue(val)}
+                            </text>
+                            <text x={pos.x + PQ_NODE_R} y={pos.y - PQ_NODE_R + 2} fill={COLORS.textMuted} fontSize={8} fontFamily="monospace">
+                                {i}
+                            </text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+}
+
+// ─── Stack / Queue (2D) ───────────────────────────────────────
+const SQ_CELL_H = 26;
+const SQ_GAP = 4;
+const SQ_MARKER_W = 40;
+const SQ_MAX_SHOWN = 14;
+
+/** Cell width that fits the longest item, within bounds */
+function sqCellWidth(items: unknown[]): number {
+    const longest = Math.max(0, ...items.map(val => formatCellValue(val).length));
+    return Math.min(140, Math.max(44, longest * 7 + 16));
+}
+
+function sqLabel(val: unknown): string {
+    const text = formatCellValue(val);
+    return text.length > 18 ? `${text.slice(0, 17)}…` : text;
+}
+
+function StackQueueHeader({
+    name,
+    role,
+    size,
+    hint,
+    removed,
+}: {
+    name: string;
+    role: DSRole;
+    size: number;
+    hint: string;
+    /** Items popped or dequeued this step */
+    removed: unknown[];
+}) {
+    const verb = role.type === "stack" ? "popped" : "dequeued";
+    return (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4, flexWrap: "wrap" }}>
+            <span style={{ color: COLORS.textDim, fontSize: 12, fontWeight: 500, fontFamily: "monospace" }}>
+                {name}
+            </span>
+            <span style={{ color: COLORS.textMuted, fontSize: 10 }}>
+                {role.type} [{size}]
+            </span>
+            <span style={{ color: COLORS.textMuted, fontSize: 9 }} title={role.type === "stack" ? "last in, first out" : "first in, first out"}>
+                {roleLabel(role)}
+            </span>
+            <span style={{ color: COLORS.textMuted, fontSize: 9, fontFamily: "monospace" }}>{hint}</span>
+            {removed.length > 0 && (
                 <span style={{
                     fontSize: 9,
                     fontWeight: 700,
-                    color: "#22c55e",
                     fontFamily: "monospace",
-                    marginRight: 6,
-                    padding: "2px 5px",
-                    background: "#052e16",
-                    borderRadius: 4,
-                    border: "1px solid #166534",
+                    color: COLORS.danger,
+                    padding: "1px 5px",
+                    borderRadius: 3,
+                    background: `${COLORS.danger}20`,
                 }}>
-                    HEAD
+                    {verb} {removed.map(sqLabel).join(", ")}
                 </span>
-                {values.map((val, idx) => (
-                    <div key={idx} style={{ display: "flex", alignItems: "center" }}>
-                        {/* Node box */}
-                        <div style={{
-                            display: "flex",
-                            alignItems: "stretch",
-                            border: `2px solid ${idx === 0 ? "#22c55e" : "#166534"}`,
-                            borderRadius: 6,
-                            overflow: "hidden",
-                            background: idx === 0 ? "#052e16" : COLORS.cardBg,
-                        }}>
-                            {/* val compartment */}
-                            <div style={{
-                                padding: "6px 10px",
-                                display: "flex",
-                                alignItems: "center",
-                                justifyContent: "center",
-                                minWidth: 36,
-                                borderRight: "1px solid #16653480",
-                            }}>
-                                <span style={{
-                                    color: "white",
-                                    fontSize: 13,
-                                    fontWeight: 700,
-                                    fontFamily: "monospace",
-                                }}>
-                                    {formatCellValue(val)}
-                                </span>
-                            </div>
-                            {/* next pointer compartment */}
-                            <div style={{
-                                padding: "6px 6px",
-                                display: "flex",
-                                alignItems: "center",
-                                justifyContent: "center",
-                                minWidth: 20,
-                            }}>
-                                <span style={{
-                                    color: idx === n - 1 ? "#ef4444" : "#4ade80",
-                                    fontSize: 11,
-                                    fontWeight: 700,
-                                }}>
-                                    {idx === n - 1 ? "∅" : "→"}
-                                </span>
-                            </div>
-                        </div>
-                        {/* Arrow connecting to next */}
-                        {idx < n - 1 && (
-                            <span style={{
-                                color: "#4ade80",
-                                fontSize: 14,
-                                fontWeight: 700,
-                                margin: "0 2px",
-                            }}>
-                                →
-                            </span>
-                        )}
-                    </div>
-                ))}
-                {/* NULL label */}
-                <span style={{
-                    fontSize: 9,
-                    fontWeight: 700,
-                    color: "#ef4444",
-                    fontFamily: "monospace",
-                    marginLeft: 6,
-                    padding: "2px 5px",
-                    background: "#1c0a0a",
-                    borderRadius: 4,
-                    border: "1px solid #7f1d1d",
-                }}>
-                    NULL
+            )}
+        </div>
+    );
+}
+
+/**
+ * A stack drawn bottom-up with the top marked. Pushed items drop in from
+ * above; popped ones rise out of the top and fade.
+ */
+function Stack2D({ name, items, prevItems, role }: { name: string; items: unknown[]; prevItems?: unknown[]; role: DSRole }) {
+    const n = items.length;
+    const diff = useMemo(() => stackDiff(prevItems, items), [prevItems, items]);
+    const cellW = sqCellWidth([...items, ...diff.popped]);
+    const rowH = SQ_CELL_H + SQ_GAP;
+    // Popped items leave from their old slots, which may lie above the new top
+    const common = n - diff.pushed;
+    const rows = Math.max(n, common + diff.popped.length);
+    const first = Math.max(0, rows - SQ_MAX_SHOWN);
+
+    // Slots are keyed by index, bottom = 0; one spare row on top to enter and leave through
+    const { targets, origins } = useMemo(() => {
+        const targets = new Map<string, TweenPoint>();
+        const origins = new Map<string, TweenPoint>();
+        const y = (i: number) => (rows - i) * rowH;
+        for (let i = first; i < n; i++) {
+            targets.set(String(i), { x: 0, y: y(i), opacity: 1 });
+            if (i >= n - diff.pushed) origins.set(String(i), { x: 0, y: y(i) - rowH, opacity: 0 });
+        }
+        diff.popped.forEach((_, j) => {
+            const i = common + j;
+            if (i < first) return;
+            targets.set(`popped-${i}`, { x: 0, y: y(i) - rowH, opacity: 0 });
+            origins.set(`popped-${i}`, { x: 0, y: y(i), opacity: 1 });
+        });
+        return { targets, origins };
+    }, [n, common, rows, first, rowH, diff]);
+    const shown = useTweenedPoints(targets, origins);
+    const height = (rows - first + 1) * rowH + 4;
+    const x0 = SQ_MARKER_W;
+
+    const cell = (id: string, val: unknown, index: number, kind: "item" | "pushed" | "top" | "popped") => {
+        const pos = shown.get(id) ?? targets.get(id)!;
+        const stroke = kind === "pushed" ? COLORS.changed : kind === "top" ? COLORS.accent : kind === "popped" ? COLORS.danger : COLORS.cardBorder;
+        return (
+            <g key={id} opacity={pos.opacity}>
+                <rect
+                    x={x0} y={pos.y} width={cellW} height={SQ_CELL_H} rx={5}
+                    fill={kind === "pushed" ? COLORS.changedBg : COLORS.cellDefault}
+                    stroke={stroke} strokeWidth={kind === "item" ? 1.5 : 2}
+                    strokeDasharray={kind === "popped" ? "4 3" : undefined}
+                />
+                <text
+                    x={x0 + cellW / 2} y={pos.y + SQ_CELL_H / 2} textAnchor="middle" dominantBaseline="central"
+                    fill={kind === "popped" ? COLORS.textDim : COLORS.text} fontSize={11} fontFamily="monospace" fontWeight={600}
+                >
+                    {sqLabel(val)}
+                </text>
+                <text x={x0 + cellW + 6} y={pos.y + SQ_CELL_H / 2} dominantBaseline="central" fill={COLORS.textMuted} fontSize={9} fontFamily="monospace">
+                    {index}
+                </text>
+            </g>
+        );
+    };
+    const top = n > 0 ? shown.get(String(n - 1)) ?? targets.get(String(n - 1)) : undefined;
+
+    return (
+        <div style={{ marginBottom: 12 }}>
+            <StackQueueHeader name={name} role={role} size={n} hint="push ↓ · pop ↑" removed={diff.popped} />
+            <svg width={x0 + cellW + 28} height={height} style={{ display: "block" }}>
+                {items.map((val, i) => {
+                    if (i < first) return null;
+                    const kind = i >= common ? "pushed" : i === n - 1 ? "top" : "item";
+                    return cell(String(i), val, i, kind);
+                })}
+                {diff.popped.map((val, j) => (common + j < first ? null : cell(`popped-${common + j}`, val, common + j, "popped")))}
+                {top && (
+                    <text
+                        x={x0 - 6} y={top.y + SQ_CELL_H / 2} textAnchor="end" dominantBaseline="central"
+                        fill={COLORS.pointer} fontSize={10} fontWeight={700} fontFamily="monospace"
+                    >
+                        top ▸
+                    </text>
+                )}
+                {n === 0 && (
+                    <text x={x0 + cellW / 2} y={height - 12} textAnchor="middle" fill={COLORS.textMuted} fontSize={10} fontStyle="italic">
+                        empty
+                    </text>
+                )}
+                {/* Bottom of the stack */}
+                <line x1={x0 - 4} y1={height - 2} x2={x0 + cellW + 4} y2={height - 2} stroke={COLORS.textMuted} strokeWidth={2} />
+            </svg>
+            {first > 0 && (
+                <div style={{ color: COLORS.textMuted, fontSize: 9, fontFamily: "monospace", marginLeft: x0 }}>
+                    + {first} more below
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * A queue drawn front (left) to back (right). Dequeued items slide out of
+ * the front and fade, the rest move up, and enqueued items slide in at the back.
+ */
+function Queue2D({ name, items, prevItems, role }: { name: string; items: unknown[]; prevItems?: unknown[]; role: DSRole }) {
+    const n = items.length;
+    const diff = useMemo(() => queueDiff(prevItems, items), [prevItems, items]);
+    const shownCount = Math.min(n, SQ_MAX_SHOWN);
+    const cellW = sqCellWidth([...items.slice(0, shownCount), ...diff.dequeued]);
+    const colW = cellW + SQ_GAP;
+    // Half a cell of room on each side to enter and leave through
+    const slide = cellW / 2;
+    const markerH = 14;
+
+    const { targets, origins } = useMemo(() => {
+        const targets = new Map<string, TweenPoint>();
+        const origins = new Map<string, TweenPoint>();
+        const x = (i: number) => slide + i * colW;
+        const kept = n - diff.enqueued;
+        for (let i = 0; i < shownCount; i++) {
+            targets.set(String(i), { x: x(i), y: markerH, opacity: 1 });
+            // Items already waiting move up by the number dequeued
+            if (i < kept) origins.set(String(i), { x: x(i + diff.dequeued.length), y: markerH, opacity: 1 });
+            else origins.set(String(i), { x: x(i) + slide, y: markerH, opacity: 0 });
+        }
+        diff.dequeued.forEach((_, j) => {
+            targets.set(`dequeued-${j}`, { x: 0, y: markerH, opacity: 0 });
+            origins.set(`dequeued-${j}`, { x: x(j), y: markerH, opacity: 1 });
+        });
+        return { targets, origins };
+    }, [n, shownCount, colW, slide, diff]);
+    const shown = useTweenedPoints(targets, origins);
+    const width = slide * 2 + Math.max(1, shownCount) * colW;
+
+    const cell = (id: string, val: unknown, index: number | null, kind: "item" | "enqueued" | "front" | "dequeued") => {
+        const pos = shown.get(id) ?? targets.get(id)!;
+        const stroke = kind === "enqueued" ? COLORS.changed : kind === "front" ? COLORS.accent : kind === "dequeued" ? COLORS.danger : COLORS.cardBorder;
+        return (
+            <g key={id} opacity={pos.opacity}>
+                <rect
+                    x={pos.x} y={pos.y} width={cellW} height={SQ_CELL_H} rx={5}
+                    fill={kind === "enqueued" ? COLORS.changedBg : COLORS.cellDefault}
+                    stroke={stroke} strokeWidth={kind === "item" ? 1.5 : 2}
+                    strokeDasharray={kind === "dequeued" ? "4 3" : undefined}
+                />
+                <text
+                    x={pos.x + cellW / 2} y={pos.y + SQ_CELL_H / 2} textAnchor="middle" dominantBaseline="central"
+                    fill={kind === "dequeued" ? COLORS.textDim : COLORS.text} fontSize={11} fontFamily="monospace" fontWeight={600}
+                >
+                    {sqLabel(val)}
+                </text>
+                {index !== null && (
+                    <text x={pos.x + cellW / 2} y={pos.y + SQ_CELL_H + 10} textAnchor="middle" fill={COLORS.textMuted} fontSize={9} fontFamily="monospace">
+                        {index}
+                    </text>
+                )}
+            </g>
+        );
+    };
+    const marker = (index: number, label: string) => {
+        const pos = shown.get(String(index)) ?? targets.get(String(index))!;
+        return (
+            <text
+                key={label} x={pos.x + cellW / 2} y={markerH - 4} textAnchor="middle"
+                fill={COLORS.pointer} fontSize={9} fontWeight={700} fontFamily="monospace"
+            >
+                {label}
+            </text>
+        );
+    };
+
+    return (
+        <div style={{ marginBottom: 12 }}>
+            <StackQueueHeader name={name} role={role} size={n} hint="dequeue ← front · back ← enqueue" removed={diff.dequeued} />
+            <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                <svg width={width} height={markerH + SQ_CELL_H + 14} style={{ display: "block", flexShrink: 0 }}>
+                    {diff.dequeued.map((val, j) => cell(`dequeued-${j}`, val, null, "dequeued"))}
+                    {items.slice(0, shownCount).map((val, i) => {
+                        const kind = i >= n - diff.enqueued ? "enqueued" : i === 0 ? "front" : "item";
+                        return cell(String(i), val, i, kind);
+                    })}
+                    {n === 1 && marker(0, "front · back")}
+                    {n > 1 && marker(0, "front")}
+                    {n > 1 && n <= SQ_MAX_SHOWN && marker(n - 1, "back")}
+                    {n === 0 && (
+                        <text x={width / 2} y={markerH + SQ_CELL_H / 2} textAnchor="middle" dominantBaseline="central" fill={COLORS.textMuted} fontSize={10} fontStyle="italic">
+                            empty
+                        </text>
+                    )}
+                </svg>
+                {n > SQ_MAX_SHOWN && (
+                    <span style={{ color: COLORS.textMuted, fontSize: 9, fontFamily: "monospace" }}>
+                        … + {n - SQ_MAX_SHOWN} more, back = <span style={{ color: COLORS.pointer }}>{sqLabel(items[n - 1])}</span>
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// ─── DP Table (2D) ────────────────────────────────────────────
+const DP_CELL_W = 40;
+const DP_CELL_H = 28;
+const DP_LABEL_W = 34;
+const DP_LABEL_H = 20;
+
+function formatDPValue(val: unknown): string {
+    if (typeof val === "string" && /^-?inf$/i.test(val)) return val.startsWith("-") ? "-∞" : "∞";
+    return formatCellValue(val);
+}
+
+function DPTable2D({ name, step, prevStep }: { name: string; step: TraceStep; prevStep: TraceStep | null }) {
+    const value = step.stack[name] as unknown[];
+    const dims = tableDims(value);
+    const rows = dims === 2 ? (value as unknown[][]) : [value];
+    const cols = Math.max(...rows.map(r => r.length));
+    const { written, reads } = dpStepAccesses(name, step, prevStep);
+    // 1D tables are a single row, so their one index is the column
+    const toCell = (path: number[]) => (dims === 2 ? { r: path[0], c: path[1] } : { r: 0, c: path[0] });
+    const writtenCell = written ? toCell(written) : null;
+    const readCells = reads.map(toCell);
+
+    // Tables over strings (LCS, edit distance) get the characters as headers
+    const rowSeq = dims === 2 ? sequenceLabels(step, rows.length) : null;
+    const colSeq = sequenceLabels(step, cols, rowSeq ? [rowSeq.name] : []);
+    const top = DP_LABEL_H * (colSeq ? 2 : 1);
+    const left = dims === 2 ? DP_LABEL_W * (rowSeq ? 2 : 1) : 4;
+    const width = left + cols * DP_CELL_W + 8;
+    const height = top + rows.length * DP_CELL_H + 8;
+    const center = (cell: { r: number; c: number }) => ({
+        x: left + cell.c * DP_CELL_W + DP_CELL_W / 2,
+        y: top + cell.r * DP_CELL_H + DP_CELL_H / 2,
+    });
+    const label = (cell: { r: number; c: number }) => (dims === 2 ? `${name}[${cell.r}][${cell.c}]` : `${name}[${cell.c}]`);
+
+    return (
+        <div style={{ marginBottom: 12 }}>
+            <span style={{ color: COLORS.highlight, fontSize: 12, fontWeight: 600, fontFamily: "monospace" }}>
+                {name}{" "}
+                <span style={{ color: COLORS.textMuted, fontWeight: 400 }}>
+                    ({dims === 2 ? `${rows.length}×${cols}` : cols} DP table)
                 </span>
+            </span>
+            {writtenCell && (
+                <span style={{ marginLeft: 8, fontSize: 10, fontFamily: "monospace" }}>
+                    <span style={{ color: COLORS.changed }}>{label(writtenCell)}</span>
+                    {readCells.length > 0 && (
+                        <span style={{ color: COLORS.accent }}> ← {readCells.map(label).join(", ")}</span>
+                    )}
+                </span>
+            )}
+            <div style={{ overflowX: "auto", marginTop: 6 }}>
+                <svg width={width} height={height} style={{ display: "block" }}>
+                    <defs>
+                        <marker id={`dp-arrow-${name}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS.accent} />
+                        </marker>
+                    </defs>
+                    {/* Column headers */}
+                    {Array.from({ length: cols }, (_, c) => (
+                        <g key={`col-${c}`}>
+                            <text
+                                x={left + c * DP_CELL_W + DP_CELL_W / 2} y={DP_LABEL_H - 6} textAnchor="middle"
+                                fill={writtenCell?.c === c ? COLORS.changed : COLORS.textMuted} fontSize={10} fontFamily="monospace"
+                            >
+                                {c}
+                            </text>
+                            {colSeq && (
+                                <text
+                                    x={left + c * DP_CELL_W + DP_CELL_W / 2} y={DP_LABEL_H * 2 - 6} textAnchor="middle"
+                                    fill={COLORS.pointer} fontSize={11} fontFamily="monospace" fontWeight={700}
+                                >
+                                    {colSeq.labels[c]}
+                                </text>
+                            )}
+                        </g>
+                    ))}
+                    {/* Row headers */}
+                    {dims === 2 && rows.map((_, r) => (
+                        <g key={`row-${r}`}>
+                            <text
+                                x={DP_LABEL_W - 8} y={top + r * DP_CELL_H + DP_CELL_H / 2} textAnchor="end" dominantBaseline="central"
+                                fill={writtenCell?.r === r ? COLORS.changed : COLORS.textMuted} fontSize={10} fontFamily="monospace"
+                            >
+                                {r}
+                            </text>
+                            {rowSeq && (
+                                <text
+                                    x={DP_LABEL_W * 2 - 8} y={top + r * DP_CELL_H + DP_CELL_H / 2} textAnchor="end" dominantBaseline="central"
+                                    fill={COLORS.pointer} fontSize={11} fontFamily="monospace" fontWeight={700}
+                                >
+                                    {rowSeq.labels[r]}
+                                </text>
+                            )}
+                        </g>
+                    ))}
+                    {/* Cells */}
+                    {rows.map((row, r) => row.map((cell, c) => {
+                        const isWritten = writtenCell?.r === r && writtenCell.c === c;
+                        const isRead = readCells.some(rc => rc.r === r && rc.c === c);
+                        let fill = COLORS.cellDefault;
+                        let stroke = COLORS.cardBorder;
+                        if (isRead) { fill = COLORS.readBg; stroke = COLORS.accent; }
+                        if (isWritten) { fill = COLORS.changedBg; stroke = COLORS.changed; }
+                        return (
+                            <g key={`${r}-${c}`}>
+                                <rect
+                                    x={left + c * DP_CELL_W + 1} y={top + r * DP_CELL_H + 1}
+                                    width={DP_CELL_W - 2} height={DP_CELL_H - 2} rx={4}
+                                    fill={fill} stroke={stroke} strokeWidth={isWritten || isRead ? 1.8 : 1}
+                                />
+                                <text
+                                    x={left + c * DP_CELL_W + DP_CELL_W / 2} y={top + r * DP_CELL_H + DP_CELL_H / 2}
+                                    textAnchor="middle" dominantBaseline="central"
+                                    fill={isWritten ? COLORS.changed : COLORS.text} fontSize={11} fontFamily="monospace"
+                                    fontWeight={isWritten ? 700 : 400}
+                                >
+                                    {formatDPValue(cell)}
+                                </text>
+                            </g>
+                        );
+                    }))}
+                    {/* Dependencies: read cell → written cell */}
+                    {writtenCell && readCells.map(rc => {
+                        const from = center(rc);
+                        const to = center(writtenCell);
+                        const dx = to.x - from.x, dy = to.y - from.y;
+                        const dist = Math.sqrt(dx * dx + dy * dy);
+                        if (dist < 1) return null;
+                        // Stop at the target cell's edge rather than its center
+                        const trim = Math.min(12, dist / 3);
+                        const ex = to.x - (dx / dist) * trim, ey = to.y - (dy / dist) * trim;
+                        const sx = from.x + (dx / dist) * 6, sy = from.y + (dy / dist) * 6;
+                        // Bow far-apart arrows so they don't run through the cells in between
+                        const bend = Math.min(dist * 0.15, 18);
+                        const cx = (sx + ex) / 2 - (dy / dist) * bend, cy = (sy + ey) / 2 + (dx / dist) * bend;
+                        return (
+                            <path
+                                key={`dep-${rc.r}-${rc.c}`}
+                                d={`M ${sx} ${sy} Q ${cx} ${cy} ${ex} ${ey}`}
+                                fill="none" stroke={COLORS.accent} strokeWidth={1.8}
+                                markerEnd={`url(#dp-arrow-${name})`}
+                            />
+                        );
+                    })}
+                </svg>
             </div>
         </div>
     );
 }
 
 // ─── Dictionary / Object View ─────────────────────────────────
-function DictView({ name, data, visited, queue, current }: { name: string; data: Record<string, unknown>; visited?: unknown[]; queue?: unknown[]; current?: unknown }) {
+function DictView({ name, data }: { name: string; data: Record<string, unknown> }) {
     const entries = Object.entries(data);
-    const isGraph = entries.every(([, v]) => Array.isArray(v));
-
-    if (isGraph) {
-        return (
-            <GraphView2D
-                name={name}
-                adj={data as Record<string, number[]>}
-                visited={visited}
-                queue={queue}
-                current={current}
-            />
-        );
-    }
 
     // Generic dict
     return (
@@ -472,20 +1328,29 @@ function DictView({ name, data, visited, queue, current }: { name: string; data:
 }
 
 // ─── SVG Graph Visualization (2D) ────────────────────────────
+// One color per annotation table (dist, indegree, ...), in the order found
+const BADGE_COLORS = ["#38bdf8", "#f472b6", "#facc15", "#a3e635"];
+
 function GraphView2D({
     name,
-    adj,
+    graph,
     visited,
     queue,
     current,
+    active,
+    annotations,
 }: {
     name: string;
-    adj: Record<string, number[]>;
+    graph: GraphModel;
     visited?: unknown[];
     queue?: unknown[];
     current?: unknown;
+    active?: ActiveEdge | null;
+    annotations?: GraphAnnotations;
 }) {
-    const nodeIds = Object.keys(adj);
+    const badges = annotations?.badges ?? [];
+    const parents = annotations?.parents ?? null;
+    const nodeIds = graph.nodes;
     const n = nodeIds.length;
     const visitedSet = new Set((visited || []).map(String));
     const queueSet = new Set((queue || []).map(String));
@@ -505,19 +1370,6 @@ function GraphView2D({
             };
         });
 
-        // Build edges
-        const edgeSet = new Set<string>();
-        const edgeList: [string, string][] = [];
-        for (const [node, neighbors] of Object.entries(adj)) {
-            for (const neighbor of neighbors) {
-                const key = [node, String(neighbor)].sort().join("-");
-                if (!edgeSet.has(key)) {
-                    edgeSet.add(key);
-                    edgeList.push([node, String(neighbor)]);
-                }
-            }
-        }
-
         // Force simulation
         const REPULSION = 3000;
         const SPRING_K = 0.05;
@@ -545,7 +1397,7 @@ function GraphView2D({
             }
 
             // Spring attraction
-            for (const [a, b] of edgeList) {
+            for (const { from: a, to: b } of graph.edges) {
                 const dx = positions[b].x - positions[a].x;
                 const dy = positions[b].y - positions[a].y;
                 const dist = Math.sqrt(dx * dx + dy * dy) + 0.1;
@@ -573,9 +1425,10 @@ function GraphView2D({
         const result = new Map<string, { x: number; y: number }>();
         for (const id of nodeIds) result.set(id, positions[id]);
         return result;
-    }, [nodeIds, adj, n]);
+    }, [nodeIds, graph, n]);
 
     // Compute bounding box
+    const badgeCount = badges.length;
     const bounds = useMemo(() => {
         let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
         layout.forEach(pos => {
@@ -583,27 +1436,13 @@ function GraphView2D({
             minY = Math.min(minY, pos.y); maxY = Math.max(maxY, pos.y);
         });
         const padding = 30;
+        // Badges stack under each node
+        const below = badgeCount * 13;
         return {
             x: minX - padding, y: minY - padding,
-            w: maxX - minX + padding * 2, h: maxY - minY + padding * 2,
+            w: maxX - minX + padding * 2, h: maxY - minY + padding * 2 + below,
         };
-    }, [layout]);
-
-    // Edges with deduplication
-    const edges = useMemo(() => {
-        const e: { from: string; to: string }[] = [];
-        const seen = new Set<string>();
-        for (const [node, neighbors] of Object.entries(adj)) {
-            for (const neighbor of neighbors) {
-                const key = [node, String(neighbor)].sort().join("-");
-                if (!seen.has(key)) {
-                    seen.add(key);
-                    e.push({ from: node, to: String(neighbor) });
-                }
-            }
-        }
-        return e;
-    }, [adj]);
+    }, [layout, badgeCount]);
 
     // Graph center for edge curving
     const graphCenter = useMemo(() => {
@@ -615,15 +1454,18 @@ function GraphView2D({
 
     const NODE_R = 18;
 
-    const getEdgePath = (fromPos: { x: number; y: number }, toPos: { x: number; y: number }): string => {
+    // Both directions of a directed pair are drawn, bent to opposite sides
+    const hasTwin = (from: string, to: string) => graph.directed && graph.edges.some(e => e.from === to && e.to === from);
+
+    const getEdgeGeometry = (from: string, to: string, fromPos: { x: number; y: number }, toPos: { x: number; y: number }) => {
         const dx = toPos.x - fromPos.x;
         const dy = toPos.y - fromPos.y;
         const dist = Math.sqrt(dx * dx + dy * dy);
-        if (dist < 1) return "";
+        if (dist < 1) return null;
 
         const ux = dx / dist, uy = dy / dist;
         const sx = fromPos.x + ux * NODE_R, sy = fromPos.y + uy * NODE_R;
-        const ex = toPos.x - ux * NODE_R, ey = toPos.y - uy * NODE_R;
+        const ex = toPos.x - ux * (NODE_R + (graph.directed ? 2 : 0)), ey = toPos.y - uy * (NODE_R + (graph.directed ? 2 : 0));
 
         // Perpendicular away from center
         const midX = (fromPos.x + toPos.x) / 2;
@@ -631,14 +1473,23 @@ function GraphView2D({
         const perpX = -uy, perpY = ux;
         const cdx = midX - graphCenter.x, cdy = midY - graphCenter.y;
         const dot = cdx * perpX + cdy * perpY;
-        const sign = dot >= 0 ? 1 : -1;
-        const curvature = Math.min(dist * 0.12, 25);
+        const sign = hasTwin(from, to) ? (from < to ? 1 : -1) : dot >= 0 ? 1 : -1;
+        const curvature = hasTwin(from, to) ? Math.max(dist * 0.15, 14) : Math.min(dist * 0.12, 25);
         const ctrlX = midX + perpX * curvature * sign;
         const ctrlY = midY + perpY * curvature * sign;
 
-        return `M ${sx} ${sy} Q ${ctrlX} ${ctrlY} ${ex} ${ey}`;
+        return {
+            d: `M ${sx} ${sy} Q ${ctrlX} ${ctrlY} ${ex} ${ey}`,
+            // Point on the curve halfway along, for the weight label
+            labelX: 0.25 * sx + 0.5 * ctrlX + 0.25 * ex,
+            labelY: 0.25 * sy + 0.5 * ctrlY + 0.25 * ey,
+        };
     };
 
+    const isActive = (from: string, to: string) => !!active && (
+        (active.from === from && active.to === to) || (!graph.directed && active.from === to && active.to === from)
+    );
+
     if (n === 0) return null;
 
     return (
@@ -649,8 +1500,23 @@ function GraphView2D({
                 fontWeight: 600,
                 fontFamily: "monospace",
             }}>
-                {name} <span style={{ color: COLORS.textMuted, fontWeight: 400 }}>(graph)</span>
+                {name} <span style={{ color: COLORS.textMuted, fontWeight: 400 }}>
+                    ({graph.weighted ? "weighted " : ""}{graph.directed ? "directed " : ""}graph)
+                </span>
             </span>
+            {active && (
+                <span style={{ marginLeft: 8, fontSize: 10, color: COLORS.pointer, fontFamily: "monospace" }}>
+                    {active.relaxed ? "relaxed" : "checking"} {active.from} → {active.to}
+                </span>
+            )}
+            {(badges.length > 0 || parents) && (
+                <div style={{ display: "flex", gap: 10, marginTop: 4, fontSize: 10, fontFamily: "monospace" }}>
+                    {badges.map((badge, i) => (
+                        <span key={badge.name} style={{ color: BADGE_COLORS[i % BADGE_COLORS.length] }}>● {badge.name}</span>
+                    ))}
+                    {parents && <span style={{ color: COLORS.highlight }}>━ {parents.name} tree</span>}
+                </div>
+            )}
             <svg
                 viewBox={`${bounds.x} ${bounds.y} ${bounds.w} ${bounds.h}`}
                 style={{
@@ -662,21 +1528,62 @@ function GraphView2D({
                     display: "block",
                 }}
             >
+                <defs>
+                    {[["graph-arrow", "#475569"], ["graph-arrow-traversed", COLORS.changed], ["graph-arrow-active", COLORS.pointer]].map(([id, color]) => (
+                        <marker key={id} id={id} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                        </marker>
+                    ))}
+                </defs>
+                {/* Parent pointers, drawn under the edges as the search tree */}
+                {parents?.links.map(({ from, to }) => {
+                    const fromPos = layout.get(from);
+                    const toPos = layout.get(to);
+                    if (!fromPos || !toPos) return null;
+                    return (
+                        <line
+                            key={`parent-${from}-${to}`}
+                            x1={fromPos.x} y1={fromPos.y} x2={toPos.x} y2={toPos.y}
+                            stroke={COLORS.highlight} strokeWidth={8} strokeLinecap="round" opacity={0.35}
+                        />
+                    );
+                })}
                 {/* Edges */}
-                {edges.map(({ from, to }) => {
+                {graph.edges.map(({ from, to, weight }) => {
                     const fromPos = layout.get(from);
                     const toPos = layout.get(to);
                     if (!fromPos || !toPos) return null;
+                    const geometry = getEdgeGeometry(from, to, fromPos, toPos);
+                    if (!geometry) return null;
                     const isTraversed = visitedSet.has(from) && visitedSet.has(to);
+                    const highlighted = isActive(from, to);
+                    let stroke = "#475569";
+                    if (isTraversed) stroke = COLORS.changed;
+                    if (highlighted) stroke = COLORS.pointer;
+                    const marker = highlighted ? "graph-arrow-active" : isTraversed ? "graph-arrow-traversed" : "graph-arrow";
                     return (
-                        <path
-                            key={`${from}-${to}`}
-                            d={getEdgePath(fromPos, toPos)}
-                            fill="none"
-                            stroke={isTraversed ? COLORS.changed : "#475569"}
-                            strokeWidth={isTraversed ? 2.5 : 1.5}
-                            opacity={isTraversed ? 1 : 0.45}
-                        />
+                        <g key={`${from}-${to}`}>
+                            <path
+                                d={geometry.d}
+                                fill="none"
+                                stroke={stroke}
+                                strokeWidth={highlighted ? 3 : isTraversed ? 2.5 : 1.5}
+                                strokeDasharray={highlighted && !active?.relaxed ? "5 3" : undefined}
+                                opacity={highlighted || isTraversed ? 1 : 0.45}
+                                markerEnd={graph.directed ? `url(#${marker})` : undefined}
+                            />
+                            {graph.weighted && weight !== null && (
+                                <text
+                                    x={geometry.labelX} y={geometry.labelY}
+                                    textAnchor="middle" dominantBaseline="central"
+                                    fill={highlighted ? COLORS.pointer : COLORS.textDim}
+                                    fontSize={10} fontFamily="monospace" fontWeight={700}
+                                    stroke={COLORS.bg} strokeWidth={3} paintOrder="stroke"
+                                >
+                                    {formatCellValue(weight)}
+                                </text>
+                            )}
+                        </g>
                     );
                 })}
                 {/* Nodes */}
@@ -697,6 +1604,28 @@ function GraphView2D({
                             >
                                 {id}
                             </text>
+                            {badges.map((badge, i) => {
+                                if (!(id in badge.values)) return null;
+                                const color = BADGE_COLORS[i % BADGE_COLORS.length];
+                                const text = formatAnnotation(badge.values[id]);
+                                const changed = badge.changed.has(id);
+                                const w = Math.max(18, text.length * 6 + 8);
+                                const y = pos.y + NODE_R + 4 + i * 13;
+                                return (
+                                    <g key={badge.name}>
+                                        <rect
+                                            x={pos.x - w / 2} y={y} width={w} height={11} rx={5.5}
+                                            fill={changed ? color : COLORS.bg} stroke={color} strokeWidth={1}
+                                        />
+                                        <text
+                                            x={pos.x} y={y + 5.5} textAnchor="middle" dominantBaseline="central"
+                                            fill={changed ? COLORS.bg : color} fontSize={9} fontFamily="monospace" fontWeight={700}
+                                        >
+                                            {text}
+                                        </text>
+                                    </g>
+                                );
+                            })}
                         </g>
                     );
                 })}
@@ -705,6 +1634,434 @@ function GraphView2D({
     );
 }
 
+// ─── Step Event Badge (call / return / exception) ─────────────
+function EventBadge({ step }: { step: TraceStep }) {
+    const frame = step.frames[step.frames.length - 1];
+    const isModule = !frame || frame.name === "<module>";
+
+    let text: string;
+    let color: string;
+    let bg: string;
+    if (step.event === "call" && frame) {
+        text = `→ call ${frame.name}(${formatFrameArgs(frame)})`;
+        color = COLORS.accent;
+        bg = "#172554";
+    } else if (step.event === "return") {
+        text = isModule ? "■ program finished" : `↩ ${frame.name} returned ${formatCellValue(step.returnValue)}`;
+        color = COLORS.changed;
+        bg = COLORS.changedBg;
+    } else if (step.event === "exception" && step.exception) {
+        text = `⚠ ${step.exception.type}: ${step.exception.message}`;
+        color = COLORS.danger;
+        bg = "#450a0a";
+    } else {
+        return null;
+    }
+
+    return (
+        <span style={{
+            fontSize: 11,
+            fontFamily: "monospace",
+            fontWeight: 600,
+            color,
+            background: bg,
+            border: `1px solid ${color}`,
+            borderRadius: 4,
+            padding: "1px 8px",
+            maxWidth: 420,
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+        }}>
+            {text}
+        </span>
+    );
+}
+
+// ─── Call Stack View (2D) ─────────────────────────────────────
+function formatFrameArgs(frame: Frame): string {
+    return Object.entries(frame.locals)
+        .filter(([, v]) => v === null || typeof v !== "object")
+        .slice(0, 4)
+        .map(([k, v]) => `${k}=${formatCellValue(v)}`)
+        .join(", ");
+}
+
+function CallStackView2D({ frames }: { frames: Frame[] }) {
+    const [collapsed, setCollapsed] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const innermost = frames[frames.length - 1];
+    // Fall back to the innermost frame once the expanded call has returned
+    const openId = frames.some(f => f.id === expandedId) ? expandedId : innermost.id;
+
+    return (
+        <div>
+            <button
+                onClick={() => setCollapsed(c => !c)}
+                style={{
+                    fontSize: 10,
+                    color: COLORS.textMuted,
+                    textTransform: "uppercase",
+                    letterSpacing: "1px",
+                    marginBottom: 6,
+                    fontWeight: 600,
+                    background: "none",
+                    border: "none",
+                    padding: 0,
+                    cursor: "pointer",
+                }}
+            >
+                {collapsed ? "▸" : "▾"} Call Stack ({frames.length})
+            </button>
+            {!collapsed && (
+                <div style={{ display: "flex", flexDirection: "column", gap: 3 }}>
+                    {[...frames].reverse().map((frame, depth) => {
+                        const isInnermost = frame.id === innermost.id;
+                        const isOpen = frame.id === openId;
+                        return (
+                            <div
+                                key={frame.id}
+                                onClick={() => setExpandedId(frame.id)}
+                                style={{
+                                    marginLeft: (frames.length - 1 - depth) * 10,
+                                    padding: "4px 10px",
+                                    borderRadius: 6,
+                                    background: isInnermost ? COLORS.highlightBg : COLORS.cardBg,
+                                    border: `1px solid ${isInnermost ? COLORS.highlight : COLORS.cardBorder}`,
+                                    fontFamily: "monospace",
+                                    fontSize: 11,
+                                    cursor: "pointer",
+                                    transition: "all 0.2s ease",
+                                }}
+                            >
+                                <div style={{ display: "flex", gap: 8, alignItems: "baseline" }}>
+                                    <span style={{ color: isInnermost ? COLORS.text : COLORS.textDim, fontWeight: 700 }}>
+                                        {frame.name === "<module>" ? "global" : `${frame.name}(${formatFrameArgs(frame)})`}
+                                    </span>
+                                    <span style={{ color: COLORS.textMuted, fontSize: 9 }}>line {frame.line}</span>
+                                </div>
+                                {isOpen && Object.keys(frame.locals).length > 0 && (
+                                    <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginTop: 4 }}>
+                                        {Object.entries(frame.locals).map(([k, v]) => (
+                                            <span key={k} style={{ color: COLORS.textDim, fontSize: 10 }}>
+                                                <span style={{ color: COLORS.accent }}>{k}</span>
+                                                <span style={{ color: COLORS.textMuted }}> = </span>
+                                                {formatCellValue(v)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ─── Recursion Tree (2D) ──────────────────────────────────────
+const CALL_X_GAP = 84;
+const CALL_Y_GAP = 58;
+const CALL_W = 76;
+const CALL_H = 22;
+const CALL_PAD = 12;
+
+function RecursionTree2D({ tree, step, stepIndex }: { tree: CallTree; step: TraceStep; stepIndex: number }) {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const current = activeCall(tree, step);
+    const running = new Set(step.frames.map(f => f.id));
+    // Calls appear as they are made; the layout is fixed for the whole run
+    const visible = tree.nodes.filter(n => n.callStep <= stepIndex);
+    const center = (node: CallNode) => ({
+        x: CALL_PAD + node.x * CALL_X_GAP + CALL_W / 2,
+        y: CALL_PAD + node.depth * CALL_Y_GAP,
+    });
+    const width = CALL_PAD * 2 + (tree.width - 1) * CALL_X_GAP + CALL_W;
+    const height = CALL_PAD * 2 + (tree.height - 1) * CALL_Y_GAP + CALL_H + 14;
+    const currentX = current ? center(current).x : null;
+
+    // Keep the running call in view on wide trees
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (el && currentX !== null) el.scrollLeft = currentX - el.clientWidth / 2;
+    }, [currentX]);
+
+    return (
+        <div>
+            <div style={{
+                fontSize: 10,
+                color: COLORS.textMuted,
+                textTransform: "uppercase",
+                letterSpacing: "1px",
+                marginBottom: 6,
+                fontWeight: 600,
+            }}>
+                Recursion Tree ({visible.length} call{visible.length === 1 ? "" : "s"})
+                {tree.omitted > 0 && (
+                    <span style={{ textTransform: "none", letterSpacing: 0, marginLeft: 8 }}>
+                        — first {tree.nodes.length} calls shown, {tree.omitted} more not drawn
+                    </span>
+                )}
+            </div>
+            <div ref={scrollRef} style={{ overflowX: "auto", maxHeight: 360, overflowY: "auto" }}>
+                <svg width={width} height={height} style={{ display: "block" }}>
+                    {/* Edges */}
+                    {visible.map(node => {
+                        const parent = node.parent ? tree.byId.get(node.parent) : undefined;
+                        if (!parent) return null;
+                        const from = center(parent);
+                        const to = center(node);
+                        return (
+                            <line
+                                key={`edge-${node.id}`}
+                                x1={from.x} y1={from.y + CALL_H} x2={to.x} y2={to.y}
+                                stroke={running.has(node.id) ? COLORS.accent : COLORS.cardBorder}
+                                strokeWidth={running.has(node.id) ? 2 : 1.2}
+                                strokeDasharray={node.memoHit ? "4 3" : undefined}
+                            />
+                        );
+                    })}
+                    {/* Calls */}
+                    {visible.map(node => {
+                        const { x, y } = center(node);
+                        const isCurrent = node.id === current?.id;
+                        const returned = node.returnStep !== null && node.returnStep <= stepIndex;
+                        // A memo hit is only known to be one once it has returned without recursing
+                        const pruned = node.memoHit && returned;
+                        let stroke = COLORS.cardBorder;
+                        if (running.has(node.id)) stroke = COLORS.accent;
+                        if (isCurrent) stroke = COLORS.highlight;
+                        return (
+                            <g key={node.id} opacity={pruned ? 0.6 : 1}>
+                                <title>{formatCall(node, 200)}</title>
+                                <rect
+                                    x={x - CALL_W / 2} y={y} width={CALL_W} height={CALL_H} rx={6}
+                                    fill={isCurrent ? COLORS.highlightBg : COLORS.cardBg}
+                                    stroke={stroke}
+                                    strokeWidth={isCurrent ? 2 : 1}
+                                    strokeDasharray={pruned ? "4 3" : undefined}
+                                />
+                                <text
+                                    x={x} y={y + CALL_H / 2} textAnchor="middle" dominantBaseline="central"
+                                    fill={returned ? COLORS.textDim : COLORS.text}
+                                    fontSize={10} fontFamily="monospace" fontWeight={600}
+                                >
+                                    {formatCall(node, 12)}
+                                </text>
+                                {returned && (
+                                    <text
+                                        x={x} y={y + CALL_H + 10} textAnchor="middle"
+                                        fill={pruned ? COLORS.textMuted : COLORS.changed}
+                                        fontSize={9} fontFamily="monospace" fontWeight={node.returnStep === stepIndex ? 700 : 400}
+                                    >
+                                        {pruned ? "✂ memo " : ""}→ {formatCellValue(node.returnValue)}
+                                    </text>
+                                )}
+                            </g>
+                        );
+                    })}
+                </svg>
+            </div>
+        </div>
+    );
+}
+
+// ─── Memory View (stack → heap arrows, Python Tutor style) ────
+const HEAP_MAX_OBJECTS = 12;
+const HEAP_MAX_CELLS = 10;
+
+function heapCells(obj: HeapObject): Array<{ label: string | null; value: unknown }> {
+    if (obj.type === "array" && Array.isArray(obj.value)) {
+        return (obj.value as unknown[]).map(v => ({ label: null, value: v }));
+    }
+    if (obj.value !== null && typeof obj.value === "object") {
+        return Object.entries(obj.value as Record<string, unknown>).map(([k, v]) => ({ label: k, value: v }));
+    }
+    return [{ label: null, value: obj.value }];
+}
+
+function HeapView2D({ step }: { step: TraceStep }) {
+    const aliases = useMemo(() => findAliases(step), [step]);
+    const [toggled, setToggled] = useState<boolean | null>(null);
+    const isOpen = toggled ?? aliases.size > 0;
+
+    const layout = useMemo(() => {
+        const ROW_H = 22;
+        const FRAME_H = 18;
+        const OBJ_H = 48;
+        const LEFT_W = 150;
+        const GAP = 80;
+
+        const scopes = step.frames.length > 0
+            ? step.frames.map(f => ({ id: f.id, name: f.name === "<module>" ? "global" : f.name, refs: f.refs }))
+            : [{ id: "stack", name: "stack", refs: step.refs }];
+
+        // Left column: one row per variable that holds a reference
+        const vars: Array<{ key: string; name: string; address: string; y: number }> = [];
+        const headers: Array<{ key: string; name: string; y: number }> = [];
+        let y = 0;
+        for (const scope of scopes) {
+            const entries = Object.entries(scope.refs);
+            if (entries.length === 0) continue;
+            headers.push({ key: scope.id, name: scope.name, y: y + 12 });
+            y += FRAME_H;
+            for (const [name, address] of entries) {
+                vars.push({ key: `${scope.id}:${name}`, name, address, y: y + ROW_H / 2 });
+                y += ROW_H;
+            }
+        }
+        const leftHeight = y;
+
+        // Right column: heap objects in breadth-first order from the variables
+        const order: string[] = [];
+        const queue = vars.map(v => v.address);
+        while (queue.length > 0 && order.length < HEAP_MAX_OBJECTS) {
+            const address = queue.shift()!;
+            if (order.includes(address) || !step.heap[address]) continue;
+            order.push(address);
+            for (const cell of heapCells(step.heap[address])) {
+                if (isHeapRef(cell.value)) queue.push(cell.value.__ref__);
+            }
+        }
+
+        const objects = order.map((address, idx) => {
+            const obj = step.heap[address];
+            const all = heapCells(obj);
+            let x = LEFT_W + GAP;
+            const cells = all.slice(0, HEAP_MAX_CELLS).map(cell => {
+                const text = isHeapRef(cell.value)
+                    ? "•"
+                    : `${cell.label !== null ? `${cell.label}: ` : ""}${formatCellValue(cell.value)}`.slice(0, 14);
+                const w = Math.max(26, text.length * 7 + 10);
+                const c = { x, w, text, ref: isHeapRef(cell.value) ? cell.value.__ref__ : null };
+                x += w;
+                return c;
+            });
+            return {
+                address,
+                kind: obj.kind ?? obj.type,
+                y: idx * OBJ_H,
+                cells,
+                truncated: all.length > HEAP_MAX_CELLS,
+                right: x,
+            };
+        });
+        const rightHeight = objects.length * OBJ_H;
+        const width = Math.max(LEFT_W + GAP + 60, ...objects.map(o => o.right + 20));
+
+        return { vars, headers, objects, leftX: LEFT_W, objX: LEFT_W + GAP, width, height: Math.max(leftHeight, rightHeight, 20) };
+    }, [step]);
+
+    if (layout.vars.length === 0) return null;
+
+    const objectY = new Map(layout.objects.map(o => [o.address, o.y]));
+    const BOX_TOP = 14;
+    const BOX_H = 24;
+
+    return (
+        <div>
+            <button
+                onClick={() => setToggled(!isOpen)}
+                style={{
+                    fontSize: 10,
+                    color: COLORS.textMuted,
+                    textTransform: "uppercase",
+                    letterSpacing: "1px",
+                    marginBottom: 6,
+                    fontWeight: 600,
+                    background: "none",
+                    border: "none",
+                    padding: 0,
+                    cursor: "pointer",
+                }}
+            >
+                {isOpen ? "▾" : "▸"} Memory{aliases.size > 0 ? ` — ${aliases.size} shared object${aliases.size > 1 ? "s" : ""}` : ""}
+            </button>
+            {isOpen && (
+                <svg width={layout.width} height={layout.height + 8} style={{ display: "block", maxWidth: "100%" }}>
+                    <defs>
+                        <marker id="heap-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                            <path d="M0,0 L8,4 L0,8 z" fill={COLORS.textDim} />
+                        </marker>
+                        <marker id="heap-arrow-alias" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                            <path d="M0,0 L8,4 L0,8 z" fill={COLORS.highlight} />
+                        </marker>
+                    </defs>
+
+                    {/* Frame headers + variables */}
+                    {layout.headers.map(h => (
+                        <text key={h.key} x={0} y={h.y} fill={COLORS.textMuted} fontSize={10} fontFamily="monospace" fontWeight={700}>
+                            {h.name}
+                        </text>
+                    ))}
+                    {layout.vars.map(v => {
+                        const targetY = objectY.get(v.address);
+                        const isAlias = aliases.has(v.address);
+                        const color = isAlias ? COLORS.highlight : COLORS.textDim;
+                        return (
+                            <g key={v.key}>
+                                <text x={8} y={v.y + 4} fill={isAlias ? COLORS.highlight : COLORS.accent} fontSize={11} fontFamily="monospace">
+                                    {v.name}
+                                </text>
+                                <circle cx={layout.leftX - 10} cy={v.y} r={3} fill={color} />
+                                {targetY !== undefined && (
+                                    <path
+                                        d={`M ${layout.leftX - 10} ${v.y} C ${layout.leftX + 30} ${v.y}, ${layout.objX - 40} ${targetY + BOX_TOP + BOX_H / 2}, ${layout.objX - 2} ${targetY + BOX_TOP + BOX_H / 2}`}
+                                        fill="none"
+                                        stroke={color}
+                                        strokeWidth={isAlias ? 1.8 : 1.2}
+                                        markerEnd={`url(#${isAlias ? "heap-arrow-alias" : "heap-arrow"})`}
+                                    />
+                                )}
+                            </g>
+                        );
+                    })}
+
+                    {/* Heap objects */}
+                    {layout.objects.map(o => (
+                        <g key={o.address}>
+                            <text x={layout.objX} y={o.y + 10} fill={COLORS.textMuted} fontSize={9} fontFamily="monospace">
+                                {o.kind} {shortAddress(o.address)}
+                            </text>
+                            {o.cells.map((c, idx) => {
+                                const targetY = c.ref ? objectY.get(c.ref) : undefined;
+                                return (
+                                    <g key={idx}>
+                                        <rect
+                                            x={c.x} y={o.y + BOX_TOP} width={c.w} height={BOX_H}
+                                            fill={aliases.has(o.address) ? COLORS.highlightBg : COLORS.cardBg}
+                                            stroke={aliases.has(o.address) ? COLORS.highlight : COLORS.cardBorder}
+                                        />
+                                        <text
+                                            x={c.x + c.w / 2} y={o.y + BOX_TOP + BOX_H / 2 + 4}
+                                            textAnchor="middle" fill={COLORS.text} fontSize={11} fontFamily="monospace"
+                                        >
+                                            {c.text}
+                                        </text>
+                                        {targetY !== undefined && (
+                                            <path
+                                                d={`M ${c.x + c.w / 2} ${o.y + BOX_TOP + BOX_H / 2} C ${c.x + c.w / 2} ${o.y + BOX_TOP + BOX_H + 20}, ${layout.objX - 30} ${targetY + BOX_TOP + BOX_H / 2}, ${layout.objX - 2} ${targetY + BOX_TOP + BOX_H / 2}`}
+                                                fill="none"
+                                                stroke={COLORS.textMuted}
+                                                strokeWidth={1}
+                                                markerEnd="url(#heap-arrow)"
+                                            />
+                                        )}
+                                    </g>
+                                );
+                            })}
+                            {o.truncated && (
+                                <text x={o.right + 4} y={o.y + BOX_TOP + BOX_H / 2 + 4} fill={COLORS.textMuted} fontSize={11}>…</text>
+                            )}
+                        </g>
+                    ))}
+                </svg>
+            )}
+        </div>
+    );
+}
+
 // ─── Pointer Color Generator ──────────────────────────────────
 const POINTER_COLORS = [
     "#f59e0b", "#ef4444", "#22c55e", "#a855f7",
@@ -716,47 +2073,58 @@ function getPointerColor(idx: number): string {
 }
 
 // ─── Main 2D Visualization ────────────────────────────────────
-export function Visualization2D({ step, prevStep, vizCtx }: Visualization2DProps) {
+export function Visualization2D({ step, prevStep, vizCtx, callTree, stepIndex = 0 }: Visualization2DProps) {
     const sortedVars = useMemo(() => getSortedVariables(step, vizCtx), [step, vizCtx]);
 
-    // Build pointer map for the primary array
+    // Pointers per array: scalars bound to the array they index, else pointer-like names on the primary one
     const pointerMap = useMemo(() => {
-        const pointers: Array<{ name: string; index: number; color: string }> = [];
-        let colorIdx = 0;
-
-        for (const v of sortedVars) {
-            if (v.type !== "scalar") continue;
-            const val = v.value;
-            if (typeof val !== "number" || !Number.isInteger(val) || val < 0) continue;
-
-            // Check if this could be an index into the primary array
-            const primaryArr = vizCtx.primaryVar ? step.stack[vizCtx.primaryVar] : null;
-            if (Array.isArray(primaryArr) && val < primaryArr.length) {
-                // Is it explicitly a pointer var or does it look like one (i, j, k, idx, left, right, etc)?
-                const isLikelyPointer = vizCtx.pointerVars.includes(v.name) ||
-                    /^(i|j|k|l|r|m|idx|index|left|right|low|high|mid|start|end|top|bottom|cur|ptr|head|tail|lo|hi|cut\d?)$/i.test(v.name);
-                if (isLikelyPointer) {
-                    pointers.push({ name: v.name, index: val, color: getPointerColor(colorIdx++) });
-                }
-            }
+        const scalarNames = sortedVars.filter(v => v.type === "scalar").map(v => v.name);
+        const byArray = new Map<string, Array<{ name: string; index: number; color: string }>>();
+        for (const [array, pointers] of pointersByArray(step, scalarNames, vizCtx)) {
+            byArray.set(array, pointers.map(p => ({ name: p.name, index: p.index, color: getPointerColor(p.slot) })));
         }
-        return pointers;
+        return byArray;
     }, [sortedVars, vizCtx, step]);
 
+    const listDiagram = useMemo(() => buildListDiagram(step), [step]);
+
+    // Trees are gathered across the whole call stack so recursive helpers still see the root
+    const trees = useMemo(() => collectTrees(step), [step]);
+    const treeChangeList = useMemo(
+        () => trees.map(tree => treeChanges(tree, trees, prevStep ? collectTrees(prevStep) : [])),
+        [trees, prevStep]
+    );
+
     // Separate variables by type for rendering
     const arrays: Array<{ name: string; value: unknown[] }> = [];
-    const linkedLists: Array<{ name: string; values: unknown[] }> = [];
+    const dpTables: string[] = [];
+    const grids: Array<{ name: string; value: unknown[][] }> = [];
     const dicts: Array<{ name: string; value: Record<string, unknown> }> = [];
+    const graphs: Array<{ name: string; graph: GraphModel; annotations: GraphAnnotations }> = [];
     const scalars: Array<{ name: string; value: unknown }> = [];
 
     for (const v of sortedVars) {
-        if (v.type === "array") {
+        const graph = v.type === "array" || v.type === "dict" ? parseGraph(v.name, v.value) : null;
+        if (graph) {
+            graphs.push({ name: v.name, graph, annotations: annotateGraph(graph, step, prevStep) });
+        }
+    }
+    // dist/parent/indegree... tables are drawn on their graph's nodes instead
+    const annotationVars = new Set(graphs.flatMap(g => g.annotations.vars));
+
+    for (const v of sortedVars) {
+        if (annotationVars.has(v.name) || graphs.some(g => g.name === v.name)) {
+            continue;
+        } else if (v.type === "array" && vizCtx.dpVars.includes(v.name) && tableDims(v.value) > 0) {
+            dpTables.push(v.name);
+        } else if (v.type === "array" && is2DGrid(v.value) && !vizCtx.dsRoles[v.name]) {
+            // A stack of (node, depth) pairs is still a stack, not a grid
+            grids.push({ name: v.name, value: v.value });
+        } else if (v.type === "array") {
             arrays.push({ name: v.name, value: v.value as unknown[] });
         } else if (v.type === "dict") {
-            // Check for serialized linked list first
-            if (isLinkedListValue2D(v.value)) {
-                linkedLists.push({ name: v.name, values: (v.value as { __type__: string; values: unknown[] }).values });
-            } else {
+            // Linked lists and trees are drawn below as diagrams, with each variable as a pointer
+            if (!isTreeValue(v.value) && (v.value as Record<string, unknown>).__type__ !== "linked_list") {
                 dicts.push({ name: v.name, value: v.value as Record<string, unknown> });
             }
         } else if (v.type === "scalar") {
@@ -791,6 +2159,7 @@ export function Visualization2D({ step, prevStep, vizCtx }: Visualization2DProps
                 }}>
                     Line {step.line}
                 </span>
+                <EventBadge step={step} />
                 <div style={{ flex: 1 }} />
                 <span style={{
                     fontSize: 10,
@@ -800,6 +2169,12 @@ export function Visualization2D({ step, prevStep, vizCtx }: Visualization2DProps
                 </span>
             </div>
 
+            {/* Call Stack — only interesting once we're inside a function */}
+            {step.frames.length > 1 && <CallStackView2D frames={step.frames} />}
+
+            {/* Recursion tree — every call so far, the running one highlighted */}
+            {callTree && <RecursionTree2D tree={callTree} step={step} stepIndex={stepIndex} />}
+
             {/* Scalar Variables — shown first as badges */}
             {scalars.length > 0 && (
                 <div>
@@ -847,24 +2222,80 @@ export function Visualization2D({ step, prevStep, vizCtx }: Visualization2DProps
                     {arrays.map(arr => {
                         const isPrimary = arr.name === vizCtx.primaryVar;
                         const prevArr = prevStep?.stack[arr.name] as unknown[] | undefined;
-                        // Only show pointers for the primary array
-                        const arrPointers = isPrimary ? pointerMap : [];
-                        return (
+                        const role = vizCtx.dsRoles[arr.name];
+                        if (role?.type === "stack") return <Stack2D key={arr.name} name={arr.name} items={arr.value} prevItems={prevArr} role={role} />;
+                        if (role?.type === "queue") return <Queue2D key={arr.name} name={arr.name} items={arr.value} prevItems={prevArr} role={role} />;
+                        const row = (
                             <ArrayRow
                                 key={arr.name}
                                 name={arr.name}
                                 data={arr.value}
                                 prevData={prevArr}
-                                pointers={arrPointers}
+                                pointers={pointerMap.get(arr.name) ?? []}
+                                accesses={indexAccesses(step, arr.name)}
                                 isPrimary={isPrimary}
                             />
                         );
+                        if (!vizCtx.heapVars.includes(arr.name)) return row;
+                        // Heaps also get the tree their indices encode
+                        return (
+                            <div key={arr.name} style={{ display: "flex", gap: 24, alignItems: "flex-start", flexWrap: "wrap" }}>
+                                {row}
+                                <PriorityQueueTree2D items={arr.value} prevItems={prevArr} />
+                            </div>
+                        );
                     })}
                 </div>
             )}
 
-            {/* Linked Lists — rendered as node chains */}
-            {linkedLists.length > 0 && (
+            {/* Grids — boards and matrices, (row, col) variable pairs as pointers */}
+            {grids.length > 0 && (
+                <div>
+                    <div style={{
+                        fontSize: 10,
+                        color: COLORS.textMuted,
+                        textTransform: "uppercase",
+                        letterSpacing: "1px",
+                        marginBottom: 6,
+                        fontWeight: 600,
+                    }}>
+                        Grids
+                    </div>
+                    {grids.map(grid => (
+                        <GridView2D
+                            key={grid.name}
+                            name={grid.name}
+                            grid={grid.value}
+                            prevGrid={prevStep?.stack[grid.name] as unknown[][] | undefined}
+                            pointers={findGridPointers(step, grid.value.length, grid.value[0].length)
+                                .map((p, idx) => ({ ...p, color: getPointerColor(idx) }))}
+                            isPrimary={grid.name === vizCtx.primaryVar}
+                        />
+                    ))}
+                </div>
+            )}
+
+            {/* DP tables — the cell written this step and arrows from the cells it was computed from */}
+            {dpTables.length > 0 && (
+                <div>
+                    <div style={{
+                        fontSize: 10,
+                        color: COLORS.textMuted,
+                        textTransform: "uppercase",
+                        letterSpacing: "1px",
+                        marginBottom: 6,
+                        fontWeight: 600,
+                    }}>
+                        DP Tables
+                    </div>
+                    {dpTables.map(name => (
+                        <DPTable2D key={name} name={name} step={step} prevStep={prevStep} />
+                    ))}
+                </div>
+            )}
+
+            {/* Linked Lists — every node once, pointer variables as labels */}
+            {listDiagram && (
                 <div>
                     <div style={{
                         fontSize: 10,
@@ -876,39 +2307,64 @@ export function Visualization2D({ step, prevStep, vizCtx }: Visualization2DProps
                     }}>
                         Linked Lists
                     </div>
-                    {linkedLists.map(ll => (
-                        <LinkedListView2D
-                            key={ll.name}
-                            name={ll.name}
-                            values={ll.values}
+                    <LinkedListDiagram2D diagram={listDiagram} />
+                </div>
+            )}
+
+            {/* Binary Trees — variables pointing into a tree are labels on its nodes */}
+            {trees.length > 0 && (
+                <div>
+                    <div style={{
+                        fontSize: 10,
+                        color: COLORS.textMuted,
+                        textTransform: "uppercase",
+                        letterSpacing: "1px",
+                        marginBottom: 6,
+                        fontWeight: 600,
+                    }}>
+                        Trees
+                    </div>
+                    {trees.map((tree, idx) => (
+                        <TreeView2D
+                            key={tree.name}
+                            tree={tree}
+                            changes={treeChangeList[idx]}
                         />
                     ))}
                 </div>
             )}
 
-            {/* Dictionaries / Graphs */}
+            {/* Graphs — adjacency lists/dicts, edge lists and matrices */}
+            {graphs.length > 0 && (
+                <div>
+                    {graphs.map(g => (
+                        <GraphView2D
+                            key={g.name}
+                            name={g.name}
+                            graph={g.graph}
+                            visited={step.stack["visited"] as unknown[] | undefined}
+                            queue={step.stack["queue"] as unknown[] | undefined}
+                            current={step.stack["current"] ?? step.stack["node"] ?? step.stack["curr"] ?? step.stack["u"]}
+                            active={findActiveEdge(g.graph, step, prevStep)}
+                            annotations={g.annotations}
+                        />
+                    ))}
+                </div>
+            )}
+
+            {/* Dictionaries */}
             {dicts.length > 0 && (
                 <div>
-                    {dicts.map(d => {
-                        // Extract graph traversal state from step stack
-                        const graphVisited = step.stack["visited"] as unknown[] | undefined;
-                        const graphQueue = step.stack["queue"] as unknown[] | undefined;
-                        const graphCurrent = step.stack["current"] ?? step.stack["node"] ?? step.stack["curr"];
-                        return (
-                            <DictView
-                                key={d.name}
-                                name={d.name}
-                                data={d.value}
-                                visited={graphVisited}
-                                queue={graphQueue}
-                                current={graphCurrent}
-                            />
-                        );
-                    })}
+                    {dicts.map(d => (
+                        <DictView key={d.name} name={d.name} data={d.value} />
+                    ))}
                 </div>
             )}
 
-            {/* Stdout */}
+            {/* Memory — variables pointing into the heap, aliases highlighted */}
+            <HeapView2D step={step} />
+
+            {/* Output printed by the line that just ran */}
             {step.stdout && (
                 <div style={{
                     padding: 8,
@@ -929,7 +2385,7 @@ export function Visualization2D({ step, prevStep, vizCtx }: Visualization2DProps
                         letterSpacing: "1px",
                         marginBottom: 4,
                     }}>
-                        stdout
+                        printed
                     </div>
                     {step.stdout}
                 </div>
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { Access } from "./interpreter/schema";
+import { step } from "@/test/traces";
+import { accessesOf, indexAccesses } from "./accesses";
+
+const access = (kind: Access["kind"], name: string, address: string, path: Access["path"]): Access =>
+    ({ kind, name, address, path, indexVars: [] });
+
+/** `nums` and its alias `arr` share address 1; `other` is a different list reached through a parameter also called `nums` */
+const at = step({
+    stack: { nums: { __ref__: "1" }, arr: { __ref__: "1" }, other: { __ref__: "2" } },
+    heap: { "1": { type: "array", value: [3, 1, 2] }, "2": { type: "array", value: [0] } },
+    accesses: [
+        access("read", "arr", "1", [0]),
+        access("write", "nums", "2", [0]),
+        access("write", "nums", "1", [2]),
+        access("read", "dp", "9", [1, 2]),
+        access("read", "counts", "1", ["a"]),
+    ],
+});
+
+describe("accessesOf", () => {
+    it("matches accesses by the address the variable holds, not by name", () => {
+        expect(accessesOf(at, "nums").map(a => a.path)).toEqual([[0], [2], ["a"]]);
+        expect(accessesOf(at, "other").map(a => a.kind)).toEqual(["write"]);
+    });
+
+    it("compares names for variables without a heap address", () => {
+        expect(accessesOf(at, "dp").map(a => a.path)).toEqual([[1, 2]]);
+    });
+});
+
+describe("indexAccesses", () => {
+    it("collects the numeric first indices read and written", () => {
+        expect(indexAccesses(at, "arr")).toEqual({ reads: new Set([0]), writes: new Set([2]) });
+        expect(indexAccesses(at, "dp")).toEqual({ reads: new Set([1]), writes: new Set() });
+    });
+});
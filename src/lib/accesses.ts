@@ -0,0 +1,35 @@
+/**
+ * accesses.ts — The subscript reads and writes the tracer recorded per step.
+ *
+ * Accesses are attached to the step after the line that made them, like
+ * stdout, so a step's accesses are what the line just run did.
+ */
+
+import { Access, TraceStep } from "./interpreter/schema";
+
+export interface IndexAccesses {
+    reads: Set<number>;
+    writes: Set<number>;
+}
+
+/**
+ * Accesses of `step` to the container held by the variable `name` of the
+ * current frame, whatever name they went through (a parameter, an alias).
+ * Only without a heap address for `name` is the name itself compared.
+ */
+export function accessesOf(step: TraceStep, name: string): Access[] {
+    const address = step.refs[name];
+    return step.accesses.filter(a => (address ? a.address === address : a.name === name));
+}
+
+/** Indices of list `name` read and written by the line that just ran (the first index for nested lists). */
+export function indexAccesses(step: TraceStep, name: string): IndexAccesses {
+    const reads = new Set<number>();
+    const writes = new Set<number>();
+    for (const access of accessesOf(step, name)) {
+        const index = access.path[0];
+        if (typeof index !== "number") continue;
+        (access.kind === "read" ? reads : writes).add(index);
+    }
+    return { reads, writes };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { Access } from "./interpreter/schema";
+import { step } from "@/test/traces";
+import { findPointerTargets, pointersByArray } from "./arrayPointers";
+
+const read = (name: string, path: Access["path"], indexVars: string[]): Access => ({ kind: "read", name, address: name, path, indexVars });
+
+describe("findPointerTargets", () => {
+    it("binds each index variable to the arrays it indexed, with the previous step's locals", () => {
+        const trace = [
+            step({ stack: { i: 0, j: 2 } }),
+            step({ stack: { i: 1, j: 2 }, accesses: [read("nums1", [0], ["i"]), read("nums2", [1], ["j"])] }),
+            step({ stack: { i: 1, j: 2 }, accesses: [read("nums1", [1], ["i"])] }),
+        ];
+        expect(findPointerTargets(trace)).toEqual({ i: ["nums1"], j: ["nums2"] });
+    });
+
+    it("skips dictionary keys, non-index values and the array itself", () => {
+        const trace = [
+            step({ stack: { k: "a", x: -1, n: 0 } }),
+            step({ accesses: [read("counts", ["a"], ["k"]), read("nums", [0], ["x", "nums"]), read("n", [0], ["n"])] }),
+        ];
+        expect(findPointerTargets(trace)).toEqual({});
+    });
+});
+
+describe("pointersByArray", () => {
+    const at = step({ stack: { a: [1, 2, 3], b: [4, 5], i: 2, j: 1, left: 0, count: 7 } });
+
+    it("draws bound pointers on their own arrays and keeps one slot per variable", () => {
+        const byArray = pointersByArray(at, ["i", "j"], { primaryVar: "a", pointerVars: [], pointerTargets: { i: ["a"], j: ["a", "b"] } });
+        expect(byArray.get("a")).toEqual([{ name: "i", index: 2, slot: 0 }, { name: "j", index: 1, slot: 1 }]);
+        expect(byArray.get("b")).toEqual([{ name: "j", index: 1, slot: 1 }]);
+    });
+
+    it("falls back to pointer-like names on the primary array", () => {
+        const byArray = pointersByArray(at, ["left", "count"], { primaryVar: "a", pointerVars: [], pointerTargets: {} });
+        expect([...byArray.keys()]).toEqual(["a"]);
+        expect(byArray.get("a")).toEqual([{ name: "left", index: 0, slot: 0 }]);
+    });
+
+    it("leaves out indices past the end of the array", () => {
+        const byArray = pointersByArray(at, ["i"], { primaryVar: "a", pointerVars: [], pointerTargets: { i: ["b"] } });
+        expect(byArray.size).toBe(0);
+    });
+});
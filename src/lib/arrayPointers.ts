@@ -0,0 +1,73 @@
+/**
+ * arrayPointers.ts — Which array each index variable points into.
+ *
+ * The tracer records, for each subscript, the variables its index was
+ * computed from: i in nums1[i], j in nums2[j - 1]. Each such variable is
+ * bound to the arrays it indexed, so every array gets its own pointers.
+ * Traces without access data fall back to pointer-like names on the primary
+ * array.
+ */
+
+import { Trace, TraceStep } from "./interpreter/schema";
+
+export interface ArrayPointer {
+    name: string;
+    index: number;
+    /** Position among all pointers in scope, so each variable keeps one color across arrays */
+    slot: number;
+}
+
+// Names that are pointers into the primary array when nothing better is known
+const POINTER_NAMES = /^(i|j|k|l|r|m|idx|index|left|right|low|high|mid|start|end|top|bottom|cur|ptr|head|tail|lo|hi|cut\d?)$/i;
+
+function isIndex(val: unknown): val is number {
+    return typeof val === "number" && Number.isInteger(val) && val >= 0;
+}
+
+/** Arrays each integer variable was used to index somewhere in the trace. */
+export function findPointerTargets(trace: Trace): Record<string, string[]> {
+    const targets: Record<string, string[]> = {};
+    for (let s = 1; s < trace.length; s++) {
+        // Accesses belong to the line that ran at the previous step, with its locals
+        const locals = trace[s - 1].stack;
+        for (const access of trace[s].accesses) {
+            if (typeof access.path[0] !== "number") continue;
+            for (const name of access.indexVars) {
+                if (name === access.name || !isIndex(locals[name])) continue;
+                const arrays = targets[name] ?? (targets[name] = []);
+                if (!arrays.includes(access.name)) arrays.push(access.name);
+            }
+        }
+    }
+    return targets;
+}
+
+/**
+ * Pointers to draw on each array at `step`: scalars bound to the array by
+ * `findPointerTargets`, else pointer-like names on the primary array.
+ * `scalarNames` sets the order, and so the colors.
+ */
+export function pointersByArray(
+    step: TraceStep,
+    scalarNames: string[],
+    ctx: { primaryVar: string | null; pointerVars: string[]; pointerTargets: Record<string, string[]> }
+): Map<string, ArrayPointer[]> {
+    const byArray = new Map<string, ArrayPointer[]>();
+    let slot = 0;
+    for (const name of scalarNames) {
+        const val = step.stack[name];
+        if (!isIndex(val)) continue;
+        const isLikelyPointer = ctx.pointerVars.includes(name) || POINTER_NAMES.test(name);
+        const targets = ctx.pointerTargets[name] ?? (isLikelyPointer && ctx.primaryVar ? [ctx.primaryVar] : []);
+        const arrays = targets.filter(array => {
+            const arr = step.stack[array];
+            return Array.isArray(arr) && val < arr.length;
+        });
+        if (arrays.length === 0) continue;
+        for (const array of arrays) {
+            byArray.set(array, [...(byArray.get(array) ?? []), { name, index: val, slot }]);
+        }
+        slot++;
+    }
+    return byArray;
+}
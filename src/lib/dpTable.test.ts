@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { Access, TraceStep } from "./interpreter/schema";
+import { step, traceOf } from "@/test/traces";
+import { dpStepAccesses, findDPTables, sequenceLabels, tableDims } from "./dpTable";
+
+type Touch = [Access["kind"], string, Access["path"]];
+
+/** A step where each list lives at the heap address of its own name and the line just run made `touches` */
+function tableStep(locals: Record<string, unknown>, ...touches: Touch[]): TraceStep {
+    const stack: Record<string, unknown> = {};
+    const heap: TraceStep["heap"] = {};
+    for (const [name, val] of Object.entries(locals)) {
+        if (!Array.isArray(val)) {
+            stack[name] = val;
+            continue;
+        }
+        heap[name] = { type: "array", kind: "list", value: val };
+        stack[name] = { __ref__: name };
+    }
+    const accesses = touches.map(([kind, name, path]) => ({ kind, name, address: name, path, indexVars: [] }));
+    return step({ stack, heap, accesses });
+}
+
+const names = (...traceNames: string[]) => new Set(traceNames);
+
+describe("tableDims", () => {
+    it("counts the index levels of scalar tables only", () => {
+        expect([[1, 2], [[1], [2, 3]], [], [[]], [[1], 2], "dp", [{ a: 1 }]].map(tableDims)).toEqual([1, 2, 0, 0, 0, 0, 0]);
+    });
+});
+
+describe("findDPTables", () => {
+    it("finds a table whose cell is computed from other cells, whatever its name", () => {
+        // ways[3] = ways[2] + ways[1]
+        const trace = [tableStep({ ways: [1, 1, 2, 3] }, ["read", "ways", [2]], ["read", "ways", [1]], ["write", "ways", [3]])];
+        expect(findDPTables(trace, names("ways"))).toEqual(["ways"]);
+    });
+
+    it("finds 2D tables", () => {
+        // grid[1][1] = grid[0][1] + grid[1][0]
+        const trace = [tableStep({ grid: [[1, 1], [1, 2]] }, ["read", "grid", [0, 1]], ["read", "grid", [1, 0]], ["write", "grid", [1, 1]])];
+        expect(findDPTables(trace, names("grid"))).toEqual(["grid"]);
+    });
+
+    it("skips a copied value unless the name says DP", () => {
+        // arr[2] = arr[1], as an insertion sort shifts
+        const shift = (name: string) => [tableStep({ [name]: [5, 7, 7] }, ["read", name, [1]], ["write", name, [2]])];
+        expect(findDPTables(shift("arr"), names("arr"))).toEqual([]);
+        // dp[2] = max(dp[1], dp[0] + 2) may well keep dp[1]
+        for (const name of ["dp", "memo", "best", "dp_prev", "cost_dp", "dp2"]) {
+            expect(findDPTables(shift(name), names(name))).toEqual([name]);
+        }
+        for (const name of ["dps", "dpx", "update", "memory"]) {
+            expect(findDPTables(shift(name), names(name))).toEqual([]);
+        }
+    });
+
+    it("skips swaps, even in a table named dp", () => {
+        const trace = [tableStep({ dp: [2, 1] }, ["read", "dp", [1]], ["read", "dp", [0]], ["write", "dp", [0]], ["write", "dp", [1]])];
+        expect(findDPTables(trace, names("dp"))).toEqual([]);
+    });
+
+    it("skips a write that read no other cell", () => {
+        const trace = [tableStep({ dp: [0, 0, 0], i: 2 }, ["read", "dp", [2]], ["write", "dp", [2]])];
+        expect(findDPTables(trace, names("dp", "i"))).toEqual([]);
+    });
+
+    it("falls back to DP names for traces without access data", () => {
+        const trace = traceOf({ dp: [0, 1], memo: { 1: 1 }, table: [], nums: [3, 4], dp_row: [[1]] });
+        expect(findDPTables(trace, names("dp", "memo", "table", "nums", "dp_row")).sort()).toEqual(["dp", "dp_row"]);
+    });
+
+    it("does not go by name alone once the trace records accesses", () => {
+        const trace = [tableStep({ dp: [0, 0], nums: [1, 2] }, ["read", "nums", [0]])];
+        expect(findDPTables(trace, names("dp", "nums"))).toEqual([]);
+    });
+});
+
+describe("dpStepAccesses", () => {
+    it("gives the cell written and the other cells read", () => {
+        const at = tableStep({ dp: [1, 1, 2] }, ["read", "dp", [2]], ["read", "dp", [1]], ["read", "dp", [0]], ["read", "dp", [1]], ["write", "dp", [2]]);
+        expect(dpStepAccesses("dp", at, null)).toEqual({ written: [2], reads: [[1], [0]] });
+    });
+
+    it("cuts longer paths down to the table's cell", () => {
+        const at = tableStep({ dp: [[0, 1]] }, ["read", "dp", [0, 0, "x"]], ["write", "dp", [0, 1]]);
+        expect(dpStepAccesses("dp", at, null)).toEqual({ written: [0, 1], reads: [[0, 0]] });
+    });
+
+    it("uses the first changed cell without access data", () => {
+        const [before, after] = traceOf({ dp: [[0, 0], [0, 0]] }, { dp: [[0, 0], [0, 3]] });
+        expect(dpStepAccesses("dp", after, before)).toEqual({ written: [1, 1], reads: [] });
+        expect(dpStepAccesses("dp", after, after)).toEqual({ written: null, reads: [] });
+        expect(dpStepAccesses("dp", after, null)).toEqual({ written: null, reads: [] });
+    });
+});
+
+describe("sequenceLabels", () => {
+    it("labels rows with the string one shorter than the table, after the empty prefix", () => {
+        const at = step({ stack: { s: "abc", t: "xy" } });
+        expect(sequenceLabels(at, 3)).toEqual({ name: "t", labels: ["∅", "x", "y"] });
+        expect(sequenceLabels(at, 4)).toEqual({ name: "s", labels: ["∅", "a", "b", "c"] });
+        expect(sequenceLabels(at, 4, ["s"])).toBeNull();
+    });
+});
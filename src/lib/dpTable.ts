@@ -0,0 +1,125 @@
+/**
+ * dpTable.ts — Helpers for lists filled in by dynamic programming.
+ *
+ * A DP table is recognized by how it is used: some step writes one of its
+ * cells with a value computed from other cells of the same table
+ * (dp[i][j] = dp[i-1][j] + ...). Copying a value over, as sorts do when they
+ * shift or swap, does not count.
+ *
+ * The tracer's subscript accesses say which cells those were, so each step
+ * can draw arrows from the cells read to the cell written. Traces without
+ * access data fall back to the usual names (dp, memo, table...) and to the
+ * cell that changed.
+ */
+
+import { Access, Trace, TraceStep } from "./interpreter/schema";
+import { accessesOf } from "./accesses";
+
+export interface DPStepAccesses {
+    /** Cell written since the previous step: [i] or [i, j] */
+    written: number[] | null;
+    /** Cells of the same table read since the previous step */
+    reads: number[][];
+}
+
+const DP_NAMES = /^(dp|memo|table|tab|cache|opt|best)$|^dp_|_dp$|^dp\d$/i;
+
+function isScalarCell(cell: unknown): boolean {
+    return cell === null || ["number", "boolean", "string"].includes(typeof cell);
+}
+
+/** Number of index levels of a 1D or 2D table of scalars, else 0 */
+export function tableDims(val: unknown): 0 | 1 | 2 {
+    if (!Array.isArray(val) || val.length === 0) return 0;
+    if (val.every(isScalarCell)) return 1;
+    if (val.every(row => Array.isArray(row) && row.length > 0 && row.every(isScalarCell))) return 2;
+    return 0;
+}
+
+function cellValue(table: unknown, cell: number[]): unknown {
+    return cell.reduce<unknown>((val, idx) => (Array.isArray(val) ? val[idx] : undefined), table);
+}
+
+/**
+ * Variables used as DP tables somewhere in the trace: a cell was written
+ * from other cells of the same table, with a value none of them held.
+ */
+export function findDPTables(trace: Trace, allVarNames: Set<string>): string[] {
+    const found = new Set<string>();
+    const hasAccesses = trace.some(step => step.accesses.length > 0);
+    for (const step of trace) {
+        const names = new Set(step.accesses.filter(a => a.kind === "write").map(a => a.name));
+        for (const name of names) {
+            if (found.has(name) || tableDims(step.stack[name]) === 0) continue;
+            const { written, reads } = dpStepAccesses(name, step, null);
+            if (!written || reads.length === 0) continue;
+            // A swap writes the cells it read
+            const writes = accessesOf(step, name).filter(a => a.kind === "write").map(a => a.path.join());
+            if (reads.some(cell => writes.includes(cell.join()))) continue;
+            const table = step.stack[name];
+            const value = JSON.stringify(cellValue(table, written));
+            if (DP_NAMES.test(name) || !reads.some(cell => JSON.stringify(cellValue(table, cell)) === value)) found.add(name);
+        }
+    }
+    if (!hasAccesses) {
+        for (const name of allVarNames) {
+            if (DP_NAMES.test(name) && trace.some(step => tableDims(step.stack[name]) > 0)) found.add(name);
+        }
+    }
+    return [...found];
+}
+
+/**
+ * The cell written and the cells read for table `name` since the previous
+ * step. Without access data the written cell is the first one that changed.
+ */
+export function dpStepAccesses(name: string, step: TraceStep, prevStep: TraceStep | null): DPStepAccesses {
+    const dims = tableDims(step.stack[name]);
+    const accesses = accessesOf(step, name);
+    const cell = (a: Access): number[] | null =>
+        a.path.length >= dims && a.path.slice(0, dims).every(k => typeof k === "number")
+            ? (a.path.slice(0, dims) as number[])
+            : null;
+
+    if (accesses.length > 0 || step.accesses.length > 0) {
+        const writes = accesses.filter(a => a.kind === "write").map(cell).filter((c): c is number[] => c !== null);
+        const written = writes.at(-1) ?? null;
+        const reads: number[][] = [];
+        for (const a of accesses) {
+            const c = a.kind === "read" ? cell(a) : null;
+            // An augmented assignment reads the cell it writes; that is not a dependency
+            if (!c || (written && c.join() === written.join())) continue;
+            if (!reads.some(r => r.join() === c.join())) reads.push(c);
+        }
+        return { written, reads };
+    }
+
+    const now = step.stack[name];
+    const before = prevStep?.stack[name];
+    if (!Array.isArray(now) || !Array.isArray(before)) return { written: null, reads: [] };
+    for (let i = 0; i < now.length; i++) {
+        if (dims === 1) {
+            if (JSON.stringify(now[i]) !== JSON.stringify(before[i])) return { written: [i], reads: [] };
+            continue;
+        }
+        const row = now[i] as unknown[];
+        const prevRow = before[i] as unknown[] | undefined;
+        for (let j = 0; j < row.length; j++) {
+            if (JSON.stringify(row[j]) !== JSON.stringify(prevRow?.[j])) return { written: [i, j], reads: [] };
+        }
+    }
+    return { written: null, reads: [] };
+}
+
+/**
+ * Labels for the rows or columns of a table built over a string, as in
+ * LCS/edit distance where dp has len(s) + 1 rows and row i stands for s[i-1].
+ * Null when no string in scope has a matching length.
+ */
+export function sequenceLabels(step: TraceStep, size: number, exclude: string[] = []): { name: string; labels: string[] } | null {
+    for (const [name, val] of Object.entries(step.stack)) {
+        if (exclude.includes(name)) continue;
+        if (typeof val === "string" && val.length === size - 1) return { name, labels: ["∅", ...val] };
+    }
+    return null;
+}
@@ -0,0 +1,72 @@
+/**
+ * Docker Executor
+ *
+ * Runs each program in a throwaway container with no network and capped
+ * memory/CPU. Images are configurable so self-hosters can pin versions or
+ * pre-bake extra packages.
+ */
+
+import { execFile } from "child_process";
+import { RUNTIMES, toolVersion } from "./local";
+import { SANDBOX_LIMITS } from "./sandbox";
+import { BackendHealth, ExecuteOptions, ExecutionBackend, ExecutionResult, Runtime } from "./types";
+
+const IMAGES: Record<Runtime, string> = {
+    python: process.env.DOCKER_PYTHON_IMAGE || "python:3.11-slim",
+    node: process.env.DOCKER_NODE_IMAGE || "node:20-slim",
+};
+
+const TOOL_NAMES: Record<Runtime, string> = { python: "python3", node: "node" };
+
+export const executeDocker = (
+    code: string,
+    runtime: Runtime,
+    { outputMb = SANDBOX_LIMITS.outputMb, stdin = "", signal, onStdout }: ExecuteOptions = {}
+): Promise<ExecutionResult> => {
+    const { command, flag, env } = RUNTIMES[runtime];
+    const envArgs = Object.entries(env).flatMap(([key, value]) => ["-e", `${key}=${value}`]);
+    return new Promise((resolve) => {
+        // Killing the docker client forwards the signal to the container (--sig-proxy)
+        const child = execFile(
+            "docker",
+            [
+                "run", "--rm", "-i", "--network", "none", "--memory", "512m", "--cpus", "1",
+                ...envArgs, IMAGES[runtime], command, flag, code,
+            ],
+            {
+                timeout: 20000, // container start-up on top of the 15s run budget
+                maxBuffer: outputMb * 1024 * 1024,
+                signal,
+            },
+            (error, stdout, stderr) => {
+                resolve({
+                    stdout: stdout || "",
+                    stderr: stderr || (typeof error?.code === "string" ? error.message : ""),
+                    code: error?.code !== undefined ? (typeof error.code === "number" ? error.code : 1) : 0,
+                    cancelled: signal?.aborted ?? false,
+                });
+            }
+        );
+        if (onStdout) child.stdout?.on("data", (chunk: string) => onStdout(chunk));
+        child.stdin?.on("error", () => {}).end(stdin);
+    });
+};
+
+export const dockerBackend: ExecutionBackend = {
+    name: "docker",
+    execute: executeDocker,
+    async health(): Promise<BackendHealth> {
+        const versions: Record<string, string | null> = { python3: null, node: null };
+        const daemon = await toolVersion("docker", ["version", "--format", "{{.Server.Version}}"]);
+        if (!daemon || daemon.startsWith("Cannot connect") || daemon.startsWith("permission denied")) {
+            return { name: "docker", available: false, versions, error: daemon ?? "docker is not installed" };
+        }
+        // An image only counts once it has been pulled; report it by tag
+        for (const runtime of Object.keys(IMAGES) as Runtime[]) {
+            const image = IMAGES[runtime];
+            const id = await toolVersion("docker", ["image", "inspect", "--format", "{{.Id}}", image]);
+            versions[TOOL_NAMES[runtime]] = id?.startsWith("sha256:") ? image : null;
+        }
+        return { name: "docker", available: true, versions, isolation: "container without network" };
+    },
+};
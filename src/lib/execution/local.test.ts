@@ -0,0 +1,77 @@
+/**
+ * Sandbox escape regressions: user programs run through the real tracer
+ * and interpreter, so the Python ones need python3 and the namespace checks
+ * unshare; each is skipped where this machine lacks them.
+ */
+
+import { describe, expect, it } from "vitest";
+import { instrumentPython } from "@/lib/interpreter/instrumentors/python";
+import { parseError, parseTrace } from "@/lib/interpreter/parsers/traceParser";
+import { executeLocal, localIsolation, toolVersion } from "./local";
+
+const hasPython = (await toolVersion("python3", ["--version"])) !== null;
+const isolated = (await localIsolation()) !== null;
+
+/** Run `code` as a user program: what it printed and the error it stopped with */
+async function run(code: string) {
+    const { stdout } = await executeLocal(instrumentPython(code), "python");
+    return { output: parseTrace(stdout).map(step => step.stdout).join(""), error: parseError(stdout) };
+}
+
+// Reaches the real os module through a class loaded at startup, as no import hook can prevent.
+// Only its output is kept, so the tracer does not serialize os's globals at every step.
+const SHELL = [
+    "def shell(command):",
+    "    wrap_close = [c for c in ().__class__.__base__.__subclasses__() if c.__name__ == '_wrap_close'][0]",
+    "    return wrap_close.__init__.__globals__['popen'](command).read()",
+].join("\n");
+
+describe.skipIf(!hasPython)("Python sandbox", () => {
+    it("blocks imports of system modules, including their C counterparts", async () => {
+        for (const name of ["os", "posix", "subprocess", "_posixsubprocess", "pathlib", "builtins", "_io", "socket", "ctypes"]) {
+            const { error } = await run(`import ${name}`);
+            expect(error?.type, name).toBe("SandboxViolation");
+        }
+        expect((await run("from os import path")).error?.type).toBe("SandboxViolation");
+        expect((await run("import importlib\nimportlib.import_module('os')")).error?.type).toBe("SandboxViolation");
+    });
+
+    it("hands out sys and io without their way back to every loaded module", async () => {
+        expect((await run("import sys\nsys.modules['os']")).error?.type).toBe("AttributeError");
+        expect((await run("import sys.monitoring")).error?.type).toBe("SandboxViolation");
+        const { output, error } = await run("import sys, io\nsys.setrecursionlimit(500)\nprint(io.StringIO('ok').read(), sys.maxsize > 0)");
+        expect(error).toBeNull();
+        expect(output).toBe("ok True\n");
+    });
+
+    it("confines open() to the working directory", async () => {
+        expect((await run("open('/etc/hostname')")).error?.type).toBe("PermissionError");
+        expect((await run("open('../escape.txt', 'w')")).error?.type).toBe("PermissionError");
+        const { output, error } = await run("with open('notes.txt', 'w') as f:\n    f.write('kept')\nprint(open('notes.txt').read())");
+        expect(error).toBeNull();
+        expect(output).toBe("kept\n");
+    });
+
+    it.skipIf(!isolated)("leaves a program that gets past the hooks without network or the server's files", async () => {
+        const { output, error } = await run([
+            SHELL,
+            "print(sorted(line.split(':')[0].strip() for line in shell('cat /proc/net/dev').splitlines()[2:]))",
+            `print(repr(shell('ls -A ${process.cwd()}')))`,
+        ].join("\n"));
+        expect(error).toBeNull();
+        expect(output).toBe("['lo']\n''\n");
+    });
+});
+
+describe("Node sandbox", () => {
+    it("caps the size of files a program writes", async () => {
+        const { stderr, code } = await executeLocal("require('fs').writeFileSync('big', Buffer.alloc(8 * 1024 * 1024))", "node");
+        expect(code).not.toBe(0);
+        expect(stderr).toContain("EFBIG");
+    });
+
+    it.skipIf(!isolated)("hides the server's files", async () => {
+        const { stdout } = await executeLocal(`console.log(require('fs').readdirSync(${JSON.stringify(process.cwd())}))`, "node");
+        expect(stdout).toBe("[]\n");
+    });
+});
@@ -1,37 +1,176 @@
 /**
- * Local Python Executor
- * 
- * Executes Python code locally using child_process.
- * Used as the primary execution engine (replacing Piston API).
+ * Local Executor
+ *
+ * Executes instrumented Python or JavaScript code locally using child_process.
+ * Used as the primary execution engine (replacing Piston API). Each run is
+ * sandboxed: a throwaway working directory, a stripped environment, its own
+ * network and mount namespaces where this machine allows them, and rlimits
+ * (see ./sandbox). SANDBOX_ISOLATION=require refuses to run without the
+ * namespaces, and is the default in production; =off skips them.
  */
 
 import { execFile } from "child_process";
+import { access, constants, mkdtemp, realpath, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { ISOLATION_FLAGS, isolatedCommand, limitedCommand, pythonSandboxPreamble, SANDBOX_LIMITS, sandboxEnv } from "./sandbox";
+import { BackendHealth, ExecuteOptions, ExecutionBackend, ExecutionResult, Runtime } from "./types";
 
-export interface ExecutionResult {
-    stdout: string;
-    stderr: string;
-    code: number;
+// Interpreter command, its "run this source" flag and extra environment
+export const RUNTIMES: Record<Runtime, { command: string; flag: string; env: Record<string, string> }> = {
+    python: { command: "python3", flag: "-c", env: { PYTHONUNBUFFERED: "1" } },
+    node: { command: "node", flag: "-e", env: {} },
+};
+
+// Tools the health check looks for, with the flag that prints their version
+const TOOLS: Record<string, string> = {
+    python3: "--version",
+    node: "--version",
+    javac: "-version",
+    java: "-version",
+    "g++": "--version",
+    gdb: "--version",
+};
+
+// ─── Isolation ───
+
+interface Isolation {
+    /** unshare flags that work on this machine */
+    flags: string[];
+    /** Tool locations that must stay visible, symlinks resolved */
+    keep: string[];
 }
 
-export const executeLocal = (code: string): Promise<ExecutionResult> => {
-    return new Promise((resolve, reject) => {
-        const timeout = 15000; // 15 second timeout
-
-        const proc = execFile(
-            "python3",
-            ["-c", code],
-            {
-                timeout,
-                maxBuffer: 1024 * 1024 * 5, // 5MB
-                env: { ...process.env, PYTHONUNBUFFERED: "1" },
-            },
-            (error, stdout, stderr) => {
-                resolve({
-                    stdout: stdout || "",
-                    stderr: stderr || "",
-                    code: error?.code !== undefined ? (typeof error.code === 'number' ? error.code : 1) : 0,
-                });
-            }
+const succeeds = (command: string, args: string[]): Promise<boolean> =>
+    new Promise((resolve) => execFile(command, args, { timeout: 5000 }, (error) => resolve(!error)));
+
+/** Every path `command` is reached through on PATH: where it is found and what that links to. */
+const locate = async (command: string): Promise<string[]> => {
+    for (const dir of (process.env.PATH ?? "").split(path.delimiter).filter(Boolean)) {
+        const found = path.join(dir, command);
+        try {
+            await access(found, constants.X_OK);
+            return [found, await realpath(found)];
+        } catch {
+            // Not in this directory
+        }
+    }
+    return [];
+};
+
+/** SANDBOX_ISOLATION: auto, require or off. Production requires the namespaces, as they are the boundary. */
+const isolationMode = (): string =>
+    process.env.SANDBOX_ISOLATION ?? (process.env.NODE_ENV === "production" ? "require" : "auto");
+
+let isolation: Promise<Isolation | null> | null = null;
+
+/** How programs are isolated here, checked once; null when namespaces are unavailable or turned off. */
+export const localIsolation = (): Promise<Isolation | null> => {
+    isolation ??= (async () => {
+        if (isolationMode() === "off") return null;
+        for (const flags of ISOLATION_FLAGS) {
+            if (!(await succeeds("unshare", [...flags, "true"]))) continue;
+            const keep = (await Promise.all(Object.keys(TOOLS).map(locate))).flat();
+            return { flags, keep };
+        }
+        console.warn(
+            isolationMode() === "require"
+                ? "Local sandbox: unshare failed, so no program will run (SANDBOX_ISOLATION=require)"
+                : "Local sandbox: unshare failed; programs run WITHOUT network or mount isolation (set SANDBOX_ISOLATION=require to refuse instead)"
         );
+        return null;
+    })();
+    return isolation;
+};
+
+const REQUIRED_ISOLATION_MISSING = "SANDBOX_ISOLATION=require, but this machine cannot create namespaces (unshare failed)";
+
+export const executeLocal = async (
+    code: string,
+    runtime: Runtime = "python",
+    { resourceLimits = true, memoryLimit = resourceLimits, outputMb = SANDBOX_LIMITS.outputMb, stdin = "", signal, onStdout }: ExecuteOptions = {}
+): Promise<ExecutionResult> => {
+    const { command, flag, env } = RUNTIMES[runtime];
+    const limits = SANDBOX_LIMITS;
+    const args = [flag, code];
+    if (resourceLimits && runtime === "python") {
+        args[1] = `${pythonSandboxPreamble(limits, memoryLimit)}\n${code}`;
+    } else if (memoryLimit && runtime === "node") {
+        args.unshift(`--max-old-space-size=${limits.memoryMb}`);
+    }
+
+    const isolated = await localIsolation();
+    if (!isolated && isolationMode() === "require") {
+        return { stdout: "", stderr: REQUIRED_ISOLATION_MISSING, code: 1 };
+    }
+
+    const workdir = await mkdtemp(path.join(tmpdir(), "dryrun-"));
+    // Python sets its own rlimits in the preamble
+    const limited = resourceLimits && runtime === "node" ? limitedCommand(limits, command, args) : { command, args };
+    const run = isolated ? isolatedCommand(isolated.flags, limited.command, limited.args, [workdir, ...isolated.keep]) : limited;
+    try {
+        return await new Promise((resolve) => {
+            const child = execFile(
+                run.command,
+                run.args,
+                {
+                    cwd: workdir,
+                    timeout: limits.wallSeconds * 1000,
+                    maxBuffer: outputMb * 1024 * 1024,
+                    env: sandboxEnv(workdir, env),
+                    signal,
+                },
+                (error, stdout, stderr) => {
+                    const outputLimited = error?.code === "ERR_CHILD_PROCESS_STDIO_MAXBUFFER";
+                    const cancelled = signal?.aborted ?? false;
+                    resolve({
+                        stdout: stdout || "",
+                        // A missing interpreter fails before producing any stderr of its own
+                        stderr: stderr || (typeof error?.code === "string" && !outputLimited && !cancelled ? error.message : ""),
+                        code: error?.code !== undefined ? (typeof error.code === 'number' ? error.code : 1) : 0,
+                        signal: error?.signal ?? null,
+                        timedOut: Boolean(error?.killed) && !outputLimited && !cancelled,
+                        outputLimited,
+                        cancelled,
+                    });
+                }
+            );
+            if (onStdout) child.stdout?.on("data", (chunk: string) => onStdout(chunk));
+            // Always closed, so a read past the input fails instead of waiting for the timeout
+            child.stdin?.on("error", () => {}).end(stdin);
+        });
+    } finally {
+        await rm(workdir, { recursive: true, force: true });
+    }
+};
+
+/** First line a tool prints for its version flag (java prints to stderr), or null if it is missing. */
+export const toolVersion = (command: string, args: string[]): Promise<string | null> => {
+    return new Promise((resolve) => {
+        execFile(command, args, { timeout: 5000 }, (error, stdout, stderr) => {
+            const output = `${stdout}\n${stderr}`.trim();
+            if (error && !output) return resolve(null);
+            resolve(output.split("\n")[0].trim() || null);
+        });
     });
 };
+
+export const localBackend: ExecutionBackend = {
+    name: "local",
+    execute: executeLocal,
+    async health(): Promise<BackendHealth> {
+        const entries = await Promise.all(
+            Object.entries(TOOLS).map(async ([tool, flag]) => [tool, await toolVersion(tool, [flag])] as const)
+        );
+        const versions = Object.fromEntries(entries);
+        const isolated = await localIsolation();
+        const refused = !isolated && isolationMode() === "require";
+        return {
+            name: "local",
+            available: Object.values(versions).some((v) => v !== null) && !refused,
+            versions,
+            isolation: isolated ? "network and mount namespaces" : "none",
+            ...(refused && { error: REQUIRED_ISOLATION_MISSING }),
+        };
+    },
+};
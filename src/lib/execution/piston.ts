@@ -2,10 +2,20 @@
  * Piston API Client
  * 
  * Executes code using the Piston API.
- * Defaults to the public instance if no URL is provided.
+ * Defaults to the public instance if no URL is provided; point PISTON_URL at
+ * a self-hosted instance's /execute endpoint to use that instead.
  */
 
+import { BackendHealth, ExecuteOptions, ExecutionBackend, ExecutionResult, Runtime } from "./types";
+
 const PISTON_URL = process.env.PISTON_URL || "https://emkc.org/api/v2/piston/execute";
+const PISTON_RUNTIMES_URL = PISTON_URL.replace(/\/execute\/?$/, "/runtimes");
+
+// Piston language names for our runtimes, and the tool name health reports them under
+const PISTON_LANGUAGES: Record<Runtime, { language: string; tool: string }> = {
+    python: { language: "python", tool: "python3" },
+    node: { language: "javascript", tool: "node" },
+};
 
 export interface PistonResult {
     stdout: string;
@@ -17,15 +27,19 @@ export interface PistonResult {
 export const executePiston = async (
     language: string,
     version: string,
-    content: string
+    content: string,
+    stdin = "",
+    signal?: AbortSignal
 ): Promise<PistonResult> => {
     const response = await fetch(PISTON_URL, {
         method: "POST",
+        signal,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
             language,
             version: version || "*",
             files: [{ content }],
+            stdin,
         }),
     });
 
@@ -36,3 +50,29 @@ export const executePiston = async (
     const data = await response.json();
     return data.run;
 };
+
+export const pistonBackend: ExecutionBackend = {
+    name: "piston",
+    // Piston only answers once the program has exited, so "streaming" delivers everything at the end
+    async execute(code: string, runtime: Runtime, { stdin, signal, onStdout }: ExecuteOptions = {}): Promise<ExecutionResult> {
+        const result = await executePiston(PISTON_LANGUAGES[runtime].language, "*", code, stdin, signal);
+        const stdout = result.stdout ?? "";
+        onStdout?.(stdout);
+        return { stdout, stderr: result.stderr ?? "", code: result.code ?? 1, signal: result.signal };
+    },
+    async health(): Promise<BackendHealth> {
+        const versions: Record<string, string | null> = { python3: null, node: null };
+        try {
+            const response = await fetch(PISTON_RUNTIMES_URL, { signal: AbortSignal.timeout(5000) });
+            if (!response.ok) throw new Error(`Piston API error: ${response.statusText}`);
+            const runtimes: { language: string; version: string }[] = await response.json();
+            for (const { language, tool } of Object.values(PISTON_LANGUAGES)) {
+                versions[tool] = runtimes.find((r) => r.language === language)?.version ?? null;
+            }
+            return { name: "piston", available: true, versions };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : "Piston is unreachable";
+            return { name: "piston", available: false, versions, error: message };
+        }
+    },
+};
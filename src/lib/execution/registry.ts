@@ -0,0 +1,33 @@
+/**
+ * Execution backend registry
+ *
+ * EXECUTION_BACKEND picks the backend (local, piston or docker; default
+ * local) so a deployment can swap where code runs without code changes.
+ */
+
+import { dockerBackend } from "./docker";
+import { localBackend } from "./local";
+import { pistonBackend } from "./piston";
+import { ExecutionBackend } from "./types";
+
+const BACKENDS: Record<string, ExecutionBackend> = {
+    local: localBackend,
+    piston: pistonBackend,
+    docker: dockerBackend,
+};
+
+export const DEFAULT_BACKEND = "local";
+
+export const configuredBackendName = (): string =>
+    (process.env.EXECUTION_BACKEND || DEFAULT_BACKEND).trim().toLowerCase();
+
+export const getBackend = (): ExecutionBackend => {
+    const name = configuredBackendName();
+    const backend = Object.hasOwn(BACKENDS, name) ? BACKENDS[name] : null;
+    if (!backend) {
+        throw new Error(`Unknown EXECUTION_BACKEND "${name}" (expected one of: ${Object.keys(BACKENDS).join(", ")})`);
+    }
+    return backend;
+};
+
+export const listBackends = (): ExecutionBackend[] => Object.values(BACKENDS);
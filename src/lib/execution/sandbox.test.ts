@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { isolatedCommand, limitedCommand, limitsForBudget, limitViolation, SANDBOX_LIMITS, SandboxLimits } from "./sandbox";
+import { ExecutionResult } from "./types";
+
+const LIMITS: SandboxLimits = { memoryMb: 256, cpuSeconds: 10, fileSizeMb: 5, wallSeconds: 15, outputMb: 5 };
+
+describe("limitsForBudget", () => {
+    it("keeps the base output limit for small budgets", () => {
+        expect(limitsForBudget(500, LIMITS)).toEqual(LIMITS);
+    });
+
+    it("grows the output limit with the step budget", () => {
+        expect(limitsForBudget(20000, LIMITS)).toEqual({ ...LIMITS, outputMb: 40 });
+        expect(limitsForBudget(3000).outputMb).toBeGreaterThanOrEqual(SANDBOX_LIMITS.outputMb);
+    });
+});
+
+describe("limitedCommand", () => {
+    it("sets the CPU and file-size limits in a shell, then execs the command", () => {
+        const { command, args } = limitedCommand(LIMITS, "node", ["-e", "1"]);
+        expect(command).toBe("sh");
+        expect(args.slice(2)).toEqual(["sh", "node", "-e", "1"]);
+        const script = args[1];
+        expect(script).toContain("ulimit -t 11");
+        expect(script).toContain("ulimit -S -t 10");
+        // 5 MB in 512-byte blocks
+        expect(script).toContain("ulimit -f 10240");
+        expect(script.endsWith('exec "$@"')).toBe(true);
+    });
+});
+
+describe("isolatedCommand", () => {
+    it("runs the command through unshare with loopback up", () => {
+        const { command, args } = isolatedCommand(["--net"], "python3", ["-c", "pass"], [], []);
+        expect(command).toBe("unshare");
+        expect(args).toEqual(["--net", "--", "sh", "-c", 'ip link set lo up 2>/dev/null; exec "$@"', "sh", "python3", "-c", "pass"]);
+    });
+
+    it("hides directories unless they hold something the program needs", () => {
+        const { args } = isolatedCommand(["--mount"], "node", [], ["/home/app/.nvm/bin/node"], ["/root", "/home", "/srv/it's"]);
+        const script = args[args.indexOf("-c") + 1];
+        expect(script).toContain("mount -t tmpfs -o size=1m tmpfs '/root'");
+        expect(script).not.toContain("'/home'");
+        expect(script).toContain("'/srv/it'\\''s'");
+    });
+
+    it("does not mistake a sibling with a common prefix for a parent", () => {
+        const { args } = isolatedCommand([], "node", [], ["/rootfs/bin/node"], ["/root"]);
+        expect(args.join(" ")).toContain("tmpfs '/root'");
+    });
+});
+
+describe("limitViolation", () => {
+    const ok: ExecutionResult = { stdout: "", stderr: "", code: 0 };
+
+    it("returns null for runs within the limits", () => {
+        expect(limitViolation(ok, null, 3, LIMITS)).toBeNull();
+        expect(limitViolation({ ...ok, code: 1 }, { type: "ValueError", message: "", line: 2, traceback: [] }, 2, LIMITS)).toBeNull();
+    });
+
+    it("keeps the line and traceback of a MemoryError the tracer reported", () => {
+        const reported = { type: "MemoryError", message: "", line: 4, traceback: [{ name: "f", line: 4 }] };
+        expect(limitViolation({ ...ok, code: 1 }, reported, 9, LIMITS)).toEqual({
+            ...reported,
+            type: "MemoryLimitExceeded",
+            message: "memory limit exceeded (256 MB)",
+        });
+    });
+
+    it("points other violations at the last traced line", () => {
+        const cases: Array<[Partial<ExecutionResult>, string, string]> = [
+            [{ outputLimited: true }, "OutputLimitExceeded", "output limit exceeded (5 MB)"],
+            [{ timedOut: true }, "TimeLimitExceeded", "time limit exceeded (15s)"],
+            [{ signal: "SIGXCPU" }, "CpuLimitExceeded", "CPU time limit exceeded (10s)"],
+            [{ signal: "SIGXFSZ" }, "FileSizeLimitExceeded", "file size limit exceeded (5 MB)"],
+            [{ stderr: "FATAL ERROR: ... JavaScript heap out of memory" }, "MemoryLimitExceeded", "memory limit exceeded (256 MB)"],
+            [{ signal: "SIGKILL" }, "Killed", "the program was killed, most likely for using too much memory"],
+        ];
+        for (const [result, type, message] of cases) {
+            expect(limitViolation({ ...ok, ...result }, null, 7, LIMITS)).toEqual({ type, message, line: 7, traceback: [] });
+        }
+    });
+
+    it("reports the output limit the run was given", () => {
+        const limits = limitsForBudget(20000, LIMITS);
+        expect(limitViolation({ ...ok, outputLimited: true }, null, null, limits)?.message).toBe("output limit exceeded (40 MB)");
+    });
+});
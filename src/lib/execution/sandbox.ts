@@ -0,0 +1,202 @@
+/**
+ * Sandbox policy for the local runner
+ *
+ * Programs run in a fresh temp directory with a stripped environment and,
+ * where the kernel allows unprivileged namespaces, in their own network and
+ * mount namespaces: no network beyond loopback, and the server's checkout
+ * and home directories hidden behind empty mounts. That is the boundary.
+ * Every program also gets CPU and file-size rlimits: Python ones (including
+ * the Java and C++ drivers) from a preamble, Node ones from a shell
+ * wrapper. Python gets a memory cap when the language allows one, Node a
+ * capped heap.
+ *
+ * On top of that, user Python code gets a blocked-import list, stand-ins for
+ * sys and io, and an open() confined to its working directory. These only
+ * keep honest programs honest: Python offers too many ways back to the real
+ * modules (object.__subclasses__, module globals) for a hook to be a wall.
+ * Compiled Java and C++ programs get no such layer at all; they can read
+ * whatever the namespaces leave visible.
+ *
+ * Hitting a limit is turned into a structured error instead of an empty
+ * trace. Limits are configurable through SANDBOX_* env vars.
+ */
+
+import path from "path";
+import { ExecutionError } from "@/lib/interpreter/schema";
+import { ExecutionResult } from "./types";
+
+export interface SandboxLimits {
+    memoryMb: number;
+    cpuSeconds: number;
+    fileSizeMb: number;
+    wallSeconds: number;
+    outputMb: number;
+}
+
+const envNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const SANDBOX_LIMITS: SandboxLimits = {
+    memoryMb: envNumber("SANDBOX_MEMORY_MB", 256),
+    cpuSeconds: envNumber("SANDBOX_CPU_SECONDS", 10),
+    fileSizeMb: envNumber("SANDBOX_FILE_SIZE_MB", 5),
+    wallSeconds: envNumber("SANDBOX_WALL_SECONDS", 15),
+    outputMb: 5,
+};
+
+// Trace output allowed per recorded step; a small program's steps take about 0.8 KB each
+const OUTPUT_KB_PER_STEP = 2;
+
+/** Limits for a run that records up to `maxSteps` steps: the output limit grows with the budget. */
+export const limitsForBudget = (maxSteps: number, limits: SandboxLimits = SANDBOX_LIMITS): SandboxLimits => ({
+    ...limits,
+    outputMb: Math.max(limits.outputMb, Math.ceil((maxSteps * OUTPUT_KB_PER_STEP) / 1024)),
+});
+
+/** Top-level modules user code may not import (system, process, file and network access, introspection) */
+export const BLOCKED_IMPORTS = [
+    "os", "posix", "nt", "posixpath", "ntpath", "subprocess", "_posixsubprocess", "shutil", "pty", "signal", "resource",
+    "pathlib", "glob", "tempfile", "_io", "builtins",
+    "socket", "_socket", "ssl", "http", "urllib", "ftplib", "smtplib", "telnetlib", "requests",
+    "ctypes", "cffi", "multiprocessing", "importlib", "runpy", "gc", "inspect",
+    "pickle", "_pickle", "marshal", "shelve",
+];
+
+/**
+ * Modules user code gets a stand-in for, holding only these attributes of the
+ * real one: enough for sys.stdin and sys.setrecursionlimit, not sys.modules.
+ */
+export const RESTRICTED_MODULES: Record<string, string[]> = {
+    sys: [
+        "stdin", "stdout", "stderr", "argv", "exit", "maxsize", "maxunicode", "float_info", "int_info",
+        "byteorder", "version", "version_info", "hexversion", "platform", "implementation",
+        "getrecursionlimit", "setrecursionlimit", "getsizeof", "intern", "get_int_max_str_digits",
+        "set_int_max_str_digits",
+    ],
+    io: ["StringIO", "BytesIO", "SEEK_SET", "SEEK_CUR", "SEEK_END"],
+};
+
+/**
+ * Python run ahead of the instrumented program: rlimits, then no sockets for
+ * anyone. Without `memory` there is no address-space cap, which the JVM and
+ * gdb would not start under.
+ */
+export const pythonSandboxPreamble = (limits: SandboxLimits, memory = true): string => `
+import resource as __resource__
+import sys as __sys__
+
+def __set_limit__(kind, value, hard=None):
+    try:
+        __resource__.setrlimit(kind, (value, value if hard is None else hard))
+    except (ValueError, OSError):
+        pass
+
+${memory ? `__set_limit__(__resource__.RLIMIT_AS, ${Math.round(limits.memoryMb * 1024 * 1024)})` : ""}
+# The hard CPU limit sits a second later so the soft one's SIGXCPU arrives first
+__set_limit__(__resource__.RLIMIT_CPU, ${Math.ceil(limits.cpuSeconds)}, ${Math.ceil(limits.cpuSeconds) + 1})
+__set_limit__(__resource__.RLIMIT_FSIZE, ${Math.round(limits.fileSizeMb * 1024 * 1024)})
+__set_limit__(__resource__.RLIMIT_CORE, 0)
+__sys__.modules["socket"] = None
+__sys__.modules["_socket"] = None
+del __set_limit__, __resource__, __sys__
+`.trim();
+
+/**
+ * Run `command` under the CPU and file-size rlimits of the Python preamble,
+ * for interpreters that cannot set their own. ulimit -f counts 512-byte
+ * blocks in POSIX shells; a limit that cannot be lowered is left as it is.
+ */
+export const limitedCommand = (
+    limits: SandboxLimits,
+    command: string,
+    args: string[],
+): { command: string; args: string[] } => {
+    const cpu = Math.ceil(limits.cpuSeconds);
+    const script = [
+        `ulimit -t ${cpu + 1} 2>/dev/null`,
+        `ulimit -S -t ${cpu} 2>/dev/null`,
+        `ulimit -f ${Math.round((limits.fileSizeMb * 1024 * 1024) / 512)} 2>/dev/null`,
+        "ulimit -c 0 2>/dev/null",
+        'exec "$@"',
+    ].join("; ");
+    return { command: "sh", args: ["-c", script, "sh", command, ...args] };
+};
+
+/** Only what an interpreter needs; nothing from the server's own environment leaks through. */
+export const sandboxEnv = (workdir: string, extra: Record<string, string>): NodeJS.ProcessEnv => ({
+    PATH: process.env.PATH || "/usr/local/bin:/usr/bin:/bin",
+    HOME: workdir,
+    TMPDIR: workdir,
+    LANG: "C.UTF-8",
+    NODE_ENV: process.env.NODE_ENV,
+    ...extra,
+});
+
+// ─── Namespaces ───
+
+/** unshare flags to try, in order: as root, then through a user namespace */
+export const ISOLATION_FLAGS = [
+    ["--net", "--mount"],
+    ["--user", "--map-root-user", "--net", "--mount"],
+];
+
+/** Directories hidden from programs: home directories and the server's own checkout (SANDBOX_HIDDEN_PATHS adds more) */
+export const hiddenPaths = (): string[] => [
+    "/root",
+    "/home",
+    process.cwd(),
+    ...(process.env.SANDBOX_HIDDEN_PATHS ?? "").split(",").map((p) => p.trim()).filter(Boolean),
+];
+
+const isInside = (child: string, dir: string): boolean => {
+    const relative = path.relative(dir, child);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+};
+
+const shellQuote = (value: string): string => `'${value.replace(/'/g, "'\\''")}'`;
+
+/**
+ * Wrap `command` to run through unshare: loopback is brought up (the JDI
+ * tracer talks to its JVM over it) and every hidden directory gets an empty
+ * tmpfs on top, except those holding the working directory or a tool the
+ * program needs, which would then not start.
+ */
+export const isolatedCommand = (
+    flags: string[],
+    command: string,
+    args: string[],
+    keep: string[],
+    hidden: string[] = hiddenPaths(),
+): { command: string; args: string[] } => {
+    const mounts = hidden
+        .filter((dir) => !keep.some((kept) => isInside(kept, dir)))
+        .map((dir) => `mount -t tmpfs -o size=1m tmpfs ${shellQuote(dir)} 2>/dev/null`);
+    const script = ["ip link set lo up 2>/dev/null", ...mounts, 'exec "$@"'].join("; ");
+    return { command: "unshare", args: [...flags, "--", "sh", "-c", script, "sh", command, ...args] };
+};
+
+/**
+ * Turn a run that hit a sandbox limit into a structured error. A MemoryError
+ * reported by the tracer keeps its line and traceback; other violations point
+ * at the last line that was traced.
+ */
+export const limitViolation = (
+    result: ExecutionResult,
+    reported: ExecutionError | null,
+    lastLine: number | null,
+    limits: SandboxLimits = SANDBOX_LIMITS,
+): ExecutionError | null => {
+    const violation = (type: string, message: string): ExecutionError => ({ type, message, line: lastLine, traceback: [] });
+    const memory = `memory limit exceeded (${limits.memoryMb} MB)`;
+
+    if (reported?.type === "MemoryError") return { ...reported, type: "MemoryLimitExceeded", message: memory };
+    if (result.outputLimited) return violation("OutputLimitExceeded", `output limit exceeded (${limits.outputMb} MB)`);
+    if (result.timedOut) return violation("TimeLimitExceeded", `time limit exceeded (${limits.wallSeconds}s)`);
+    if (result.signal === "SIGXCPU") return violation("CpuLimitExceeded", `CPU time limit exceeded (${limits.cpuSeconds}s)`);
+    if (result.signal === "SIGXFSZ") return violation("FileSizeLimitExceeded", `file size limit exceeded (${limits.fileSizeMb} MB)`);
+    if (/JavaScript heap out of memory|MemoryError/.test(result.stderr)) return violation("MemoryLimitExceeded", memory);
+    if (result.signal === "SIGKILL") return violation("Killed", "the program was killed, most likely for using too much memory");
+    return null;
+};
@@ -0,0 +1,58 @@
+/**
+ * Execution backend contract
+ *
+ * Every way of running instrumented code (local processes, a Piston
+ * instance, Docker containers) implements ExecutionBackend, so the API
+ * route can switch between them through configuration alone.
+ */
+
+/** Interpreter the instrumented program is written for */
+export type Runtime = "python" | "node";
+
+export interface ExecutionResult {
+    stdout: string;
+    stderr: string;
+    code: number;
+    /** Signal that ended the process, if any (SIGXCPU, SIGKILL, ...) */
+    signal?: string | null;
+    /** Killed for running past the wall-clock budget */
+    timedOut?: boolean;
+    /** Killed for printing more than the output buffer holds */
+    outputLimited?: boolean;
+    /** Stopped through ExecuteOptions.signal */
+    cancelled?: boolean;
+}
+
+export interface ExecuteOptions {
+    /** Apply CPU/file-size rlimits (and the memory cap, unless memoryLimit says otherwise) */
+    resourceLimits?: boolean;
+    /**
+     * Cap memory; defaults to resourceLimits. Off for the Java and C++ drivers:
+     * the JVM and gdb reserve far more address space than the cap allows.
+     */
+    memoryLimit?: boolean;
+    /** Stdout kept before the program is killed, in MB; defaults to the sandbox's base limit */
+    outputMb?: number;
+    /** Fed to the program's standard input, which is then closed */
+    stdin?: string;
+    /** Aborting kills the program */
+    signal?: AbortSignal;
+    /** Receives stdout as it is produced; backends that cannot stream call it once at the end */
+    onStdout?: (chunk: string) => void;
+}
+
+export interface BackendHealth {
+    name: string;
+    available: boolean;
+    /** Tool name (python3, node, javac, g++, ...) -> version, or null when missing */
+    versions: Record<string, string | null>;
+    /** What keeps programs apart from the host beyond rlimits, e.g. "network and mount namespaces" or "none" */
+    isolation?: string;
+    error?: string;
+}
+
+export interface ExecutionBackend {
+    name: string;
+    execute(code: string, runtime: Runtime, options?: ExecuteOptions): Promise<ExecutionResult>;
+    health(): Promise<BackendHealth>;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { step, traceOf } from "@/test/traces";
+import { annotateGraph, findActiveEdge, formatAnnotation, GraphEdge, hasEdge, parseGraph } from "./graphModel";
+import { detectVizType } from "./vizDetector";
+
+const pairs = (edges: GraphEdge[]) => edges.map(e => (e.weight === null ? [e.from, e.to] : [e.from, e.to, e.weight]));
+
+describe("parseGraph", () => {
+    it("reads an adjacency list, dropping the reverse twins of undirected edges", () => {
+        const graph = parseGraph("graph", { 0: [1, 2], 1: [0], 2: [0] })!;
+        expect(graph).toMatchObject({ nodes: ["0", "1", "2"], directed: false, weighted: false });
+        expect(pairs(graph.edges)).toEqual([["0", "1"], ["0", "2"]]);
+    });
+
+    it("reads (neighbor, weight) pairs and weighted adjacency dicts", () => {
+        const pairsGraph = parseGraph("adj", { a: [["b", 4]], b: [["a", 4], ["c", 1]], c: [["b", 1]] })!;
+        expect(pairsGraph).toMatchObject({ directed: false, weighted: true });
+        expect(pairs(pairsGraph.edges)).toEqual([["a", "b", 4], ["b", "c", 1]]);
+
+        const dictGraph = parseGraph("graph", { A: { B: 1, C: 5 }, B: { C: 2 }, C: {} })!;
+        expect(dictGraph).toMatchObject({ nodes: ["A", "B", "C"], directed: true, weighted: true });
+        expect(pairs(dictGraph.edges)).toEqual([["A", "B", 1], ["A", "C", 5], ["B", "C", 2]]);
+    });
+
+    it("calls a graph directed when an edge has no twin, or its twin another weight", () => {
+        expect(parseGraph("graph", { 0: [1], 1: [2], 2: [] })!.directed).toBe(true);
+        expect(parseGraph("graph", { a: { b: 1 }, b: { a: 2 } })!.directed).toBe(true);
+        expect(parseGraph("graph", { a: { b: 1 }, b: { a: 1 } })!.directed).toBe(false);
+    });
+
+    it("reads edge lists by name, directed when the name says so", () => {
+        const edges = parseGraph("edges", [[0, 1], [1, 2], [2, 0]])!;
+        expect(edges).toMatchObject({ nodes: ["0", "1", "2"], directed: false, weighted: false });
+        const prerequisites = parseGraph("prerequisites", [[1, 0], [2, 1]])!;
+        expect(prerequisites.directed).toBe(true);
+        expect(pairs(parseGraph("road_edges", [["a", "b", 3], ["b", "c", 4]])!.edges)).toEqual([["a", "b", 3], ["b", "c", 4]]);
+        expect(parseGraph("pairs", [[0, 1], [1, 2]])).toBeNull();
+    });
+
+    it("reads adjacency matrices by name, with 0, inf and the diagonal as no edge", () => {
+        const graph = parseGraph("graph", [[0, 4, "inf"], [4, 0, 2], ["inf", 2, 0]])!;
+        expect(graph).toMatchObject({ nodes: ["0", "1", "2"], directed: false, weighted: true });
+        expect(pairs(graph.edges)).toEqual([["0", "1", 4], ["1", "2", 2]]);
+        expect(parseGraph("adj", [[0, 1], [0, 0]])).toMatchObject({ directed: true, weighted: false });
+        expect(parseGraph("grid", [[0, 1], [1, 0]])).toBeNull();
+    });
+
+    it("rejects tables of scores and lists of intervals", () => {
+        expect(parseGraph("scores", { alice: { math: 90, art: 70 }, bob: { math: 80 } })).toBeNull();
+        expect(parseGraph("edges", [[1, 3], [2, 6], [8, 10]])).toBeNull();
+        expect(parseGraph("times", [[2, 1, 1], [2, 3, 1], [3, 4, 1]])).toBeNull();
+        expect(parseGraph("counts", { a: 1, b: 2 })).toBeNull();
+        expect(parseGraph("root", { __type__: "tree", root: null })).toBeNull();
+    });
+});
+
+describe("hasEdge", () => {
+    it("follows undirected edges both ways and directed ones forward only", () => {
+        const undirected = parseGraph("graph", { 0: [1], 1: [0] })!;
+        expect(hasEdge(undirected, "1", "0")).toBe(true);
+        const directed = parseGraph("graph", { 0: [1], 1: [] })!;
+        expect(hasEdge(directed, "0", "1")).toBe(true);
+        expect(hasEdge(directed, "1", "0")).toBe(false);
+    });
+});
+
+// A → B (4), A → C (1), C → B (2)
+const weighted = parseGraph("graph", { A: { B: 4, C: 1 }, B: {}, C: { B: 2 } })!;
+
+describe("findActiveEdge", () => {
+    it("marks the current node's edge to a node whose distance dropped as relaxed", () => {
+        const before = step({ stack: { dist: { A: 0, B: "inf", C: "inf" }, u: "A" } });
+        const after = step({ stack: { dist: { A: 0, B: 4, C: "inf" }, u: "A" } });
+        expect(findActiveEdge(weighted, after, before)).toEqual({ from: "A", to: "B", relaxed: true });
+    });
+
+    it("finds the edge that explains a lowered distance when no variable names the current node", () => {
+        const before = step({ stack: { dist: { A: 0, B: 4, C: 1 } } });
+        const after = step({ stack: { dist: { A: 0, B: 3, C: 1 } } });
+        expect(findActiveEdge(weighted, after, before)).toEqual({ from: "C", to: "B", relaxed: true });
+        // u has no edge into B, so the distances still decide
+        const withU = step({ stack: { dist: { A: 0, B: 3, C: 1 }, u: "B" } });
+        expect(findActiveEdge(weighted, withU, before)).toEqual({ from: "C", to: "B", relaxed: true });
+    });
+
+    it("reads list distances with unweighted edges counting 1", () => {
+        const graph = parseGraph("graph", { 0: [1], 1: [2], 2: [] })!;
+        const before = step({ stack: { distance: [0, 1, "inf"] } });
+        const after = step({ stack: { distance: [0, 1, 2] } });
+        expect(findActiveEdge(graph, after, before)).toEqual({ from: "1", to: "2", relaxed: true });
+    });
+
+    it("falls back to the u/v edge, unrelaxed, when no distance dropped", () => {
+        const stack = { dist: { A: 0, B: 3, C: 1 }, node: "A", neighbor: "C" };
+        expect(findActiveEdge(weighted, step({ stack }), step({ stack }))).toEqual({ from: "A", to: "C", relaxed: false });
+        expect(findActiveEdge(weighted, step({ stack: { u: "A", v: "C" } }), null)).toEqual({ from: "A", to: "C", relaxed: false });
+    });
+
+    it("returns null when the node variables are not joined by an edge", () => {
+        expect(findActiveEdge(weighted, step({ stack: { u: "B", v: "A" } }), null)).toBeNull();
+    });
+});
+
+describe("annotateGraph", () => {
+    it("badges per-node tables and marks the entries that changed", () => {
+        const before = step({ stack: { dist: { A: 0, B: 4, C: 1 } } });
+        const after = step({ stack: { dist: { A: 0, B: 3, C: 1 }, indegree: [1, 2], level: { A: 0, Z: 1 } } });
+        const { badges, vars } = annotateGraph(weighted, after, before);
+        expect(badges).toEqual([{ name: "dist", values: { A: 0, B: 3, C: 1 }, changed: new Set(["B"]) }]);
+        // indegree has the wrong length and level a key that is no node
+        expect(vars).toEqual(["dist"]);
+    });
+
+    it("marks nothing changed on the first step", () => {
+        const { badges } = annotateGraph(weighted, step({ stack: { color: { A: "gray", B: "white" } } }), null);
+        expect(badges[0].changed).toEqual(new Set());
+    });
+
+    it("turns a parent table into parent → child links, skipping roots", () => {
+        const graph = parseGraph("graph", { 0: [1, 2], 1: [0], 2: [0] })!;
+        const after = step({ stack: { parent: [-1, 0, 0], prev: { 0: null, 1: 0, 2: 1 } } });
+        const { parents, badges, vars } = annotateGraph(graph, after, null);
+        expect(parents).toEqual({ name: "parent", links: [{ from: "0", to: "1" }, { from: "0", to: "2" }] });
+        // Only the first parent table is used
+        expect(vars).toEqual(["parent"]);
+        expect(badges).toEqual([]);
+    });
+});
+
+describe("formatAnnotation", () => {
+    it("writes infinities, missing values and booleans compactly", () => {
+        expect(["inf", "-Infinity", null, true, false, "gray", 3, [1, 2]].map(formatAnnotation))
+            .toEqual(["∞", "-∞", "—", "T", "F", "gray", "3", "[1,2]"]);
+    });
+});
+
+describe("detectVizType graphs", () => {
+    it("picks up an adjacency list", () => {
+        expect(detectVizType(traceOf({ graph: { a: ["b"], b: ["a"] } }))).toMatchObject({ type: "graph", primaryVar: "graph" });
+    });
+
+    it("leaves score tables and interval lists alone", () => {
+        const scores = detectVizType(traceOf({ scores: { alice: { math: 90, art: 70 }, bob: { math: 80 } } }));
+        expect(scores.type).not.toBe("graph");
+        const times = detectVizType(traceOf({ times: [[1, 3], [2, 6], [8, 10]] }));
+        expect(times.type).not.toBe("graph");
+    });
+});
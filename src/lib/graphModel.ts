@@ -0,0 +1,291 @@
+/**
+ * graphModel.ts — Normalize the ways programs store graphs into one edge list.
+ *
+ * Accepted forms:
+ *  - adjacency list      { 0: [1, 2] }
+ *  - weighted adj. list  { 0: [(1, 4), (2, 1)] }   (neighbor, weight) pairs
+ *  - weighted adj. dict  { 0: { 1: 4, 2: 1 } }       — neighbors must be nodes too
+ *  - edge list           edges = [(u, v)] or [(u, v, w)]   — recognized by name, edges must share nodes
+ *  - adjacency matrix    graph = [[0, 4], [4, 0]]          — recognized by name
+ *
+ * A graph is directed when some edge has no reverse twin. Edge lists carry
+ * no such hint, so they count as undirected unless their name says otherwise.
+ *
+ * Per-node tables living next to a graph (dist, indegree, color, parent...)
+ * are read as annotations so the views can draw them on the nodes.
+ */
+
+import { TraceStep } from "./interpreter/schema";
+
+export interface GraphEdge {
+    from: string;
+    to: string;
+    weight: unknown;
+}
+
+export interface GraphModel {
+    nodes: string[];
+    edges: GraphEdge[];
+    directed: boolean;
+    weighted: boolean;
+}
+
+/** The edge the algorithm is working on this step */
+export interface ActiveEdge {
+    from: string;
+    to: string;
+    /** The step lowered the target's distance through this edge */
+    relaxed: boolean;
+}
+
+/** A per-node table drawn as a badge on each node */
+export interface NodeAnnotation {
+    name: string;
+    values: Record<string, unknown>;
+    /** Nodes whose value differs from the previous step */
+    changed: Set<string>;
+}
+
+export interface GraphAnnotations {
+    badges: NodeAnnotation[];
+    /** parent → child links of a parent/predecessor table: the search tree */
+    parents: { name: string; links: Array<{ from: string; to: string }> } | null;
+    /** Variables consumed as annotations, so they are not drawn again on their own */
+    vars: string[];
+}
+
+const EDGE_LIST_NAMES = /^(edges|edge_list|edgelist|connections|roads|flights|prerequisites|arcs)$|_edges$/i;
+const DIRECTED_EDGE_LIST_NAMES = /prereq|depend|directed|flights|arcs/i;
+// Share of a dict-of-dicts' inner keys that must be outer keys too: { alice: { math: 90 } } is a table, not a graph
+const MIN_NEIGHBOR_OVERLAP = 0.5;
+const MATRIX_NAMES = /^(graph|adj|g|adj_matrix|adjacency|adjacency_matrix)$/i;
+
+const BADGE_NAMES = /^(dist|distance|distances|cost|costs|indegree|in_degree|indeg|outdegree|out_degree|degree|color|colors|colour|colours|level|levels|depth|disc|low)$/i;
+const PARENT_NAMES = /^(parent|parents|pred|preds|predecessor|predecessors|prev|previous|came_from)$/i;
+
+const DISTANCE_NAMES = ["dist", "distance", "distances", "d", "cost", "costs", "best", "shortest"];
+const FROM_NAMES = ["u", "node", "curr", "current", "cur", "vertex", "src"];
+const TO_NAMES = ["v", "neighbor", "neighbour", "nei", "nbr", "next_node", "nxt", "adj_node", "dest"];
+
+function isNodeId(val: unknown): val is string | number {
+    return typeof val === "string" || (typeof val === "number" && Number.isInteger(val));
+}
+
+/** 0, false, null and infinities mean "no edge" in a matrix. */
+function isMatrixEdge(cell: unknown): boolean {
+    if (cell === 0 || cell === false || cell === null) return false;
+    if (typeof cell === "string") return !/^-?inf(inity)?$/i.test(cell);
+    return typeof cell === "number" || cell === true;
+}
+
+/** Neighbors of one adjacency entry, or null when the entry is not one */
+function entryEdges(from: string, value: unknown): GraphEdge[] | null {
+    if (Array.isArray(value)) {
+        const edges: GraphEdge[] = [];
+        for (const item of value) {
+            if (isNodeId(item)) edges.push({ from, to: String(item), weight: null });
+            else if (Array.isArray(item) && item.length === 2 && isNodeId(item[0]) && typeof item[1] === "number") {
+                edges.push({ from, to: String(item[0]), weight: item[1] });
+            } else return null;
+        }
+        return edges;
+    }
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value as Record<string, unknown>);
+        if (entries.length === 0 || !entries.every(([, w]) => typeof w === "number")) return null;
+        return entries.map(([to, weight]) => ({ from, to, weight }));
+    }
+    return null;
+}
+
+function fromAdjacency(adj: Record<string, unknown>): GraphModel | null {
+    const entries = Object.entries(adj);
+    if (entries.length < 2) return null;
+    const edges: GraphEdge[] = [];
+    let valid = 0;
+    for (const [from, value] of entries) {
+        const neighbors = entryEdges(from, value);
+        if (!neighbors) continue;
+        valid++;
+        edges.push(...neighbors);
+    }
+    if (valid / entries.length < 0.6) return null;
+    const nodes = entries.map(([key]) => key);
+    if (entries.some(([, value]) => value !== null && typeof value === "object" && !Array.isArray(value))) {
+        const neighbors = new Set(edges.map(e => e.to));
+        const known = [...neighbors].filter(node => nodes.includes(node)).length;
+        if (known < neighbors.size * MIN_NEIGHBOR_OVERLAP) return null;
+    }
+    return finish(nodes, edges, null);
+}
+
+function fromEdgeList(name: string, list: unknown[]): GraphModel | null {
+    if (list.length === 0) return null;
+    const edges: GraphEdge[] = [];
+    for (const item of list) {
+        if (!Array.isArray(item) || item.length < 2 || item.length > 3) return null;
+        if (!isNodeId(item[0]) || !isNodeId(item[1])) return null;
+        edges.push({ from: String(item[0]), to: String(item[1]), weight: item.length === 3 ? item[2] : null });
+    }
+    // Edges that never meet are pairs of something else, like intervals
+    const endpoints = new Set(edges.flatMap(e => [e.from, e.to]));
+    if (edges.length > 1 && endpoints.size === edges.length * 2) return null;
+    return finish([], edges, DIRECTED_EDGE_LIST_NAMES.test(name));
+}
+
+function fromMatrix(matrix: unknown[]): GraphModel | null {
+    const n = matrix.length;
+    if (n < 2 || !matrix.every(row => Array.isArray(row) && row.length === n)) return null;
+    const edges: GraphEdge[] = [];
+    let weighted = false;
+    matrix.forEach((row, i) => (row as unknown[]).forEach((cell, j) => {
+        if (i === j || !isMatrixEdge(cell)) return;
+        if (cell !== 1 && cell !== true) weighted = true;
+        edges.push({ from: String(i), to: String(j), weight: cell });
+    }));
+    if (!weighted) edges.forEach(e => { e.weight = null; });
+    return finish(matrix.map((_, i) => String(i)), edges, null);
+}
+
+/** Add endpoints missing from `nodes`, work out direction and drop reverse twins of undirected edges. */
+function finish(nodes: string[], edges: GraphEdge[], directed: boolean | null): GraphModel {
+    const allNodes = [...nodes];
+    for (const e of edges) {
+        if (!allNodes.includes(e.from)) allNodes.push(e.from);
+        if (!allNodes.includes(e.to)) allNodes.push(e.to);
+    }
+    const key = (e: GraphEdge) => `${e.from}\u0000${e.to}`;
+    const byKey = new Map(edges.map(e => [key(e), e]));
+    const isDirected = directed ?? edges.some(e => {
+        const twin = byKey.get(`${e.to}\u0000${e.from}`);
+        return !twin || JSON.stringify(twin.weight) !== JSON.stringify(e.weight);
+    });
+
+    const kept: GraphEdge[] = [];
+    const seen = new Set<string>();
+    for (const e of edges) {
+        const id = isDirected ? key(e) : [e.from, e.to].sort().join("\u0000");
+        if (seen.has(id)) continue;
+        seen.add(id);
+        kept.push(e);
+    }
+    return {
+        nodes: allNodes,
+        edges: kept,
+        directed: isDirected,
+        weighted: kept.some(e => e.weight !== null),
+    };
+}
+
+/** Read a variable as a graph, or null when it is not one. */
+export function parseGraph(name: string, val: unknown): GraphModel | null {
+    if (Array.isArray(val)) {
+        if (EDGE_LIST_NAMES.test(name)) return fromEdgeList(name, val);
+        if (MATRIX_NAMES.test(name)) return fromMatrix(val);
+        return null;
+    }
+    if (val !== null && typeof val === "object" && !("__type__" in val)) {
+        return fromAdjacency(val as Record<string, unknown>);
+    }
+    return null;
+}
+
+export function hasEdge(graph: GraphModel, from: string, to: string): boolean {
+    return graph.edges.some(e =>
+        (e.from === from && e.to === to) || (!graph.directed && e.from === to && e.to === from)
+    );
+}
+
+/** Distance as a number, with "inf" strings and missing entries as Infinity */
+function distanceOf(table: unknown, node: string): number {
+    const val = Array.isArray(table) ? table[Number(node)] : (table as Record<string, unknown> | null)?.[node];
+    return typeof val === "number" ? val : Infinity;
+}
+
+/**
+ * The edge being worked on: the one whose relaxation lowered a distance
+ * (dist/distances/cost...) since the previous step, or else the edge between
+ * the current node and neighbor variables (u/v, node/neighbor, ...).
+ */
+export function findActiveEdge(graph: GraphModel, step: TraceStep, prevStep: TraceStep | null): ActiveEdge | null {
+    const pick = (names: string[]) => {
+        const name = names.find(n => isNodeId(step.stack[n]));
+        return name ? String(step.stack[name]) : null;
+    };
+    const from = pick(FROM_NAMES);
+    const to = pick(TO_NAMES);
+
+    const distName = DISTANCE_NAMES.find(n => step.stack[n] !== null && typeof step.stack[n] === "object");
+    if (distName && prevStep) {
+        const now = step.stack[distName];
+        const before = prevStep.stack[distName];
+        const lowered = graph.nodes.filter(node => distanceOf(now, node) < distanceOf(before, node));
+        for (const target of lowered) {
+            if (from && hasEdge(graph, from, target)) return { from, to: target, relaxed: true };
+            // No current-node variable: find the edge that explains the new distance
+            for (const e of graph.edges) {
+                const weight = typeof e.weight === "number" ? e.weight : 1;
+                const ends = graph.directed ? [[e.from, e.to]] : [[e.from, e.to], [e.to, e.from]];
+                for (const [source, dest] of ends) {
+                    if (dest === target && distanceOf(now, source) + weight === distanceOf(now, target)) {
+                        return { from: source, to: target, relaxed: true };
+                    }
+                }
+            }
+        }
+    }
+
+    if (from && to && hasEdge(graph, from, to)) return { from, to, relaxed: false };
+    return null;
+}
+
+/**
+ * A variable as a table keyed by the graph's nodes: a dict whose keys are
+ * all node ids, or a list with one entry per node when nodes are 0..n-1.
+ */
+function nodeTable(graph: GraphModel, val: unknown): Record<string, unknown> | null {
+    if (Array.isArray(val)) {
+        if (val.length !== graph.nodes.length || !graph.nodes.every(node => /^\d+$/.test(node) && Number(node) < val.length)) return null;
+        return Object.fromEntries(val.map((v, i) => [String(i), v]));
+    }
+    if (val === null || typeof val !== "object" || "__type__" in val) return null;
+    const table = val as Record<string, unknown>;
+    const keys = Object.keys(table);
+    return keys.length > 0 && keys.every(key => graph.nodes.includes(key)) ? table : null;
+}
+
+/** Per-node tables in the current frame that belong to `graph`. */
+export function annotateGraph(graph: GraphModel, step: TraceStep, prevStep: TraceStep | null): GraphAnnotations {
+    const badges: NodeAnnotation[] = [];
+    let parents: GraphAnnotations["parents"] = null;
+    const vars: string[] = [];
+    for (const [name, val] of Object.entries(step.stack)) {
+        const isParent = PARENT_NAMES.test(name);
+        if (!isParent && !BADGE_NAMES.test(name)) continue;
+        const table = nodeTable(graph, val);
+        if (!table || (isParent && parents)) continue;
+        vars.push(name);
+        if (isParent) {
+            // Roots point at themselves, None or -1
+            const links = Object.entries(table)
+                .filter(([child, parent]) => isNodeId(parent) && String(parent) !== child && graph.nodes.includes(String(parent)))
+                .map(([child, parent]) => ({ from: String(parent), to: child }));
+            parents = { name, links };
+            continue;
+        }
+        const before = prevStep ? nodeTable(graph, prevStep.stack[name]) : null;
+        const changed = new Set(Object.keys(table).filter(node =>
+            before !== null && JSON.stringify(before[node]) !== JSON.stringify(table[node])
+        ));
+        badges.push({ name, values: table, changed });
+    }
+    return { badges, parents, vars };
+}
+
+/** Badge text for an annotation value, with infinities as ∞ */
+export function formatAnnotation(val: unknown): string {
+    if (typeof val === "string" && /^-?inf(inity)?$/i.test(val)) return val.startsWith("-") ? "-∞" : "∞";
+    if (val === null || val === undefined) return "—";
+    if (typeof val === "boolean") return val ? "T" : "F";
+    return typeof val === "string" ? val : JSON.stringify(val);
+}
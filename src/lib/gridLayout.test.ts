@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { step } from "@/test/traces";
+import { findGridPointers, is2DGrid, isNumericGrid } from "./gridLayout";
+
+describe("is2DGrid", () => {
+    it("accepts rectangular grids of one scalar type per row", () => {
+        expect(is2DGrid([[1, 0], [0, 1]])).toBe(true);
+        expect(is2DGrid([["#", "."], [".", "S"]])).toBe(true);
+        expect(is2DGrid([[true, false], [1, 2]])).toBe(true);
+    });
+
+    it("rejects ragged rows, tuples, long strings and too-small shapes", () => {
+        expect(is2DGrid([[1, 2], [3]])).toBe(false);
+        expect(is2DGrid([[10, true], [9, false]])).toBe(false);
+        expect(is2DGrid([["alice", "bob"], ["carol", "dave"]])).toBe(false);
+        expect(is2DGrid([[1, 2]])).toBe(false);
+        expect(is2DGrid([[1], [2]])).toBe(false);
+        expect(is2DGrid([[[1], [2]], [[3], [4]]])).toBe(false);
+    });
+});
+
+describe("isNumericGrid", () => {
+    it("is true only when every cell is a number", () => {
+        expect(isNumericGrid([[1, 2.5], [0, -1]])).toBe(true);
+        expect(isNumericGrid([[1, 2], ["#", "."]])).toBe(false);
+    });
+});
+
+describe("findGridPointers", () => {
+    it("turns index pairs inside the grid into cell pointers", () => {
+        const at = step({ stack: { i: 1, j: 2, r: 0, c: 0, row: 3, col: 0 } });
+        expect(findGridPointers(at, 3, 3)).toEqual([
+            { name: "(i, j)", row: 1, col: 2 },
+            { name: "(r, c)", row: 0, col: 0 },
+        ]);
+    });
+
+    it("reads y/x as row/column", () => {
+        expect(findGridPointers(step({ stack: { x: 2, y: 0 } }), 1, 3)).toEqual([{ name: "(y, x)", row: 0, col: 2 }]);
+    });
+
+    it("pairs prefixed names", () => {
+        const at = step({ stack: { nr: 1, nc: 0, start_row: 0, start_col: 1, cur_r: 1, cur_c: 1, ver: 0 } });
+        expect(findGridPointers(at, 2, 2).map(p => p.name)).toEqual(["(nr, nc)", "(start_row, start_col)", "(cur_r, cur_c)"]);
+    });
+
+    it("ignores non-integer, negative and missing indices", () => {
+        const at = step({ stack: { i: 0.5, j: 0, r: -1, c: 0, nr: 1 } });
+        expect(findGridPointers(at, 2, 2)).toEqual([]);
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * gridLayout.ts — Helpers for 2D grids (boards, mazes, matrices).
+ *
+ * Grid code indexes cells with a pair of integer variables: row/col, r/c,
+ * i/j, or prefixed pairs such as nr/nc and start_row/start_col. Each pair
+ * that lands inside the grid becomes a pointer onto that cell.
+ */
+
+import { TraceStep } from "./interpreter/schema";
+
+export interface GridPointer {
+    /** Label such as "(r, c)" */
+    name: string;
+    row: number;
+    col: number;
+}
+
+const INDEX_PAIRS: Array<[string, string]> = [["i", "j"], ["row", "col"], ["r", "c"], ["y", "x"]];
+
+/**
+ * Checks if a value is a 2D rectangular array (matrix/grid).
+ * Must have uniform row lengths AND contain only primitive values (numbers, strings, booleans).
+ * Arrays of tuples like [[10,true],[9,false]] should NOT match.
+ */
+export function is2DGrid(val: unknown): val is unknown[][] {
+    if (!Array.isArray(val) || val.length < 2) return false;
+    if (!Array.isArray(val[0])) return false;
+    const rowLen = val[0].length;
+    if (rowLen < 2) return false; // Need at least 2 columns to be a meaningful grid
+    // All rows must have same length
+    if (!val.every((row: unknown) => Array.isArray(row) && row.length === rowLen)) return false;
+    // For true grids: all cells in each row must be the SAME type
+    // This rejects tuples like [10, true] (number + boolean) which are Python tuples
+    for (const row of val) {
+        const types = new Set((row as unknown[]).map(cell => typeof cell));
+        // Mixed types in a single row = tuple/pair, not a grid row
+        if (types.size > 1) return false;
+        // Each cell must be a simple scalar
+        for (const cell of row as unknown[]) {
+            if (typeof cell === "number") continue;
+            if (typeof cell === "boolean") continue;
+            if (typeof cell === "string" && cell.length <= 2) continue;
+            return false;
+        }
+    }
+    return true;
+}
+
+/** True when every cell is a number, so the grid can be drawn as a heatmap. */
+export function isNumericGrid(grid: unknown[][]): boolean {
+    return grid.every(row => row.every(cell => typeof cell === "number"));
+}
+
+/** (row, col) variable pairs of the current frame that index a cell of a rows×cols grid. */
+export function findGridPointers(step: TraceStep, rows: number, cols: number): GridPointer[] {
+    const isIndex = (val: unknown, size: number): val is number =>
+        typeof val === "number" && Number.isInteger(val) && val >= 0 && val < size;
+    const pairs: Array<[string, string]> = [...INDEX_PAIRS];
+    // Prefixed pairs: nr/nc, start_row/start_col, cur_r/cur_c...
+    for (const name of Object.keys(step.stack)) {
+        const match = /^(.+?)(row|r)$/.exec(name);
+        if (!match) continue;
+        const col = [`${match[1]}col`, `${match[1]}c`].find(c => c in step.stack);
+        if (col) pairs.push([name, col]);
+    }
+
+    const pointers: GridPointer[] = [];
+    for (const [rowName, colName] of pairs) {
+        const row = step.stack[rowName];
+        const col = step.stack[colName];
+        if (isIndex(row, rows) && isIndex(col, cols)) pointers.push({ name: `(${rowName}, ${colName})`, row, col });
+    }
+    return pointers;
+}
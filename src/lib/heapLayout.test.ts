@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { compareHeapItems, HEAP_NAMES, heapMoves, isHeapOrdered } from "./heapLayout";
+
+describe("compareHeapItems", () => {
+    it("orders items the way Python does", () => {
+        expect(compareHeapItems(1, 2)).toBeLessThan(0);
+        expect(compareHeapItems("b", "a")).toBeGreaterThan(0);
+        expect(compareHeapItems([1, "b"], [1, "a"])).toBeGreaterThan(0);
+        expect(compareHeapItems([1], [1, 0])).toBeLessThan(0);
+        expect(compareHeapItems(1, "a")).toBeNaN();
+    });
+});
+
+describe("isHeapOrdered", () => {
+    it("checks every parent against its children", () => {
+        expect(isHeapOrdered([1, 3, 2, 4, 5])).toBe(true);
+        expect(isHeapOrdered([1, 3, 2, 0])).toBe(false);
+        expect(isHeapOrdered([9, 4, 7, 1], "max")).toBe(true);
+        expect(isHeapOrdered([[0, "a"], [2, "b"], [1, "c"]])).toBe(true);
+        expect(isHeapOrdered([1, "a"])).toBe(false);
+    });
+});
+
+describe("HEAP_NAMES", () => {
+    it("recognises heap names but not search frontiers", () => {
+        for (const name of ["heap", "pq", "min_heap", "task_heap", "heap_items", "open_pq"]) expect(HEAP_NAMES.test(name)).toBe(true);
+        for (const name of ["open_set", "frontier", "heaps_of_work", "queue"]) expect(HEAP_NAMES.test(name)).toBe(false);
+    });
+});
+
+describe("heapMoves", () => {
+    it("follows a swap between steps", () => {
+        expect(heapMoves([1, 5, 2], [1, 2, 5])).toEqual([0, 2, 1]);
+        expect(heapMoves([1, 1], [1, 1, 0])).toEqual([0, 1, null]);
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * heapLayout.ts — Helpers for lists used as binary heaps (heapq, priority queues).
+ *
+ * A heap list is drawn as the complete binary tree it encodes: item i has
+ * children 2i+1 and 2i+2. Between steps, items are matched by value so a
+ * sift-up/sift-down swap can be animated as the two items trading places.
+ */
+
+export type HeapKind = "min" | "max";
+
+/** Variable names that announce a heap regardless of its contents */
+export const HEAP_NAMES = /^(heap|pq|minheap|maxheap|min_heap|max_heap|priority_queue)$|_heap$|^heap_|_pq$/i;
+
+/**
+ * Order heap items the way Python does: numbers and strings directly,
+ * tuples/lists element by element. NaN when the items cannot be compared.
+ */
+export function compareHeapItems(a: unknown, b: unknown): number {
+    if (typeof a === "number" && typeof b === "number") return a - b;
+    if (typeof a === "string" && typeof b === "string") return a < b ? -1 : a > b ? 1 : 0;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            const cmp = compareHeapItems(a[i], b[i]);
+            if (cmp !== 0) return cmp;
+        }
+        return a.length - b.length;
+    }
+    return NaN;
+}
+
+/** True when every parent is ≤ (min) or ≥ (max) its children. */
+export function isHeapOrdered(items: unknown[], kind: HeapKind = "min"): boolean {
+    for (let i = 1; i < items.length; i++) {
+        const cmp = compareHeapItems(items[Math.floor((i - 1) / 2)], items[i]);
+        if (Number.isNaN(cmp)) return false;
+        if (kind === "min" ? cmp > 0 : cmp < 0) return false;
+    }
+    return true;
+}
+
+/** Number of levels of the complete tree holding `size` items. */
+export function heapHeight(size: number): number {
+    return size === 0 ? 0 : Math.floor(Math.log2(size)) + 1;
+}
+
+/**
+ * Slot of item `index` in a tree of `height` levels, in units where the
+ * bottom level's slots are 1 apart: x in [0, 2^(height-1)), y = depth.
+ */
+export function heapSlot(index: number, height: number): { x: number; y: number } {
+    const depth = Math.floor(Math.log2(index + 1));
+    const offset = index - (2 ** depth - 1);
+    const span = 2 ** (height - 1 - depth);
+    return { x: offset * span + (span - 1) / 2, y: depth };
+}
+
+/**
+ * For each item of `current`, the index it sat at in `previous` (null for a
+ * pushed or rewritten item). Items that stayed put are matched first, so
+ * duplicates do not appear to move.
+ */
+export function heapMoves(previous: unknown[] | null | undefined, current: unknown[]): Array<number | null> {
+    if (!previous) return current.map((_, i) => i);
+    const key = (val: unknown) => JSON.stringify(val);
+    const sources: Array<number | null> = current.map((val, i) => (i < previous.length && key(previous[i]) === key(val) ? i : null));
+    const taken = new Set(sources.filter((s): s is number => s !== null));
+    current.forEach((val, i) => {
+        if (sources[i] !== null) return;
+        const from = previous.findIndex((old, j) => !taken.has(j) && key(old) === key(val));
+        if (from !== -1) {
+            sources[i] = from;
+            taken.add(from);
+        }
+    });
+    return sources;
+}
@@ -0,0 +1,156 @@
+/**
+ * Heap helpers
+ *
+ * Instrumentors store every container/object once in `step.heap` and put
+ * `{ __ref__: address }` in its place. The visualizers work on plain values,
+ * so `materializeStep` inlines references back into `stack`/`frames` while
+ * remembering which variable pointed at which address (for aliasing views).
+ */
+
+import { HeapObject, TraceStep } from "./schema";
+
+export interface HeapRef {
+    __ref__: string;
+}
+
+export function isHeapRef(val: unknown): val is HeapRef {
+    return (
+        val !== null &&
+        typeof val === "object" &&
+        !Array.isArray(val) &&
+        typeof (val as Record<string, unknown>).__ref__ === "string"
+    );
+}
+
+type Heap = Record<string, HeapObject>;
+
+/** One materialized tree node; `id` is its heap address, stable across steps. */
+export interface TreeValue {
+    id: string;
+    v: unknown;
+    l: TreeValue | null;
+    r: TreeValue | null;
+}
+
+function materializeTree(address: string, heap: Heap, seen: Set<string>): TreeValue | null {
+    const obj = heap[address];
+    if (!obj || obj.type !== "tree_node" || seen.has(address)) return null;
+    seen.add(address);
+    const node = obj.value as Record<string, unknown>;
+    const child = (val: unknown) => (isHeapRef(val) ? materializeTree(val.__ref__, heap, seen) : null);
+    return {
+        id: address,
+        v: materializeValue(node.val, heap),
+        l: child(node.left),
+        r: child(node.right),
+    };
+}
+
+function materializeLinkedList(address: string, heap: Heap): { values: unknown[]; cycleAt: number | null } {
+    const values: unknown[] = [];
+    const order: string[] = [];
+    let current: string | null = address;
+    while (current && !order.includes(current)) {
+        const obj: HeapObject | undefined = heap[current];
+        if (!obj || obj.type !== "list_node") break;
+        order.push(current);
+        const node = obj.value as Record<string, unknown>;
+        values.push(materializeValue(node.val, heap));
+        current = isHeapRef(node.next) ? node.next.__ref__ : null;
+    }
+    // Stopped on a node already walked: the last node points back into the list
+    const cycleAt = current ? order.indexOf(current) : -1;
+    return { values, cycleAt: cycleAt === -1 ? null : cycleAt };
+}
+
+/**
+ * Replace heap references with their (recursively materialized) values,
+ * using the same shapes the instrumentor used to inline:
+ * lists → arrays, dicts/objects → records, linked list nodes →
+ * { __type__: "linked_list", values, cycleAt }, tree nodes → { __type__: "tree", root }
+ * with one { id, v, l, r } per node.
+ */
+export function materializeValue(val: unknown, heap: Heap, path: Set<string> = new Set()): unknown {
+    if (!isHeapRef(val)) return val;
+    const address = val.__ref__;
+    const obj = heap[address];
+    if (!obj) return null;
+    // Self-containing containers render like Python's repr does
+    if (path.has(address)) return obj.type === "array" ? "[...]" : "{...}";
+
+    switch (obj.type) {
+        case "list_node":
+            return { __type__: "linked_list", ...materializeLinkedList(address, heap) };
+        case "tree_node":
+            return { __type__: "tree", root: materializeTree(address, heap, new Set()) };
+        case "array": {
+            const next = new Set(path).add(address);
+            return (obj.value as unknown[]).map(v => materializeValue(v, heap, next));
+        }
+        case "object": {
+            const next = new Set(path).add(address);
+            const result: Record<string, unknown> = {};
+            for (const [k, v] of Object.entries(obj.value as Record<string, unknown>)) {
+                result[k] = materializeValue(v, heap, next);
+            }
+            return result;
+        }
+        default:
+            return obj.value;
+    }
+}
+
+function materializeScope(scope: Record<string, unknown>, heap: Heap) {
+    const values: Record<string, unknown> = {};
+    const refs: Record<string, string> = {};
+    for (const [name, val] of Object.entries(scope)) {
+        if (isHeapRef(val)) refs[name] = val.__ref__;
+        values[name] = materializeValue(val, heap);
+    }
+    return { values, refs };
+}
+
+/**
+ * Inline heap references in a step's stack and frames, recording the
+ * variable → address mapping in `refs`. Steps without references pass through.
+ */
+export function materializeStep(step: TraceStep): TraceStep {
+    const stack = materializeScope(step.stack, step.heap);
+    return {
+        ...step,
+        stack: stack.values,
+        refs: stack.refs,
+        returnValue: step.returnValue === undefined ? undefined : materializeValue(step.returnValue, step.heap),
+        frames: step.frames.map(frame => {
+            const locals = materializeScope(frame.locals, step.heap);
+            return { ...frame, locals: locals.values, refs: locals.refs };
+        }),
+    };
+}
+
+/**
+ * Group every variable (across all frames) by the heap address it points to.
+ * Addresses referenced by more than one name are aliases.
+ */
+export function findAliases(step: TraceStep): Map<string, string[]> {
+    const byAddress = new Map<string, string[]>();
+    const scopes = step.frames.length > 0
+        ? step.frames.map(f => ({ prefix: f.name === "<module>" ? "" : `${f.name}:`, refs: f.refs }))
+        : [{ prefix: "", refs: step.refs }];
+    for (const { prefix, refs } of scopes) {
+        for (const [name, address] of Object.entries(refs)) {
+            const names = byAddress.get(address) ?? [];
+            names.push(prefix + name);
+            byAddress.set(address, names);
+        }
+    }
+    for (const [address, names] of byAddress) {
+        if (names.length < 2) byAddress.delete(address);
+    }
+    return byAddress;
+}
+
+/** Short, human-friendly label for a heap address (ids can be 15 digits long). */
+export function shortAddress(address: string): string {
+    return `#${address.slice(-4)}`;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { executeLocal, toolVersion } from "@/lib/execution/local";
+import { buildCompiledDriver } from "./compiledDriver";
+
+const hasPython = (await toolVersion("python3", ["--version"])) !== null;
+
+// Stands in for the JDI or gdb tracer: echoes its input, then prints steps with pauses between them
+const TRACER = [
+    "import sys, time",
+    "print('__TRACE__' + sys.stdin.read().strip(), flush=True)",
+    "for i in range(2):",
+    "    time.sleep(0.4)",
+    "    print('__TRACE__' + str(i), flush=True)",
+    "print('warning', file=sys.stderr)",
+].join("\n");
+
+describe.skipIf(!hasPython)("buildCompiledDriver", () => {
+    it("forwards each line as the tracer prints it", async () => {
+        const driver = buildCompiledDriver({ files: { "tracer.py": TRACER }, compile: [], errorPattern: "", run: ["python3", "tracer.py"] });
+        const started = Date.now();
+        const arrivals: Array<[string, number]> = [];
+        const result = await executeLocal(driver, "python", {
+            memoryLimit: false,
+            stdin: "input",
+            onStdout: chunk => arrivals.push([chunk, Date.now() - started]),
+        });
+        expect(arrivals.map(([chunk]) => chunk).join("")).toBe("__TRACE__input\n__TRACE__0\n__TRACE__1\n");
+        // The first step arrived well before the tracer finished
+        const first = arrivals[0][1];
+        const last = arrivals.at(-1)![1];
+        expect(last - first).toBeGreaterThan(600);
+        expect(result.stderr).toBe("warning\n");
+    });
+
+    it("reports a compile failure at the line the compiler names", async () => {
+        const driver = buildCompiledDriver({
+            files: {},
+            compile: [["python3", "-c", "import sys; sys.stderr.write('main.x:7: error: bad'); sys.exit(1)"]],
+            errorPattern: String.raw`:(?P<line>\d+): error: (?P<message>.*)`,
+            run: ["python3", "-c", "print('never')"],
+        });
+        const { stdout } = await executeLocal(driver, "python", { memoryLimit: false });
+        expect(JSON.parse(stdout.replace("__ERROR__", ""))).toMatchObject({ type: "CompileError", message: "bad", line: 7 });
+    });
+
+    it("reports a missing tracer", async () => {
+        const driver = buildCompiledDriver({ files: {}, compile: [], errorPattern: "", run: ["no-such-tracer"] });
+        const { stdout } = await executeLocal(driver, "python", { memoryLimit: false });
+        expect(JSON.parse(stdout.replace("__ERROR__", "")).type).toBe("ToolchainMissing");
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Compiled-language driver
+ *
+ * Java and C++ can't be traced from inside a single interpreter process, so
+ * their instrumentors produce a small Python program instead: it writes the
+ * sources to a scratch directory, compiles them, then runs the language's
+ * tracer (JDI or gdb) and forwards its __TRACE__ / __ERROR__ output line by
+ * line, so steps stream while it runs. This keeps them on the same local
+ * runner as Python.
+ */
+
+export interface CompiledDriverSpec {
+    /** File name -> contents, written to the scratch directory */
+    files: Record<string, string>;
+    /** Commands run in order; the first failure is reported as a CompileError */
+    compile: string[][];
+    /** Pulls `line` and `message` groups out of compiler stderr */
+    errorPattern: string;
+    /** Command that runs the tracer and prints the trace */
+    run: string[];
+}
+
+// JSON strings and arrays are valid Python literals, so values are embedded with JSON.stringify
+export const buildCompiledDriver = (spec: CompiledDriverSpec): string => {
+    const wrapper = `
+import json
+import os
+import re
+import subprocess
+import sys
+import tempfile
+import threading
+
+__FILES__ = ${JSON.stringify(spec.files)}
+__COMPILE__ = ${JSON.stringify(spec.compile)}
+__ERROR_PATTERN__ = ${JSON.stringify(spec.errorPattern)}
+__RUN__ = ${JSON.stringify(spec.run)}
+__COMPILE_TIMEOUT__ = 10
+__RUN_TIMEOUT__ = 12
+
+def __report_error__(error_type, message, line=None):
+    print("__ERROR__" + json.dumps({"type": error_type, "message": message, "line": line, "traceback": []}))
+
+def __run__(cmd, cwd, timeout, stdin=""):
+    """Run a toolchain command, reporting a missing tool or a timeout as an error."""
+    try:
+        return subprocess.run(cmd, cwd=cwd, input=stdin, capture_output=True, text=True, timeout=timeout)
+    except FileNotFoundError:
+        __report_error__("ToolchainMissing", cmd[0] + " is not installed on the execution server")
+    except subprocess.TimeoutExpired:
+        __report_error__("Timeout", " ".join(cmd[:1]) + " did not finish within " + str(timeout) + "s")
+    return None
+
+def __stream__(cmd, cwd, timeout, stdin):
+    """Run the tracer, passing its output on a line at a time; stderr follows once it exits."""
+    try:
+        proc = subprocess.Popen(cmd, cwd=cwd, stdin=subprocess.PIPE, stdout=subprocess.PIPE, stderr=subprocess.PIPE, text=True, bufsize=1)
+    except FileNotFoundError:
+        __report_error__("ToolchainMissing", cmd[0] + " is not installed on the execution server")
+        return
+    timed_out = threading.Event()
+    def expire():
+        timed_out.set()
+        proc.kill()
+    def feed():
+        try:
+            proc.stdin.write(stdin)
+            proc.stdin.close()
+        except OSError:
+            pass
+    stderr = []
+    helpers = [threading.Thread(target=feed), threading.Thread(target=lambda: stderr.append(proc.stderr.read()))]
+    timer = threading.Timer(timeout, expire)
+    timer.start()
+    for helper in helpers:
+        helper.start()
+    for line in proc.stdout:
+        sys.stdout.write(line)
+        sys.stdout.flush()
+    proc.wait()
+    timer.cancel()
+    for helper in helpers:
+        helper.join()
+    sys.stderr.write("".join(stderr))
+    if timed_out.is_set():
+        __report_error__("Timeout", cmd[0] + " did not finish within " + str(timeout) + "s")
+
+# The program's input: piped to the tracer and saved as stdin.txt for tracers that redirect it
+__STDIN__ = sys.stdin.read()
+
+with tempfile.TemporaryDirectory() as workdir:
+    for name, content in list(__FILES__.items()) + [("stdin.txt", __STDIN__)]:
+        with open(os.path.join(workdir, name), "w") as f:
+            f.write(content)
+
+    for cmd in __COMPILE__:
+        proc = __run__(cmd, workdir, __COMPILE_TIMEOUT__)
+        if proc is None:
+            sys.exit(0)
+        if proc.returncode != 0:
+            match = re.search(__ERROR_PATTERN__, proc.stderr, re.MULTILINE)
+            if match:
+                __report_error__("CompileError", match.group("message").strip(), int(match.group("line")))
+            else:
+                __report_error__("CompileError", proc.stderr.strip() or proc.stdout.strip())
+            sys.exit(0)
+
+    __stream__(__RUN__, workdir, __RUN_TIMEOUT__, __STDIN__)
+`;
+    return wrapper.trim();
+};
@@ -0,0 +1,526 @@
+/**
+ * C++ Instrumentor
+ *
+ * Compiles the user's program with g++ (-g -O0) and single-steps it with a
+ * gdb Python script. Each stop in the user's file prints a __TRACE__ line
+ * shaped like the Python instrumentor's: locals of every user frame, with
+ * arrays, STL containers (via gdb's libstdc++ pretty printers) and structs
+ * stored once in the heap keyed by address. Structs with next/left/right
+ * pointers become list/tree nodes, so detectVizType needs no changes.
+ */
+
+import { DEFAULT_BUDGET, TraceBudget } from "../schema";
+import { buildCompiledDriver } from "./compiledDriver";
+
+const SOURCE_FILE = "main.cpp";
+
+// Runs inside gdb (gdb -batch -x tracer.py), so it is kept as plain Python source
+const TRACER = String.raw`
+import codecs
+import gdb
+import json
+import math
+import os
+import subprocess
+
+USER_FILE = "main.cpp"
+STDOUT_FILE = "stdout.txt"
+STDERR_FILE = "stderr.txt"
+MAX_CONTAINER_ITEMS = 200
+
+# Trace budget, written next to the program by the driver
+with open("budget.json") as budget_file:
+    BUDGET = json.load(budget_file)
+MAX_TRACE_STEPS = BUDGET["maxSteps"]
+MAX_DEPTH = BUDGET["maxDepth"]
+MAX_LIST_NODES = BUDGET["maxListNodes"]
+MAX_TREE_DEPTH = BUDGET["maxTreeDepth"]
+
+# Budget limits that cut something out of the trace, reported once at the end
+truncated = set()
+
+SIGNAL_ERRORS = {
+    "SIGSEGV": ("SegmentationFault", "invalid memory access"),
+    "SIGFPE": ("ArithmeticError", "arithmetic exception (e.g. division by zero)"),
+    "SIGABRT": ("Aborted", "program aborted"),
+    "SIGBUS": ("BusError", "misaligned or invalid memory access"),
+}
+
+# ─── Value encoding ───
+
+def address_key(val):
+    """Heap key for an object in memory; the type is part of it because a struct
+    and its first member share an address."""
+    return "%s@%x" % (str(val.type.strip_typedefs()), int(val.address))
+
+def ref(key):
+    return {"__ref__": key}
+
+def short_kind(type_name):
+    base = type_name.split("<", 1)[0]
+    return base.split("::")[-1] or type_name
+
+def field_names(t):
+    try:
+        return {f.name for f in t.fields() if f.name}
+    except TypeError:
+        return set()
+
+def has_node_val(names):
+    return bool(names & {"val", "value", "data", "key"})
+
+def is_tree_node(t):
+    names = field_names(t)
+    return "left" in names and "right" in names and has_node_val(names)
+
+def is_list_node(t):
+    names = field_names(t)
+    return "next" in names and has_node_val(names)
+
+def node_val(val):
+    names = field_names(val.type.strip_typedefs())
+    for name in ("val", "value", "key", "data"):
+        if name in names:
+            return val[name]
+    return None
+
+def pointee(ptr):
+    """Dereference a pointer to a struct, or None for null / non-struct pointers."""
+    t = ptr.type.strip_typedefs()
+    if t.code != gdb.TYPE_CODE_PTR or int(ptr) == 0:
+        return None
+    if t.target().strip_typedefs().code != gdb.TYPE_CODE_STRUCT:
+        return None
+    return ptr.dereference()
+
+def encode_linked_list(head, heap, depth):
+    """Register each node of a linked list in the heap, linking them by reference."""
+    current = head
+    count = 0
+    while current is not None:
+        key = address_key(current)
+        if key in heap:
+            break  # Cycle or shared tail — already recorded
+        count += 1
+        entry = {"type": "list_node", "kind": short_kind(str(current.type.strip_typedefs())), "value": {
+            "val": encode(node_val(current), heap, depth + 1),
+            "next": None,
+        }}
+        heap[key] = entry
+        nxt = pointee(current["next"])
+        if nxt is None:
+            break
+        if count >= MAX_LIST_NODES:
+            truncated.add("maxListNodes")
+            break
+        if is_list_node(nxt.type.strip_typedefs()) and not is_tree_node(nxt.type.strip_typedefs()):
+            entry["value"]["next"] = ref(address_key(nxt))
+            current = nxt
+        else:
+            entry["value"]["next"] = encode(nxt, heap, depth + 1)
+            break
+    return ref(address_key(head))
+
+def encode_tree(node, heap, depth, tree_depth):
+    """Register a binary tree in the heap, one entry per node."""
+    if node is None:
+        return None
+    key = address_key(node)
+    if key in heap:
+        return ref(key)
+    if tree_depth >= MAX_TREE_DEPTH:
+        truncated.add("maxTreeDepth")
+        return None
+    entry = {"type": "tree_node", "kind": short_kind(str(node.type.strip_typedefs())), "value": {}}
+    heap[key] = entry
+    entry["value"] = {
+        "val": encode(node_val(node), heap, depth + 1),
+        "left": encode_tree(pointee(node["left"]), heap, depth, tree_depth + 1),
+        "right": encode_tree(pointee(node["right"]), heap, depth, tree_depth + 1),
+    }
+    return ref(key)
+
+def encode_container(val, visualizer, heap, depth):
+    """STL containers through libstdc++'s pretty printers: maps become objects, the rest arrays."""
+    key = address_key(val)
+    kind = short_kind(str(val.type.strip_typedefs()))
+    hint = visualizer.display_hint() if hasattr(visualizer, "display_hint") else None
+    children = []
+    for i, (_, child) in enumerate(visualizer.children()):
+        if i >= MAX_CONTAINER_ITEMS * (2 if hint == "map" else 1):
+            break
+        children.append(child)
+    if hint == "map":
+        entry = {"type": "object", "kind": kind, "value": {}}
+        heap[key] = entry
+        for k, v in zip(children[0::2], children[1::2]):
+            entry["value"][str(encode(k, {}, MAX_DEPTH))] = encode(v, heap, depth + 1)
+    else:
+        entry = {"type": "array", "kind": kind, "value": []}
+        heap[key] = entry
+        entry["value"] = [encode(child, heap, depth + 1) for child in children]
+    return ref(key)
+
+def encode(val, heap, depth=0):
+    """Encode a gdb.Value: scalars inline, arrays/containers/structs stored once in heap."""
+    if val is None:
+        return None
+    if not isinstance(val, gdb.Value):
+        # Pretty printers may hand back plain Python values
+        return val if isinstance(val, (bool, int, float, str)) else str(val)
+    try:
+        t = val.type.strip_typedefs()
+        if t.code in (gdb.TYPE_CODE_REF, gdb.TYPE_CODE_RVALUE_REF):
+            val = val.referenced_value()
+            t = val.type.strip_typedefs()
+        if t.code == gdb.TYPE_CODE_BOOL:
+            return bool(val)
+        if t.code == gdb.TYPE_CODE_CHAR:
+            c = int(val)
+            return chr(c) if 32 <= c < 127 else c
+        if t.code in (gdb.TYPE_CODE_INT, gdb.TYPE_CODE_ENUM):
+            return int(val)
+        if t.code == gdb.TYPE_CODE_FLT:
+            f = float(val)
+            return f if math.isfinite(f) else str(f)
+        if t.code == gdb.TYPE_CODE_PTR:
+            if int(val) == 0:
+                return None
+            if t.target().strip_typedefs().code == gdb.TYPE_CODE_CHAR:
+                return val.string()
+            target = pointee(val)
+            return encode(target, heap, depth) if target is not None else hex(int(val))
+        if val.address is None:
+            return str(val)
+        key = address_key(val)
+        if key in heap:
+            return ref(key)
+        if depth > MAX_DEPTH:
+            truncated.add("maxDepth")
+            return str(val)
+        if t.code == gdb.TYPE_CODE_ARRAY:
+            low, high = t.range()
+            entry = {"type": "array", "kind": str(t), "value": []}
+            heap[key] = entry
+            entry["value"] = [encode(val[i], heap, depth + 1) for i in range(low, min(high, low + MAX_CONTAINER_ITEMS - 1) + 1)]
+            return ref(key)
+        if t.code == gdb.TYPE_CODE_STRUCT:
+            type_name = str(t)
+            if "basic_string" in type_name:
+                return val["_M_dataplus"]["_M_p"].string()
+            visualizer = gdb.default_visualizer(val)
+            if visualizer is not None and hasattr(visualizer, "children"):
+                return encode_container(val, visualizer, heap, depth)
+            if is_tree_node(t):
+                return encode_tree(val, heap, depth, 0)
+            if is_list_node(t):
+                return encode_linked_list(val, heap, depth)
+            entry = {"type": "object", "kind": short_kind(type_name), "value": {}}
+            heap[key] = entry
+            for f in t.fields():
+                if f.name and not f.artificial and not f.is_base_class and not f.name.startswith("_"):
+                    entry["value"][f.name] = encode(val[f.name], heap, depth + 1)
+            return ref(key)
+    except (gdb.error, gdb.MemoryError, RuntimeError, ValueError, UnicodeDecodeError):
+        pass
+    return str(val)
+
+# ─── Frames ───
+
+def is_user_frame(frame):
+    sal = frame.find_sal()
+    return sal.symtab is not None and os.path.basename(sal.symtab.filename) == USER_FILE
+
+def user_frames():
+    """User frames, outermost first."""
+    frames = []
+    f = gdb.newest_frame()
+    while f is not None:
+        if is_user_frame(f):
+            frames.append(f)
+        f = f.older()
+    frames.reverse()
+    return frames
+
+def frame_locals(frame):
+    """Arguments and locals declared up to the current line (later ones are still garbage)."""
+    line = frame.find_sal().line
+    values = []
+    seen = set()
+    try:
+        block = frame.block()
+    except RuntimeError:
+        return values
+    while block is not None:
+        for sym in block:
+            if not (sym.is_variable or sym.is_argument) or sym.name in seen:
+                continue
+            if not sym.is_argument and sym.line > line:
+                continue
+            seen.add(sym.name)
+            try:
+                values.append((sym.name, sym.value(frame)))
+            except (gdb.error, RuntimeError):
+                pass
+        if block.function is not None:
+            break
+        block = block.superblock
+    return values
+
+# Bytes of each output file already attached to a step
+output_sent = {STDOUT_FILE: 0, STDERR_FILE: 0}
+
+def take_output(path):
+    """What the program wrote to an output file since the previous step."""
+    try:
+        with open(path, "rb") as f:
+            f.seek(output_sent[path])
+            data = f.read()
+    except OSError:
+        return ""
+    output_sent[path] += len(data)
+    return data.decode("utf-8", "replace")
+
+input_read = [0]
+input_decoder = codecs.getincrementaldecoder("utf-8")("replace")
+
+def take_input():
+    """Input the program consumed since the previous step: how far it has read
+    stdin.txt, less what stdio has buffered but not yet handed out."""
+    try:
+        with open("/proc/%d/fdinfo/0" % gdb.selected_inferior().pid) as info:
+            pos = next(int(line.split()[1]) for line in info if line.startswith("pos:"))
+    except (OSError, StopIteration, ValueError):
+        return ""
+    try:
+        pos -= int(gdb.parse_and_eval("(long)(stdin->_IO_read_end - stdin->_IO_read_ptr)"))
+    except gdb.error:
+        # No FILE type in the debug info (or cin unsynced): the offset alone is close enough
+        pass
+    if pos <= input_read[0]:
+        return ""
+    with open("stdin.txt", "rb") as f:
+        f.seek(input_read[0])
+        data = f.read(pos - input_read[0])
+    input_read[0] += len(data)
+    return input_decoder.decode(data)
+
+def flush_output():
+    try:
+        gdb.parse_and_eval("(int)fflush(0)")
+    except gdb.error:
+        pass
+
+# ─── Tracing ───
+
+# (frame id, gdb.Frame) for each live user frame, outermost first
+shadow = []
+next_frame_id = [0]
+step_count = [0]
+last_state = [None]
+last_position = [None]
+return_values = {}
+last_stop = [None]
+last_exception = [None]
+
+class ReturnCatcher(gdb.FinishBreakpoint):
+    """Records a frame's return value without stopping."""
+
+    def __init__(self, frame, frame_id):
+        super().__init__(frame, internal=True)
+        self.frame_id = frame_id
+
+    def stop(self):
+        try:
+            heap = {}
+            return_values[self.frame_id] = (encode(self.return_value, heap), heap)
+        except Exception:
+            pass
+        return False
+
+    def out_of_scope(self):
+        pass
+
+def serialize(event, extra=None):
+    heap = {}
+    frames = []
+    for frame_id, frame in shadow:
+        frames.append({
+            "id": frame_id,
+            "name": frame.name() or "??",
+            "line": frame.find_sal().line,
+            "locals": {name: encode(value, heap) for name, value in frame_locals(frame)},
+        })
+    state = {
+        "line": frames[-1]["line"] if frames else 0,
+        "event": event,
+        "stack": frames[-1]["locals"] if frames else {},
+        "heap": heap,
+        "frames": frames,
+    }
+    if extra:
+        state.update(extra)
+    return state
+
+def emit(state):
+    if step_count[0] >= MAX_TRACE_STEPS:
+        truncated.add("maxSteps")
+        return
+    step_count[0] += 1
+    # Output is attached on emit, so a replayed state (see emit_return) doesn't repeat it
+    flush_output()
+    state = dict(state, stdout=take_output(STDOUT_FILE), stderr=take_output(STDERR_FILE), stdin=take_input())
+    print("__TRACE__" + json.dumps(state), flush=True)
+
+def emit_return(frame_id):
+    """Replay the frame's last step as its return, since the frame is gone once we notice."""
+    state = last_state[0]
+    if state is None or not state["frames"] or state["frames"][-1]["id"] != frame_id:
+        return
+    state = dict(state, event="return", heap=dict(state["heap"]))
+    if frame_id in return_values:
+        value, heap = return_values.pop(frame_id)
+        state["heap"].update(heap)
+        state["returnValue"] = value
+    emit(state)
+
+def sync_frames(frames):
+    """Match live frames against the shadow stack, emitting return and call steps."""
+    common = 0
+    while common < len(shadow) and common < len(frames) and shadow[common][1] == frames[common]:
+        common += 1
+    while len(shadow) > common:
+        frame_id, _ = shadow.pop()
+        emit_return(frame_id)
+    for frame in frames[common:]:
+        next_frame_id[0] += 1
+        frame_id = str(next_frame_id[0])
+        shadow.append((frame_id, frame))
+        # main plays the role of Python's <module> frame: no call step
+        if len(shadow) > 1:
+            try:
+                ReturnCatcher(frame, frame_id)
+            except (gdb.error, ValueError, RuntimeError):
+                pass
+            state = serialize("call")
+            function = frame.function()
+            if function is not None and function.line:
+                state["line"] = function.line
+                state["frames"][-1]["line"] = function.line
+            emit(state)
+
+def exception_info():
+    """Type and message of the exception being thrown (stopped in __cxa_throw)."""
+    exc_type, message = "exception", ""
+    try:
+        mangled = gdb.parse_and_eval("(char*)((std::type_info*)$rsi)->__name").string()
+        exc_type = subprocess.run(["c++filt", "-t", mangled], capture_output=True, text=True).stdout.strip() or mangled
+    except (gdb.error, OSError):
+        pass
+    try:
+        message = gdb.parse_and_eval("((std::exception*)$rdi)->what()").string()
+    except gdb.error:
+        pass
+    return {"type": exc_type, "message": message}
+
+def report_error(error_type, message):
+    frames = [{"name": f.name() or "??", "line": f.find_sal().line} for f in user_frames()]
+    error = {
+        "type": error_type,
+        "message": message,
+        "line": frames[-1]["line"] if frames else None,
+        "traceback": frames,
+    }
+    print("__ERROR__" + json.dumps(error), flush=True)
+
+def on_stop(event):
+    last_stop[0] = event
+
+def on_exit(event):
+    last_stop[0] = event
+
+gdb.events.stop.connect(on_stop)
+gdb.events.exited.connect(on_exit)
+
+gdb.execute("set pagination off")
+gdb.execute("set confirm off")
+gdb.execute("set print pretty off")
+gdb.execute("set step-mode off")
+throw_breakpoint = gdb.Breakpoint("__cxa_throw", internal=True)
+# Stops at the start of every catch handler, from where "finish" lands in the user's catch block
+gdb.Breakpoint("__cxa_begin_catch", internal=True)
+gdb.Breakpoint("main", internal=True)
+gdb.execute("run > " + STDOUT_FILE + " 2> " + STDERR_FILE + " < stdin.txt", to_string=True)
+
+crashed = False
+while True:
+    stop = last_stop[0]
+    if isinstance(stop, gdb.ExitedEvent):
+        break
+    if isinstance(stop, gdb.SignalEvent):
+        error_type, message = SIGNAL_ERRORS.get(stop.stop_signal, (stop.stop_signal, "program received " + stop.stop_signal))
+        if stop.stop_signal == "SIGABRT" and last_exception[0] is not None:
+            error_type, message = last_exception[0]["type"], last_exception[0]["message"] or "uncaught exception"
+        state = serialize("exception", {"exception": {"type": error_type, "message": message}})
+        emit(state)
+        report_error(error_type, message)
+        crashed = True
+        gdb.execute("kill", to_string=True)
+        break
+    if step_count[0] >= MAX_TRACE_STEPS:
+        # Budget spent: stop stepping and let the program finish
+        truncated.add("maxSteps")
+        gdb.execute("delete", to_string=True)
+        gdb.execute("continue", to_string=True)
+        continue
+
+    frames = user_frames()
+    last_stop[0] = None
+    if isinstance(stop, gdb.BreakpointEvent) and throw_breakpoint in stop.breakpoints:
+        info = exception_info()
+        last_exception[0] = info
+        if frames:
+            sync_frames(frames)
+            emit(serialize("exception", {"exception": info}))
+        gdb.execute("continue", to_string=True)  # Stops again in __cxa_begin_catch or with SIGABRT
+        continue
+    if not frames:
+        # main has returned; run to exit
+        gdb.execute("continue", to_string=True)
+        continue
+    if not is_user_frame(gdb.newest_frame()):
+        # Stepped into library code (e.g. std::vector::push_back); run back out
+        gdb.execute("finish", to_string=True)
+        continue
+
+    sync_frames(frames)
+    position = (shadow[-1][0], frames[-1].find_sal().line)
+    if position != last_position[0]:
+        last_position[0] = position
+        state = serialize("line")
+        last_state[0] = state
+        emit(state)
+    gdb.execute("step", to_string=True)
+
+if shadow and not crashed:
+    # Program finished: main's return, like the <module> return in Python
+    state = last_state[0]
+    if state is not None:
+        emit(dict(state, event="return"))
+
+if truncated:
+    print("__TRUNCATED__" + json.dumps(sorted(truncated)), flush=True)
+`;
+
+export const instrumentCpp = (userCode: string, budget: TraceBudget = DEFAULT_BUDGET): string => {
+    return buildCompiledDriver({
+        files: {
+            [SOURCE_FILE]: userCode,
+            "tracer.py": TRACER.trim(),
+            "budget.json": JSON.stringify(budget),
+        },
+        compile: [["g++", "-g", "-O0", "-std=c++17", "-o", "program", SOURCE_FILE]],
+        errorPattern: String.raw`^\S*main\.cpp:(?P<line>\d+):\d+: error: (?P<message>.+)$`,
+        run: ["gdb", "-q", "-nx", "-batch", "-x", "tracer.py", "./program"],
+    });
+};
@@ -0,0 +1,612 @@
+/**
+ * Java Instrumentor
+ *
+ * Compiles the user's class with debug info and runs it under a small JDI
+ * tracer (com.sun.jdi, shipped with the JDK). The tracer single-steps the
+ * user's code and prints the same __TRACE__ / __ERROR__ lines as the Python
+ * instrumentor: every user frame's locals, objects and arrays in the heap
+ * keyed by JDI object id, and java.util collections unpacked into arrays
+ * and objects so the existing views work unchanged. Steps carry no stdin:
+ * the JVM buffers its input out of the tracer's sight.
+ */
+
+import { DEFAULT_BUDGET, TraceBudget } from "../schema";
+import { buildCompiledDriver } from "./compiledDriver";
+
+// Runs inside the JDK, so it is kept as plain Java source
+const TRACER = String.raw`
+import com.sun.jdi.*;
+import com.sun.jdi.connect.*;
+import com.sun.jdi.event.*;
+import com.sun.jdi.request.*;
+import java.io.*;
+import java.nio.charset.StandardCharsets;
+import java.util.*;
+
+public class DryRunTracer {
+    // Trace budget, passed on the command line after the main class and source file
+    static int MAX_TRACE_STEPS;
+    static int MAX_DEPTH;
+    static int MAX_LIST_NODES;
+    static int MAX_TREE_DEPTH;
+    static final String[] EXCLUDES = {"java.*", "javax.*", "sun.*", "jdk.*", "com.sun.*"};
+    static final Set<String> BOXED = new HashSet<>(Arrays.asList(
+        "java.lang.Integer", "java.lang.Long", "java.lang.Short", "java.lang.Byte",
+        "java.lang.Double", "java.lang.Float", "java.lang.Boolean", "java.lang.Character"));
+
+    interface Extra {
+        String build(Map<String, String> heap) throws Exception;
+    }
+
+    // Program output; each step carries only what was written since the previous one
+    static class Output {
+        final ByteArrayOutputStream buffer = new ByteArrayOutputStream();
+        int sent = 0;
+
+        String take() {
+            synchronized (buffer) {
+                byte[] bytes = buffer.toByteArray();
+                String text = new String(bytes, sent, bytes.length - sent, StandardCharsets.UTF_8);
+                sent = bytes.length;
+                return text;
+            }
+        }
+    }
+
+    static String userFile;
+    static VirtualMachine vm;
+    static InputStream targetOut;
+    static final Output stdout = new Output();
+    static final Output stderr = new Output();
+    static final List<EventRequest> requests = new ArrayList<>();
+    static StepRequest stepRequest = null;
+    static int stepCount = 0;
+    static boolean tracing = true;
+
+    // Frame ids are handed out on method entry so they stay stable for the lifetime of a call
+    static final List<String> frameIds = new ArrayList<>();
+    static int nextFrameId = 0;
+    // Frames an exception is propagating out of; their exit is an unwind, not a return
+    static final Set<String> unwinding = new HashSet<>();
+    static String error = null;
+    // Budget limits that cut something out of the trace, reported once at the end
+    static final Set<String> truncated = new TreeSet<>();
+
+    public static void main(String[] args) throws Exception {
+        String mainClass = args[0];
+        userFile = args[1];
+        MAX_TRACE_STEPS = Integer.parseInt(args[2]);
+        MAX_DEPTH = Integer.parseInt(args[3]);
+        MAX_LIST_NODES = Integer.parseInt(args[4]);
+        MAX_TREE_DEPTH = Integer.parseInt(args[5]);
+
+        LaunchingConnector connector = Bootstrap.virtualMachineManager().defaultConnector();
+        Map<String, Connector.Argument> arguments = connector.defaultArguments();
+        arguments.get("main").setValue(mainClass);
+        arguments.get("options").setValue("-cp .");
+        vm = connector.launch(arguments);
+
+        Process process = vm.process();
+        // Hand the program our stdin, then end-of-file
+        Thread inPump = new Thread(() -> {
+            try (OutputStream sink = process.getOutputStream()) {
+                System.in.transferTo(sink);
+            } catch (IOException e) {
+                // The program exited without reading all of it
+            }
+        });
+        inPump.setDaemon(true);
+        inPump.start();
+        targetOut = process.getInputStream();
+        Thread outPump = pump(targetOut, stdout.buffer);
+        Thread errPump = pump(process.getErrorStream(), stderr.buffer);
+
+        EventRequestManager erm = vm.eventRequestManager();
+        MethodEntryRequest entry = erm.createMethodEntryRequest();
+        MethodExitRequest exit = erm.createMethodExitRequest();
+        for (String pattern : EXCLUDES) {
+            entry.addClassExclusionFilter(pattern);
+            exit.addClassExclusionFilter(pattern);
+        }
+        // Exceptions thrown inside the JDK (e.g. list.get out of range) still matter, so no filter here
+        ExceptionRequest exceptions = erm.createExceptionRequest(null, true, true);
+        for (EventRequest request : Arrays.asList(entry, exit, exceptions)) {
+            request.setSuspendPolicy(EventRequest.SUSPEND_EVENT_THREAD);
+            request.enable();
+            requests.add(request);
+        }
+
+        try {
+            boolean running = true;
+            while (running) {
+                EventSet events = vm.eventQueue().remove();
+                for (Event event : events) {
+                    if (event instanceof VMDeathEvent || event instanceof VMDisconnectEvent) {
+                        running = false;
+                    } else if (event instanceof MethodEntryEvent) {
+                        onEntry((MethodEntryEvent) event);
+                    } else if (event instanceof MethodExitEvent) {
+                        onExit((MethodExitEvent) event);
+                    } else if (event instanceof StepEvent) {
+                        onStep((StepEvent) event);
+                    } else if (event instanceof ExceptionEvent) {
+                        onException((ExceptionEvent) event);
+                    }
+                }
+                if (running) events.resume();
+            }
+        } catch (VMDisconnectedException e) {
+            // Target exited
+        }
+
+        outPump.join(1000);
+        errPump.join(1000);
+        // Whatever no step picked up still reaches the server's stderr
+        System.err.print(stderr.take());
+        if (error != null) System.out.println("__ERROR__" + error);
+        if (!truncated.isEmpty()) {
+            StringJoiner reasons = new StringJoiner(",", "[", "]");
+            for (String reason : truncated) reasons.add(quote(reason));
+            System.out.println("__TRUNCATED__" + reasons);
+        }
+    }
+
+    static Thread pump(InputStream in, OutputStream sink) {
+        Thread thread = new Thread(() -> {
+            byte[] buffer = new byte[4096];
+            int n;
+            try {
+                while ((n = in.read(buffer)) != -1) {
+                    synchronized (sink) {
+                        sink.write(buffer, 0, n);
+                    }
+                }
+            } catch (IOException e) {
+                // Stream closed
+            }
+        });
+        thread.setDaemon(true);
+        thread.start();
+        return thread;
+    }
+
+    static void awaitOutput() {
+        // Give the pump a moment to pick up output written just before the target stopped
+        try {
+            for (int i = 0; i < 20 && targetOut.available() > 0; i++) Thread.sleep(1);
+        } catch (Exception e) {
+            // Best effort
+        }
+    }
+
+    // ─── Events ───
+
+    static void onEntry(MethodEntryEvent event) {
+        frameIds.add(String.valueOf(++nextFrameId));
+        if (stepRequest == null) {
+            stepRequest = vm.eventRequestManager().createStepRequest(
+                event.thread(), StepRequest.STEP_LINE, StepRequest.STEP_INTO);
+            for (String pattern : EXCLUDES) stepRequest.addClassExclusionFilter(pattern);
+            stepRequest.setSuspendPolicy(EventRequest.SUSPEND_EVENT_THREAD);
+            stepRequest.enable();
+            requests.add(stepRequest);
+        }
+        // The entry point plays the role of Python's <module> frame: no call step
+        if (frameIds.size() > 1) emit(event.thread(), "call", null);
+    }
+
+    static void onExit(MethodExitEvent event) {
+        if (frameIds.isEmpty()) return;
+        String id = frameIds.get(frameIds.size() - 1);
+        if (unwinding.remove(id)) {
+            // Left by an exception, already recorded
+        } else if (frameIds.size() == 1) {
+            emit(event.thread(), "return", null);
+        } else {
+            Value value = event.returnValue();
+            emit(event.thread(), "return", heap -> "\"returnValue\":" + encode(value, heap, 0, event.thread()));
+        }
+        frameIds.remove(frameIds.size() - 1);
+    }
+
+    static void onStep(StepEvent event) {
+        if (isUser(event.location())) emit(event.thread(), "line", null);
+    }
+
+    static void onException(ExceptionEvent event) {
+        Location catchLocation = event.catchLocation();
+        // The JDK throws and catches plenty internally; only user-visible exceptions count
+        if (catchLocation != null && !isUser(catchLocation)) return;
+        ThreadReference thread = event.thread();
+        List<StackFrame> frames;
+        try {
+            frames = thread.frames();
+        } catch (IncompatibleThreadStateException e) {
+            return;
+        }
+        if (frames.stream().noneMatch(f -> isUser(f.location()))) return;
+
+        // User frames above the catching frame are unwound
+        int unwound = 0;
+        for (StackFrame frame : frames) {
+            if (catchLocation != null && frame.location().method().equals(catchLocation.method())) break;
+            if (isUser(frame.location())) unwound++;
+        }
+        for (int i = 0; i < unwound && i < frameIds.size(); i++) {
+            unwinding.add(frameIds.get(frameIds.size() - 1 - i));
+        }
+
+        ObjectReference exception = event.exception();
+        String type = simpleName(exception.referenceType().name());
+        String message = exceptionMessage(exception);
+        emit(thread, "exception", heap -> "\"exception\":{\"type\":" + quote(type) + ",\"message\":" + quote(message) + "}");
+
+        if (catchLocation == null) {
+            List<String> traceback = new ArrayList<>();
+            int line = -1;
+            List<StackFrame> user = userFrames(thread);
+            for (StackFrame frame : user) {
+                line = frame.location().lineNumber();
+                traceback.add("{\"name\":" + quote(frameName(frame)) + ",\"line\":" + line + "}");
+            }
+            error = "{\"type\":" + quote(type) + ",\"message\":" + quote(message)
+                + ",\"line\":" + (line < 0 ? "null" : String.valueOf(line))
+                + ",\"traceback\":[" + String.join(",", traceback) + "]}";
+        }
+    }
+
+    // ─── Frames ───
+
+    static boolean isUser(Location location) {
+        try {
+            return location.sourceName().equals(userFile);
+        } catch (AbsentInformationException e) {
+            return false;
+        }
+    }
+
+    /** User frames, outermost first. */
+    static List<StackFrame> userFrames(ThreadReference thread) {
+        List<StackFrame> result = new ArrayList<>();
+        try {
+            for (StackFrame frame : thread.frames()) {
+                if (isUser(frame.location())) result.add(0, frame);
+            }
+        } catch (IncompatibleThreadStateException e) {
+            // Thread not suspended
+        }
+        return result;
+    }
+
+    static String frameName(StackFrame frame) {
+        Method method = frame.location().method();
+        String name = method.name();
+        if (name.equals("<init>")) return simpleName(method.declaringType().name());
+        if (name.startsWith("lambda$")) return "<lambda>";
+        return name;
+    }
+
+    static String exceptionMessage(ObjectReference exception) {
+        try {
+            Value message = exception.getValue(exception.referenceType().fieldByName("detailMessage"));
+            return message instanceof StringReference ? ((StringReference) message).value() : "";
+        } catch (Exception e) {
+            return "";
+        }
+    }
+
+    static void emit(ThreadReference thread, String event, Extra extra) {
+        if (!tracing) return;
+        if (stepCount >= MAX_TRACE_STEPS) {
+            // Stop recording and let the program run to completion
+            tracing = false;
+            truncated.add("maxSteps");
+            vm.eventRequestManager().deleteEventRequests(requests);
+            return;
+        }
+        stepCount++;
+        // Method invocations made while encoding must not trigger our own requests
+        for (EventRequest request : requests) request.disable();
+        try {
+            // Read everything from the frames first: invoking methods later invalidates them
+            List<StackFrame> frames = userFrames(thread);
+            List<String> names = new ArrayList<>();
+            List<Integer> lines = new ArrayList<>();
+            List<LinkedHashMap<String, Value>> locals = new ArrayList<>();
+            for (StackFrame frame : frames) {
+                names.add(frameName(frame));
+                lines.add(frame.location().lineNumber());
+                LinkedHashMap<String, Value> values = new LinkedHashMap<>();
+                ObjectReference self = frame.thisObject();
+                if (self != null) values.put("this", self);
+                try {
+                    for (LocalVariable variable : frame.visibleVariables()) {
+                        values.put(variable.name(), frame.getValue(variable));
+                    }
+                } catch (AbsentInformationException e) {
+                    // Compiled without -g
+                }
+                locals.add(values);
+            }
+            if (frames.isEmpty()) return;
+
+            Map<String, String> heap = new LinkedHashMap<>();
+            int offset = frameIds.size() - frames.size();
+            StringBuilder framesJson = new StringBuilder("[");
+            String stack = "{}";
+            for (int i = 0; i < frames.size(); i++) {
+                StringBuilder vars = new StringBuilder("{");
+                for (Map.Entry<String, Value> local : locals.get(i).entrySet()) {
+                    if (vars.length() > 1) vars.append(",");
+                    vars.append(quote(local.getKey())).append(":").append(encode(local.getValue(), heap, 0, thread));
+                }
+                stack = vars.append("}").toString();
+                String id = i + offset >= 0 && i + offset < frameIds.size() ? frameIds.get(i + offset) : "f" + i;
+                if (i > 0) framesJson.append(",");
+                framesJson.append("{\"id\":").append(quote(id))
+                    .append(",\"name\":").append(quote(names.get(i)))
+                    .append(",\"line\":").append(lines.get(i))
+                    .append(",\"locals\":").append(stack).append("}");
+            }
+            framesJson.append("]");
+            String extraJson = extra != null ? "," + extra.build(heap) : "";
+
+            StringBuilder heapJson = new StringBuilder("{");
+            for (Map.Entry<String, String> object : heap.entrySet()) {
+                if (object.getValue() == null) continue;
+                if (heapJson.length() > 1) heapJson.append(",");
+                heapJson.append(quote(object.getKey())).append(":").append(object.getValue());
+            }
+            heapJson.append("}");
+
+            awaitOutput();
+            System.out.println("__TRACE__{\"line\":" + lines.get(lines.size() - 1)
+                + ",\"event\":" + quote(event)
+                + ",\"stack\":" + stack
+                + ",\"heap\":" + heapJson
+                + ",\"stdout\":" + quote(stdout.take())
+                + ",\"stderr\":" + quote(stderr.take())
+                + ",\"frames\":" + framesJson
+                + extraJson + "}");
+        } catch (Exception e) {
+            // Never let tracing break the user's program
+        } finally {
+            for (EventRequest request : requests) request.enable();
+        }
+    }
+
+    // ─── Encoding ───
+
+    static String quote(String s) {
+        StringBuilder b = new StringBuilder("\"");
+        for (char c : s.toCharArray()) {
+            switch (c) {
+                case '"': b.append("\\\""); break;
+                case '\\': b.append("\\\\"); break;
+                case '\n': b.append("\\n"); break;
+                case '\r': b.append("\\r"); break;
+                case '\t': b.append("\\t"); break;
+                default:
+                    if (c < 0x20) b.append(String.format("\\u%04x", (int) c));
+                    else b.append(c);
+            }
+        }
+        return b.append('"').toString();
+    }
+
+    static String ref(String key) {
+        return "{\"__ref__\":" + quote(key) + "}";
+    }
+
+    static String entry(String type, String kind, String value) {
+        return "{\"type\":" + quote(type) + ",\"kind\":" + quote(kind) + ",\"value\":" + value + "}";
+    }
+
+    static String simpleName(String name) {
+        String simple = name.substring(name.lastIndexOf('.') + 1);
+        return simple.substring(simple.lastIndexOf('$') + 1);
+    }
+
+    static boolean hasField(ReferenceType type, String name) {
+        return type.fieldByName(name) != null;
+    }
+
+    static boolean hasNodeVal(ReferenceType type) {
+        return hasField(type, "val") || hasField(type, "value") || hasField(type, "data") || hasField(type, "key");
+    }
+
+    static boolean isTreeNode(ReferenceType type) {
+        return hasField(type, "left") && hasField(type, "right") && hasNodeVal(type);
+    }
+
+    static boolean isListNode(ReferenceType type) {
+        return hasField(type, "next") && hasNodeVal(type);
+    }
+
+    static Value field(ObjectReference obj, String name) {
+        Field f = obj.referenceType().fieldByName(name);
+        return f == null ? null : obj.getValue(f);
+    }
+
+    static Value nodeVal(ObjectReference obj) {
+        for (String name : new String[] {"val", "value", "key", "data"}) {
+            if (hasField(obj.referenceType(), name)) return field(obj, name);
+        }
+        return null;
+    }
+
+    static boolean implementsInterface(ReferenceType type, String name) {
+        if (!(type instanceof ClassType)) return false;
+        for (InterfaceType iface : ((ClassType) type).allInterfaces()) {
+            if (iface.name().equals(name)) return true;
+        }
+        return false;
+    }
+
+    /** Call a no-argument JDK method on the suspended thread. */
+    static Value invoke(ObjectReference obj, String name, ThreadReference thread) throws Exception {
+        for (Method method : obj.referenceType().methodsByName(name)) {
+            if (method.argumentTypeNames().isEmpty() && !method.isAbstract()) {
+                return obj.invokeMethod(thread, method, Collections.emptyList(), ObjectReference.INVOKE_SINGLE_THREADED);
+            }
+        }
+        return null;
+    }
+
+    static String keyString(Value key, ThreadReference thread) {
+        if (key == null) return "null";
+        if (key instanceof StringReference) return ((StringReference) key).value();
+        if (key instanceof PrimitiveValue) return key.toString();
+        ObjectReference obj = (ObjectReference) key;
+        if (BOXED.contains(obj.referenceType().name())) return keyString(field(obj, "value"), thread);
+        return simpleName(obj.referenceType().name()) + "@" + obj.uniqueID();
+    }
+
+    static String encodeLinkedList(ObjectReference head, Map<String, String> heap, int depth, ThreadReference thread) {
+        ObjectReference current = head;
+        int count = 0;
+        while (current != null) {
+            String key = String.valueOf(current.uniqueID());
+            if (heap.containsKey(key)) break; // Cycle or shared tail — already recorded
+            count++;
+            heap.put(key, null);
+            String val = encode(nodeVal(current), heap, depth + 1, thread);
+            Value next = field(current, "next");
+            String nextJson = "null";
+            ObjectReference following = null;
+            if (next instanceof ObjectReference && count >= MAX_LIST_NODES) {
+                truncated.add("maxListNodes");
+            } else if (next instanceof ObjectReference) {
+                ReferenceType type = ((ObjectReference) next).referenceType();
+                if (isListNode(type) && !isTreeNode(type)) {
+                    following = (ObjectReference) next;
+                    nextJson = ref(String.valueOf(following.uniqueID()));
+                } else {
+                    nextJson = encode(next, heap, depth + 1, thread);
+                }
+            }
+            heap.put(key, entry("list_node", simpleName(current.referenceType().name()),
+                "{\"val\":" + val + ",\"next\":" + nextJson + "}"));
+            current = following;
+        }
+        return ref(String.valueOf(head.uniqueID()));
+    }
+
+    static String encodeTree(Value value, Map<String, String> heap, int depth, int treeDepth, ThreadReference thread) {
+        if (!(value instanceof ObjectReference)) return "null";
+        ObjectReference node = (ObjectReference) value;
+        String key = String.valueOf(node.uniqueID());
+        if (heap.containsKey(key)) return ref(key);
+        if (treeDepth >= MAX_TREE_DEPTH) {
+            truncated.add("maxTreeDepth");
+            return "null";
+        }
+        heap.put(key, null);
+        String val = encode(nodeVal(node), heap, depth + 1, thread);
+        String left = encodeTree(field(node, "left"), heap, depth, treeDepth + 1, thread);
+        String right = encodeTree(field(node, "right"), heap, depth, treeDepth + 1, thread);
+        heap.put(key, entry("tree_node", simpleName(node.referenceType().name()),
+            "{\"val\":" + val + ",\"left\":" + left + ",\"right\":" + right + "}"));
+        return ref(key);
+    }
+
+    // Primitives inline, arrays and objects stored once in heap (keyed by JDI object id)
+    static String encode(Value value, Map<String, String> heap, int depth, ThreadReference thread) {
+        if (value == null || value instanceof VoidValue) return "null";
+        if (value instanceof BooleanValue) return String.valueOf(((BooleanValue) value).value());
+        if (value instanceof CharValue) return quote(String.valueOf(((CharValue) value).value()));
+        if (value instanceof FloatValue || value instanceof DoubleValue) {
+            double d = ((PrimitiveValue) value).doubleValue();
+            return Double.isNaN(d) || Double.isInfinite(d) ? quote(String.valueOf(d)) : String.valueOf(d);
+        }
+        if (value instanceof PrimitiveValue) return String.valueOf(((PrimitiveValue) value).longValue());
+        if (value instanceof StringReference) return quote(((StringReference) value).value());
+
+        ObjectReference obj = (ObjectReference) value;
+        ReferenceType type = obj.referenceType();
+        String key = String.valueOf(obj.uniqueID());
+        if (heap.containsKey(key)) return ref(key);
+        if (depth > MAX_DEPTH) {
+            truncated.add("maxDepth");
+            return quote(simpleName(type.name()));
+        }
+        try {
+            if (obj instanceof ArrayReference) {
+                heap.put(key, null);
+                List<String> items = new ArrayList<>();
+                for (Value item : ((ArrayReference) obj).getValues()) items.add(encode(item, heap, depth + 1, thread));
+                heap.put(key, entry("array", simpleName(type.name()), "[" + String.join(",", items) + "]"));
+                return ref(key);
+            }
+            String name = type.name();
+            if (BOXED.contains(name)) return encode(field(obj, "value"), heap, depth, thread);
+            if (isTreeNode(type)) return encodeTree(obj, heap, depth, 0, thread);
+            if (isListNode(type)) return encodeLinkedList(obj, heap, depth, thread);
+            if (name.startsWith("java.util.") && implementsInterface(type, "java.util.Map")) {
+                heap.put(key, null);
+                Value entries = invoke((ObjectReference) invoke(obj, "entrySet", thread), "toArray", thread);
+                List<String> fields = new ArrayList<>();
+                for (Value e : ((ArrayReference) entries).getValues()) {
+                    ObjectReference mapEntry = (ObjectReference) e;
+                    fields.add(quote(keyString(invoke(mapEntry, "getKey", thread), thread)) + ":"
+                        + encode(invoke(mapEntry, "getValue", thread), heap, depth + 1, thread));
+                }
+                heap.put(key, entry("object", simpleName(name), "{" + String.join(",", fields) + "}"));
+                return ref(key);
+            }
+            if (name.startsWith("java.util.") && implementsInterface(type, "java.util.Collection")) {
+                heap.put(key, null);
+                List<String> items = new ArrayList<>();
+                for (Value item : ((ArrayReference) invoke(obj, "toArray", thread)).getValues()) {
+                    items.add(encode(item, heap, depth + 1, thread));
+                }
+                heap.put(key, entry("array", simpleName(name), "[" + String.join(",", items) + "]"));
+                return ref(key);
+            }
+            if (name.startsWith("java.") || name.startsWith("jdk.") || name.startsWith("sun.")) {
+                return quote(simpleName(name));
+            }
+            heap.put(key, null);
+            List<String> fields = new ArrayList<>();
+            for (Field f : type.allFields()) {
+                if (f.isStatic() || f.isSynthetic() || f.name().startsWith("_")) continue;
+                fields.add(quote(f.name()) + ":" + encode(obj.getValue(f), heap, depth + 1, thread));
+            }
+            heap.put(key, entry("object", simpleName(name), "{" + String.join(",", fields) + "}"));
+            return ref(key);
+        } catch (Exception e) {
+            heap.remove(key);
+            return quote(simpleName(type.name()));
+        }
+    }
+}
+`;
+
+/** Name of the class holding `main`, which also decides the file name javac expects. */
+const findMainClass = (userCode: string): string => {
+    const publicClass = userCode.match(/public\s+(?:final\s+)?class\s+(\w+)/);
+    if (publicClass) return publicClass[1];
+    const mainClass = userCode.match(/class\s+(\w+)[^{]*\{[\s\S]*?static\s+void\s+main\s*\(/);
+    return mainClass ? mainClass[1] : "Main";
+};
+
+export const instrumentJava = (userCode: string, budget: TraceBudget = DEFAULT_BUDGET): string => {
+    const mainClass = findMainClass(userCode);
+    const sourceFile = `${mainClass}.java`;
+
+    return buildCompiledDriver({
+        files: {
+            [sourceFile]: userCode,
+            "DryRunTracer.java": TRACER.trim(),
+        },
+        compile: [
+            ["javac", "-g", "-encoding", "UTF-8", "-d", ".", sourceFile],
+            ["javac", "-encoding", "UTF-8", "-d", ".", "DryRunTracer.java"],
+        ],
+        errorPattern: String.raw`^\S+\.java:(?P<line>\d+): error: (?P<message>.+)$`,
+        run: [
+            "java", "-cp", ".", "DryRunTracer", mainClass, sourceFile,
+            String(budget.maxSteps), String(budget.maxDepth), String(budget.maxListNodes), String(budget.maxTreeDepth),
+        ],
+    });
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { executeLocal } from "@/lib/execution/local";
+import { Access, Trace } from "../schema";
+import { parseError, parseTrace } from "../parsers/traceParser";
+import { findPointerTargets } from "@/lib/arrayPointers";
+import { instrumentJavaScript, instrumentTypeScript } from "./javascript";
+
+async function run(instrumented: string) {
+    const { stdout } = await executeLocal(instrumented, "node");
+    const trace = parseTrace(stdout);
+    return { trace, error: parseError(stdout), output: trace.map(step => step.stdout).join("") };
+}
+
+/** Accesses per line that made them, as [kind, name, path] */
+const accessesByLine = (trace: Trace) => {
+    const byLine: Record<number, Array<[Access["kind"], string, Access["path"]]>> = {};
+    for (let s = 1; s < trace.length; s++) {
+        for (const { kind, name, path } of trace[s].accesses) (byLine[trace[s - 1].line] ??= []).push([kind, name, path]);
+    }
+    return byLine;
+};
+
+describe("JavaScript tracer subscript accesses", () => {
+    it("records reads, writes and swaps with the variables each index came from", async () => {
+        const { trace, error } = await run(instrumentJavaScript([
+            "const a = [3, 1];",
+            "let j = 0;",
+            "if (a[j] > a[j + 1]) [a[j], a[j + 1]] = [a[j + 1], a[j]];",
+            "const dp = [[0, 0], [0, 0]];",
+            "dp[1][j] = dp[0][j] + 1;",
+            "a[1]++;",
+        ].join("\n")));
+        expect(error).toBeNull();
+        expect(accessesByLine(trace)).toEqual({
+            3: [
+                ["read", "a", [0]], ["read", "a", [1]],
+                ["read", "a", [1]], ["read", "a", [0]], ["write", "a", [0]], ["write", "a", [1]],
+            ],
+            5: [["read", "dp", [0, 0]], ["write", "dp", [1, 0]]],
+            6: [["read", "a", [1]], ["write", "a", [1]]],
+        });
+        expect(findPointerTargets(trace)).toEqual({ j: ["a"] });
+        const swap = trace.find(step => step.accesses.some(a => a.kind === "write"))!;
+        expect(swap.accesses[0]).toMatchObject({ address: swap.refs.a, indexVars: ["j"] });
+    });
+
+    it("leaves method calls, calls through subscripts, strings and deletes working", async () => {
+        const { trace, output, error } = await run(instrumentJavaScript([
+            "const lists = [[]];",
+            "lists[0].push(4);",
+            "const fns = [(x) => x * 2];",
+            "const o = { k: 1 };",
+            "delete o['k'];",
+            "const s = 'abc';",
+            "console.log(fns[0](3), s[1], lists, o);",
+        ].join("\n")));
+        expect(error).toBeNull();
+        expect(output).toBe("6 b [ [ 4 ] ] {}\n");
+        expect(accessesByLine(trace)).toEqual({ 2: [["read", "lists", [0]]] });
+    });
+
+    it("records accesses through TypeScript's type assertions", async () => {
+        const { trace, error } = await run(instrumentTypeScript([
+            "const arr: number[] = [5, 6, 7];",
+            "const k: number = 0;",
+            "(arr[2] as number) = (arr[k] as number) + arr[k + 1]!;",
+        ].join("\n")));
+        expect(error).toBeNull();
+        expect(accessesByLine(trace)).toEqual({ 3: [["read", "arr", [0]], ["read", "arr", [1]], ["write", "arr", [2]]] });
+    });
+});
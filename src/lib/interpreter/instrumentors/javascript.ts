@@ -0,0 +1,815 @@
+/**
+ * JavaScript / TypeScript Instrumentor
+ *
+ * Rewrites the user's source with the TypeScript compiler API: every
+ * statement first reports the variables in scope, and every function
+ * reports its call, return value and any exception escaping it. The
+ * rewritten program runs under Node and prints the same __TRACE__ /
+ * __ERROR__ lines as the Python instrumentor, heap references included.
+ * Subscripts on arrays and plain objects (nums[i], dp[i][j] = ...) are
+ * wrapped so each step also lists the indices read and written since the
+ * previous one.
+ *
+ * Async functions and generators suspend mid-body, so they run untraced.
+ */
+
+import ts from "typescript";
+import { DEFAULT_BUDGET, TraceBudget } from "../schema";
+
+interface Scope {
+    names: Set<string>;
+    /** Function (and module) scopes bound a frame's locals */
+    isFunction: boolean;
+    /** Methods and arrows inside them can show `this` like Python shows `self` */
+    hasThis: boolean;
+    /** False inside async functions and generators */
+    traced: boolean;
+}
+
+interface Insertion {
+    pos: number;
+    text: string;
+}
+
+type FunctionWithBody = ts.FunctionLikeDeclarationBase & { body: ts.ConciseBody };
+
+// Statements that never execute as a step of their own
+const UNTRACED_STATEMENTS = new Set([
+    ts.SyntaxKind.FunctionDeclaration,
+    ts.SyntaxKind.InterfaceDeclaration,
+    ts.SyntaxKind.TypeAliasDeclaration,
+    ts.SyntaxKind.ImportDeclaration,
+    ts.SyntaxKind.ImportEqualsDeclaration,
+    ts.SyntaxKind.ExportDeclaration,
+    ts.SyntaxKind.ExportAssignment,
+    ts.SyntaxKind.ModuleDeclaration,
+    ts.SyntaxKind.EmptyStatement,
+]);
+
+const collectBindingNames = (name: ts.BindingName, into: Set<string>) => {
+    if (ts.isIdentifier(name)) {
+        into.add(name.text);
+        return;
+    }
+    for (const element of name.elements) {
+        if (ts.isBindingElement(element)) collectBindingNames(element.name, into);
+    }
+};
+
+/** `var` declarations anywhere in a function body belong to the function scope. */
+const collectVarNames = (node: ts.Node, into: Set<string>) => {
+    ts.forEachChild(node, (child) => {
+        if (ts.isFunctionLike(child) || ts.isClassLike(child)) return;
+        if (ts.isVariableDeclarationList(child) && !(child.flags & ts.NodeFlags.BlockScoped)) {
+            for (const decl of child.declarations) collectBindingNames(decl.name, into);
+        }
+        collectVarNames(child, into);
+    });
+};
+
+/** `let`/`const` declared directly in a statement list. */
+const collectLexicalNames = (statements: readonly ts.Statement[], into: Set<string>) => {
+    for (const stmt of statements) {
+        if (ts.isVariableStatement(stmt) && stmt.declarationList.flags & ts.NodeFlags.BlockScoped) {
+            for (const decl of stmt.declarationList.declarations) collectBindingNames(decl.name, into);
+        }
+    }
+};
+
+const isLoop = (node: ts.Node): node is ts.IterationStatement =>
+    ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node) ||
+    ts.isWhileStatement(node) || ts.isDoStatement(node);
+
+const hasModifier = (node: ts.Node, kind: ts.SyntaxKind) =>
+    ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === kind);
+
+/** Block scope introduced by a node, if any (function bodies are handled separately). */
+const blockScopeFor = (node: ts.Node, parentTraced: boolean): Scope | null => {
+    const names = new Set<string>();
+    if (ts.isBlock(node)) {
+        collectLexicalNames(node.statements, names);
+    } else if (ts.isCaseBlock(node)) {
+        for (const clause of node.clauses) collectLexicalNames(clause.statements, names);
+    } else if (ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node)) {
+        const init = node.initializer;
+        if (init && ts.isVariableDeclarationList(init) && init.flags & ts.NodeFlags.BlockScoped) {
+            for (const decl of init.declarations) collectBindingNames(decl.name, names);
+        }
+    } else if (ts.isCatchClause(node)) {
+        if (node.variableDeclaration) collectBindingNames(node.variableDeclaration.name, names);
+    } else {
+        return null;
+    }
+    return { names, isFunction: false, hasThis: false, traced: parentTraced };
+};
+
+/** Wrappers that leave what they wrap an assignment target: (a[i])!, a[i] as number */
+const isTransparent = (node: ts.Node) =>
+    ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node) || ts.isAsExpression(node) ||
+    ts.isTypeAssertionExpression(node) || ts.isSatisfiesExpression(node);
+
+const skipTransparent = (node: ts.Expression): ts.Expression => {
+    while (isTransparent(node)) node = (node as ts.ParenthesizedExpression).expression;
+    return node;
+};
+
+const outermost = (node: ts.Node): ts.Node => {
+    while (isTransparent(node.parent)) node = node.parent;
+    return node;
+};
+
+const isAssignment = (node: ts.Node): node is ts.AssignmentExpression<ts.AssignmentOperatorToken> =>
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment && node.operatorToken.kind <= ts.SyntaxKind.LastAssignment;
+
+const isIncrement = (node: ts.Node): node is ts.PrefixUnaryExpression | ts.PostfixUnaryExpression =>
+    (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+    (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken);
+
+/** Whether `node` is stored to: an assignment's left side, or part of a destructuring pattern that is. */
+const isStoredTo = (node: ts.Node): boolean => {
+    const outer = outermost(node);
+    const parent = outer.parent;
+    if (isAssignment(parent) && parent.left === outer) return true;
+    if (isIncrement(parent)) return true;
+    if ((ts.isForInStatement(parent) || ts.isForOfStatement(parent)) && parent.initializer === outer) return true;
+    if (ts.isArrayLiteralExpression(parent) || ts.isSpreadElement(parent) || ts.isSpreadAssignment(parent)) return isStoredTo(parent);
+    if (ts.isPropertyAssignment(parent) && parent.initializer === outer) return isStoredTo(parent.parent);
+    return false;
+};
+
+interface Subscript {
+    root: ts.Identifier;
+    /** Index expressions, outermost container first */
+    keys: ts.Expression[];
+}
+
+/** name[a][b]... on a plain variable, or null for other roots, optional chains and inner links of a chain */
+const subscriptOf = (node: ts.Node): Subscript | null => {
+    if (!ts.isElementAccessExpression(node)) return null;
+    if (ts.isElementAccessExpression(node.parent) && node.parent.expression === node) return null;
+    const keys: ts.Expression[] = [];
+    let current: ts.Expression = node;
+    while (ts.isElementAccessExpression(current)) {
+        if (current.questionDotToken) return null;
+        keys.unshift(current.argumentExpression);
+        current = current.expression;
+    }
+    return ts.isIdentifier(current) ? { root: current, keys } : null;
+};
+
+/** Variables the first index is computed from: i for nums[i + 1], as the Python tracer records them */
+const indexVarsOf = (key: ts.Expression): string[] => {
+    const names = new Set<string>();
+    const walk = (node: ts.Node) => {
+        if (ts.isIdentifier(node)) names.add(node.text);
+        else if (ts.isPropertyAccessExpression(node)) walk(node.expression);
+        else ts.forEachChild(node, walk);
+    };
+    walk(key);
+    return [...names].sort();
+};
+
+/** Subscripts an assignment stores to, in evaluation order: a[i] in a[i] = x, both in [a[i], a[j]] = ... */
+const storedSubscripts = (target: ts.Expression, into: Subscript[] = []): Subscript[] => {
+    const node = skipTransparent(target);
+    const subscript = subscriptOf(node);
+    if (subscript) {
+        into.push(subscript);
+    } else if (ts.isArrayLiteralExpression(node)) {
+        for (const element of node.elements) storedSubscripts(element, into);
+    } else if (ts.isObjectLiteralExpression(node)) {
+        for (const property of node.properties) {
+            if (ts.isPropertyAssignment(property)) storedSubscripts(property.initializer, into);
+            else if (ts.isSpreadAssignment(property)) storedSubscripts(property.expression, into);
+        }
+    } else if (ts.isSpreadElement(node)) {
+        storedSubscripts(node.expression, into);
+    } else if (isAssignment(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+        // A default value inside a pattern: [a[i] = 0] = ...
+        storedSubscripts(node.left, into);
+    }
+    return into;
+};
+
+/** Reads that a wrapper would break: callees keep their `this`, and delete needs the reference */
+const isPlainRead = (node: ts.Node): boolean => {
+    const outer = outermost(node);
+    const parent = outer.parent;
+    if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === outer) return false;
+    if (ts.isTaggedTemplateExpression(parent) && parent.tag === outer) return false;
+    if (ts.isDeleteExpression(parent)) return false;
+    return !isStoredTo(node);
+};
+
+/**
+ * Insert tracing calls into the source. Insertions at the same position
+ * keep the order they were recorded in, so outer wrappers open first and
+ * close last.
+ */
+const rewrite = (source: ts.SourceFile): string => {
+    const insertions: Insertion[] = [];
+    const insert = (pos: number, text: string) => insertions.push({ pos, text });
+    const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+
+    const moduleScope: Scope = { names: new Set(), isFunction: true, hasThis: false, traced: true };
+    collectVarNames(source, moduleScope.names);
+    collectLexicalNames(source.statements, moduleScope.names);
+    const scopes: Scope[] = [moduleScope];
+    const current = () => scopes[scopes.length - 1];
+
+    /** `{ name: () => name, ... }` for every local visible in the current frame */
+    const scopeGetters = (frameScopes: Scope[]) => {
+        let start = frameScopes.length - 1;
+        while (start > 0 && !frameScopes[start].isFunction) start--;
+        const names = new Set<string>();
+        for (const scope of frameScopes.slice(start)) {
+            for (const name of scope.names) names.add(name);
+        }
+        const hasThis = frameScopes[start].hasThis;
+        const getters = [...names]
+            .filter((name) => !name.startsWith("__") && name !== "this" && name !== "arguments")
+            .map((name) => `${name}: () => ${name}`);
+        if (hasThis) getters.push("this: () => this");
+        return `{ ${getters.join(", ")} }`;
+    };
+
+    const traceLine = (line: number) => `__dr__.line(${line}, ${scopeGetters(scopes)}); `;
+
+    const traceStatements = (statements: readonly ts.Statement[]) => {
+        if (!current().traced) return;
+        let previousLine = -1;
+        for (const stmt of statements) {
+            if (UNTRACED_STATEMENTS.has(stmt.kind)) continue;
+            // Leave directive prologues such as "use strict" alone
+            if (ts.isExpressionStatement(stmt) && ts.isStringLiteral(stmt.expression)) continue;
+            // Several statements on one line are a single step, as in Python
+            const line = lineOf(stmt);
+            if (line === previousLine) continue;
+            previousLine = line;
+            insert(stmt.getStart(source), traceLine(line));
+        }
+    };
+
+    /** Give an unbraced if/else/loop body its own block so it can be traced. Returns the closing position. */
+    const wrapBody = (owner: ts.Statement, body: ts.Statement, header: number | null): number | null => {
+        if (!current().traced) return null;
+        if (ts.isBlock(body)) {
+            if (header !== null) insert(body.getStart(source) + 1, ` ${traceLine(header)}`);
+            return null;
+        }
+        const headerTrace = header !== null ? traceLine(header) : "";
+        // `if (n < 2) return n;` is one line, so one step
+        const bodyTrace = lineOf(body) !== lineOf(owner) ? traceLine(lineOf(body)) : "";
+        insert(body.getStart(source), `{ ${headerTrace}${bodyTrace}`);
+        return body.getEnd();
+    };
+
+    /**
+     * Wrap a subscript read, or an assignment to subscripts, so the runtime
+     * sees every index as it is computed. Opens the wrapper and returns where
+     * to close it, once the node's children have been visited.
+     */
+    const wrapAccesses = (node: ts.Node): Insertion[] => {
+        const closes: Insertion[] = [];
+        const wrapKeys = (subscripts: Subscript[]) => {
+            for (const { keys } of subscripts) {
+                for (const key of keys) {
+                    insert(key.getStart(source), "__dr_k__(");
+                    closes.push({ pos: key.getEnd(), text: ")" });
+                }
+            }
+        };
+
+        const read = subscriptOf(node);
+        if (read && isPlainRead(node)) {
+            const { root, keys } = read;
+            insert(node.getStart(source), `__dr__.read(${JSON.stringify(root.text)}, ${root.text}, ${JSON.stringify(indexVarsOf(keys[0]))}, (__dr_k__) => `);
+            wrapKeys([read]);
+            closes.push({ pos: node.getEnd(), text: ")" });
+            return closes;
+        }
+
+        let stored: Subscript[] = [];
+        let compound = false;
+        if (isAssignment(node) && !isStoredTo(node)) {
+            stored = storedSubscripts(node.left);
+            compound = node.operatorToken.kind !== ts.SyntaxKind.EqualsToken;
+        } else if (isIncrement(node)) {
+            const subscript = subscriptOf(skipTransparent(node.operand));
+            stored = subscript ? [subscript] : [];
+            compound = true;
+        }
+        if (stored.length === 0) return closes;
+        const targets = stored.map(({ root, keys }) =>
+            `[${JSON.stringify(root.text)}, ${root.text}, ${JSON.stringify(indexVarsOf(keys[0]))}, ${keys.length}]`);
+        insert(node.getStart(source), `__dr__.write([${targets.join(", ")}], ${compound}, (__dr_k__) => (`);
+        wrapKeys(stored);
+        closes.push({ pos: node.getEnd(), text: "))" });
+        return closes;
+    };
+
+    const functionName = (node: FunctionWithBody): string => {
+        if (ts.isConstructorDeclaration(node)) return "constructor";
+        if (node.name) return node.name.getText(source);
+        const parent = node.parent;
+        if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) ||
+            ts.isPropertyDeclaration(parent)) && !ts.isObjectBindingPattern(parent.name) &&
+            !ts.isArrayBindingPattern(parent.name)) {
+            return parent.name.getText(source);
+        }
+        return "<anonymous>";
+    };
+
+    const visitFunction = (node: FunctionWithBody) => {
+        const body = node.body;
+        const isMethod = ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) ||
+            ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node);
+        // Arrows see the `this` of the function they were written in
+        const inheritsThis = ts.isArrowFunction(node) &&
+            [...scopes].reverse().find((s) => s.isFunction)?.hasThis === true;
+        const traced = !node.asteriskToken && !hasModifier(node, ts.SyntaxKind.AsyncKeyword);
+
+        const scope: Scope = { names: new Set(), isFunction: true, hasThis: isMethod || inheritsThis, traced };
+        for (const param of node.parameters) collectBindingNames(param.name, scope.names);
+        const params = scopeGetters([scope]);
+        collectVarNames(body, scope.names);
+        if (ts.isBlock(body)) collectLexicalNames(body.statements, scope.names);
+
+        for (const param of node.parameters) visit(param);
+        scopes.push(scope);
+
+        const enter = `const __dr_frame__ = __dr__.enter(${JSON.stringify(functionName(node))}, ${lineOf(node)}, ${params});`;
+        const exit = "catch (__dr_err__) { __dr__.raise(__dr_frame__, __dr_err__); throw __dr_err__; } " +
+            "finally { __dr__.leave(__dr_frame__); }";
+
+        if (ts.isBlock(body)) {
+            if (traced) insert(body.getStart(source) + 1, ` ${enter} try { `);
+            traceStatements(body.statements);
+            ts.forEachChild(body, visit);
+            if (traced) insert(body.getEnd() - 1, ` } ${exit} `);
+        } else {
+            if (traced) insert(body.getStart(source), `{ ${enter} try { return __dr__.ret((`);
+            visit(body);
+            if (traced) insert(body.getEnd(), `)); } ${exit} }`);
+        }
+        scopes.pop();
+    };
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isFunctionLike(node) && "body" in node && node.body) {
+            visitFunction(node as FunctionWithBody);
+            return;
+        }
+        // Type-only syntax never runs
+        if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) || ts.isTypeNode(node)) return;
+
+        const scope = blockScopeFor(node, current().traced);
+        if (scope) scopes.push(scope);
+
+        const closes: number[] = [];
+        if (ts.isBlock(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+            traceStatements(node.statements);
+        }
+        if (isLoop(node)) {
+            // Like Python, revisit the loop header at the start of every iteration
+            const header = ts.isDoStatement(node) ? null : lineOf(node);
+            const close = wrapBody(node, node.statement, header);
+            if (close !== null) closes.push(close);
+        }
+        if (ts.isIfStatement(node)) {
+            for (const branch of [node.thenStatement, node.elseStatement]) {
+                if (!branch) continue;
+                const close = wrapBody(node, branch, null);
+                if (close !== null) closes.push(close);
+            }
+        }
+        if (ts.isReturnStatement(node) && node.expression && current().traced) {
+            insert(node.expression.getStart(source), "__dr__.ret((");
+        }
+        const accessCloses = current().traced ? wrapAccesses(node) : [];
+
+        ts.forEachChild(node, visit);
+
+        for (const { pos, text } of accessCloses) insert(pos, text);
+
+        if (ts.isReturnStatement(node) && node.expression && current().traced) {
+            insert(node.expression.getEnd(), "))");
+        }
+        for (const pos of closes) insert(pos, " }");
+        if (scope) scopes.pop();
+    };
+
+    traceStatements(source.statements);
+    ts.forEachChild(source, visit);
+
+    const text = source.text;
+    const ordered = insertions
+        .map((ins, order) => ({ ...ins, order }))
+        .sort((a, b) => a.pos - b.pos || a.order - b.order);
+    let out = "";
+    let last = 0;
+    for (const ins of ordered) {
+        out += text.slice(last, ins.pos) + ins.text;
+        last = ins.pos;
+    }
+    return out + text.slice(last);
+};
+
+/** A program that only reports a syntax error, mirroring the Python wrapper's compile failure. */
+const syntaxErrorProgram = (diagnostic: ts.Diagnostic): string => {
+    const line = diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+        : null;
+    const error = {
+        type: "SyntaxError",
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+        line,
+        traceback: [],
+    };
+    return `process.stdout.write(${JSON.stringify(`__ERROR__${JSON.stringify(error)}\n`)});`;
+};
+
+// Node runtime that records steps. Kept free of template placeholders and backticks;
+// the trace budget arrives as __DR_BUDGET__, defined just before it.
+const RUNTIME = `
+const __dr__ = (() => {
+    const util = require("util");
+    const realWrite = process.stdout.write.bind(process.stdout);
+
+    const MAX_TRACE_STEPS = __DR_BUDGET__.maxSteps;
+    const MAX_DEPTH = __DR_BUDGET__.maxDepth;
+    const MAX_LIST_NODES = __DR_BUDGET__.maxListNodes;
+    const MAX_TREE_DEPTH = __DR_BUDGET__.maxTreeDepth;
+
+    // Budget limits that cut something out of the trace, reported once at the end
+    const truncated = new Set();
+
+    // Setup stdout/stderr capture; each step carries only what was written since the previous one
+    let stdout = "";
+    let stderr = "";
+    console.log = console.info = console.debug = (...args) => { stdout += util.format(...args) + "\\n"; };
+    console.warn = console.error = (...args) => { stderr += util.format(...args) + "\\n"; };
+    process.stdout.write = (chunk) => { stdout += String(chunk); return true; };
+    process.stderr.write = (chunk) => { stderr += String(chunk); return true; };
+
+    // Input read since the previous step; synchronous programs read stdin with fs.readFileSync(0)
+    const fs = require("fs");
+    const realReadFileSync = fs.readFileSync;
+    let stdin = "";
+    fs.readFileSync = function (path, ...rest) {
+        const result = realReadFileSync.call(this, path, ...rest);
+        if (path === 0 || path === "/dev/stdin") stdin += String(result);
+        return result;
+    };
+
+    // Object identity: the heap is keyed by a stable id per object, like id() in Python
+    const ids = new WeakMap();
+    let nextId = 0;
+    const addressOf = (obj) => {
+        if (!ids.has(obj)) ids.set(obj, String(++nextId));
+        return ids.get(obj);
+    };
+    const ref = (obj) => ({ __ref__: addressOf(obj) });
+
+    // Subscript accesses made since the previous step, through read()/write() wrappers
+    const accesses = [];
+    const MAX_ACCESSES = 64;
+
+    const isArrayLike = (val) => Array.isArray(val) || (ArrayBuffer.isView(val) && !(val instanceof DataView));
+    const isPlainObject = (val) => val !== null && typeof val === "object" &&
+        (Object.getPrototypeOf(val) === Object.prototype || Object.getPrototypeOf(val) === null);
+
+    // The key as the trace stores it: array indices as numbers, object keys as strings
+    const accessKey = (container, key) => {
+        if (isArrayLike(container)) {
+            const index = typeof key === "string" && /^\d+$/.test(key) ? Number(key) : key;
+            return Number.isInteger(index) && index >= 0 ? index : null;
+        }
+        if (isPlainObject(container) && typeof key !== "symbol") return String(key);
+        return null;
+    };
+
+    const recordAccess = (kind, name, root, keys, indexVars) => {
+        if (accesses.length >= MAX_ACCESSES || !(isArrayLike(root) || isPlainObject(root))) return;
+        const path = [];
+        let container = root;
+        for (const key of keys) {
+            const normalized = accessKey(container, key);
+            if (normalized === null) return;
+            path.push(normalized);
+            container = container[key];
+        }
+        accesses.push({ kind, name, address: addressOf(root), path, indexVars });
+    };
+
+    const has = (obj, key) => obj !== null && typeof obj === "object" && key in obj;
+    const hasNodeVal = (obj) => has(obj, "val") || has(obj, "value") || has(obj, "data") || has(obj, "key");
+    const isTreeNode = (obj) => has(obj, "left") && has(obj, "right") && hasNodeVal(obj);
+    const isListNode = (obj) => has(obj, "next") && typeof obj.next !== "function" && hasNodeVal(obj);
+    const nodeVal = (obj) => {
+        if ("val" in obj) return obj.val;
+        if ("value" in obj) return obj.value;
+        if ("key" in obj) return obj.key;
+        return obj.data;
+    };
+    const kindOf = (obj) => (obj.constructor && obj.constructor.name) || "Object";
+
+    const encodeLinkedList = (head, heap, depth) => {
+        let current = head;
+        let count = 0;
+        while (current !== null && current !== undefined) {
+            const key = addressOf(current);
+            if (key in heap) break; // Cycle or shared tail — already recorded
+            count++;
+            const entry = { type: "list_node", kind: kindOf(current), value: {
+                val: encode(nodeVal(current), heap, depth + 1),
+                next: null,
+            } };
+            heap[key] = entry;
+            const nxt = current.next;
+            if (nxt === null || nxt === undefined) break;
+            if (count >= MAX_LIST_NODES) {
+                truncated.add("maxListNodes");
+                break;
+            }
+            if (isListNode(nxt) && !isTreeNode(nxt)) {
+                entry.value.next = ref(nxt);
+                current = nxt;
+            } else {
+                entry.value.next = encode(nxt, heap, depth + 1);
+                break;
+            }
+        }
+        return ref(head);
+    };
+
+    const encodeTree = (node, heap, depth, treeDepth) => {
+        if (node === null || node === undefined) return null;
+        const key = addressOf(node);
+        if (key in heap) return ref(node);
+        if (treeDepth >= MAX_TREE_DEPTH) {
+            truncated.add("maxTreeDepth");
+            return null;
+        }
+        const entry = { type: "tree_node", kind: kindOf(node), value: {} };
+        heap[key] = entry;
+        entry.value = {
+            val: encode(nodeVal(node), heap, depth + 1),
+            left: encodeTree(node.left, heap, depth, treeDepth + 1),
+            right: encodeTree(node.right, heap, depth, treeDepth + 1),
+        };
+        return ref(node);
+    };
+
+    // Primitives inline, containers and objects stored once in heap and referenced
+    const encode = (val, heap, depth) => {
+        if (val === null || val === undefined) return null;
+        const type = typeof val;
+        if (type === "number") return Number.isFinite(val) ? val : String(val);
+        if (type === "string" || type === "boolean") return val;
+        if (type === "bigint" || type === "symbol") return String(val);
+        if (type === "function") return "<function " + (val.name || "anonymous") + ">";
+        const key = addressOf(val);
+        if (key in heap) return { __ref__: key };
+        if (depth > MAX_DEPTH) {
+            truncated.add("maxDepth");
+            return Object.prototype.toString.call(val);
+        }
+        try {
+            if (isTreeNode(val)) return encodeTree(val, heap, depth, 0);
+            if (isListNode(val)) return encodeLinkedList(val, heap, depth);
+            const kind = kindOf(val);
+            if (Array.isArray(val) || ArrayBuffer.isView(val)) {
+                const entry = { type: "array", kind, value: [] };
+                heap[key] = entry;
+                entry.value = Array.from(val, (v) => encode(v, heap, depth + 1));
+                return { __ref__: key };
+            }
+            if (val instanceof Set) {
+                const entry = { type: "array", kind, value: [] };
+                heap[key] = entry;
+                entry.value = [...val].sort((a, b) => String(a).localeCompare(String(b)))
+                    .map((v) => encode(v, heap, depth + 1));
+                return { __ref__: key };
+            }
+            if (val instanceof Map) {
+                const entry = { type: "object", kind, value: {} };
+                heap[key] = entry;
+                for (const [k, v] of val) entry.value[String(k)] = encode(v, heap, depth + 1);
+                return { __ref__: key };
+            }
+            if (val instanceof Date) return val.toISOString();
+            const entry = { type: "object", kind, value: {} };
+            heap[key] = entry;
+            for (const k of Object.keys(val)) {
+                if (k.startsWith("_") || typeof val[k] === "function") continue;
+                entry.value[k] = encode(val[k], heap, depth + 1);
+            }
+            return { __ref__: key };
+        } catch (e) {
+            return String(val);
+        }
+    };
+
+    const readScope = (scope, heap) => {
+        const result = {};
+        if (!scope) return result;
+        for (const name of Object.keys(scope)) {
+            let val;
+            try {
+                val = scope[name]();
+            } catch (e) {
+                continue; // Still in its temporal dead zone
+            }
+            if (val === undefined || typeof val === "function") continue;
+            result[name] = encode(val, heap, 0);
+        }
+        return result;
+    };
+
+    const frames = [];
+    let nextFrameId = 0;
+    let stepCount = 0;
+    let emitting = false;
+    let finished = false;
+    let lastStep = { event: "", frame: null, line: 0 };
+    // Traceback captured where an error was first raised, before frames unwind
+    const tracebacks = new WeakMap();
+
+    const snapshot = () => frames.map((f) => ({ name: f.name, line: f.line }));
+
+    const describe = (err) => err instanceof Error
+        ? { type: err.name || "Error", message: err.message }
+        : { type: "Error", message: "Uncaught " + util.inspect(err) };
+
+    const emit = (event, extra) => {
+        if (finished || emitting || frames.length === 0) return;
+        const taken = accesses.splice(0);
+        if (stepCount >= MAX_TRACE_STEPS) {
+            truncated.add("maxSteps");
+            return;
+        }
+        stepCount++;
+        lastStep = { event, frame: frames[frames.length - 1], line: frames[frames.length - 1].line };
+        emitting = true;
+        try {
+            const heap = {};
+            const serialized = frames.map((f) => ({
+                id: f.id,
+                name: f.name,
+                line: f.line,
+                locals: readScope(f.scope, heap),
+            }));
+            const state = {
+                line: frames[frames.length - 1].line,
+                event,
+                stack: serialized[serialized.length - 1].locals,
+                heap,
+                stdout,
+                stderr,
+                stdin,
+                frames: serialized,
+                accesses: taken,
+            };
+            if (extra) Object.assign(state, extra(heap));
+            realWrite("__TRACE__" + JSON.stringify(state) + "\\n");
+            stdout = stderr = stdin = "";
+        } catch (e) {
+            // Never let tracing break the user's program
+        } finally {
+            emitting = false;
+        }
+    };
+
+    const pushFrame = (name, line, scope) => {
+        const frame = { id: String(++nextFrameId), name, line, scope, returnValue: undefined, raised: false };
+        frames.push(frame);
+        return frame;
+    };
+
+    const removeFrame = (frame) => {
+        const index = frames.lastIndexOf(frame);
+        if (index !== -1) frames.splice(index, 1);
+    };
+
+    const raise = (frame, err) => {
+        if (err !== null && typeof err === "object" && !tracebacks.has(err)) {
+            tracebacks.set(err, snapshot());
+        }
+        frame.raised = true;
+        emit("exception", () => ({ exception: describe(err) }));
+    };
+
+    const report = (err) => {
+        const traceback = (err !== null && typeof err === "object" && tracebacks.get(err)) || snapshot();
+        const error = {
+            ...describe(err),
+            line: traceback.length > 0 ? traceback[traceback.length - 1].line : null,
+            traceback,
+        };
+        realWrite("__ERROR__" + JSON.stringify(error) + "\\n");
+    };
+
+    return {
+        line(line, scope) {
+            const frame = frames[frames.length - 1];
+            if (!frame) return;
+            frame.scope = scope;
+            // Nested statements sharing a line (e.g. "try { f(); }") are one step
+            if (lastStep.event === "line" && lastStep.frame === frame && lastStep.line === line) return;
+            frame.line = line;
+            emit("line");
+        },
+        enter(name, line, scope) {
+            const frame = pushFrame(name, line, scope);
+            emit("call");
+            return frame;
+        },
+        ret(value) {
+            const frame = frames[frames.length - 1];
+            if (frame) frame.returnValue = value;
+            return value;
+        },
+        raise,
+        // name[a][b]: get() computes it, passing each index through key()
+        read(name, root, indexVars, get) {
+            const keys = [];
+            const value = get((key) => {
+                keys.push(key);
+                return key;
+            });
+            recordAccess("read", name, root, keys, indexVars);
+            return value;
+        },
+        // An assignment to [name, root, indexVars, depth] targets, recorded once it is done
+        write(targets, compound, assign) {
+            const keys = [];
+            const value = assign((key) => {
+                keys.push(key);
+                return key;
+            });
+            let offset = 0;
+            for (const [name, root, indexVars, depth] of targets) {
+                const own = keys.slice(offset, offset + depth);
+                offset += depth;
+                if (compound) recordAccess("read", name, root, own, indexVars);
+                recordAccess("write", name, root, own, indexVars);
+            }
+            return value;
+        },
+        leave(frame) {
+            // A frame unwinding from an exception does not get a "return" step
+            if (!frame.raised) {
+                emit("return", (heap) => ({ returnValue: encode(frame.returnValue, heap, 0) }));
+            }
+            removeFrame(frame);
+        },
+        run(main) {
+            const moduleFrame = pushFrame("<module>", 1, null);
+            try {
+                main();
+                emit("return");
+            } catch (err) {
+                if (!moduleFrame.raised) raise(moduleFrame, err);
+                report(err);
+            } finally {
+                finished = true;
+                if (truncated.size > 0) realWrite("__TRUNCATED__" + JSON.stringify([...truncated].sort()) + "\\n");
+            }
+        },
+    };
+})();
+`;
+
+const instrument = (userCode: string, typescript: boolean, budget: TraceBudget): string => {
+    const fileName = typescript ? "main.ts" : "main.js";
+    const compilerOptions: ts.CompilerOptions = {
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.CommonJS,
+    };
+
+    const check = ts.transpileModule(userCode, { fileName, compilerOptions, reportDiagnostics: true });
+    if (check.diagnostics && check.diagnostics.length > 0) {
+        return syntaxErrorProgram(check.diagnostics[0]);
+    }
+
+    const source = ts.createSourceFile(
+        fileName,
+        userCode,
+        ts.ScriptTarget.Latest,
+        true,
+        typescript ? ts.ScriptKind.TS : ts.ScriptKind.JS,
+    );
+    // Strips types and turns import/export into require() so the program runs under plain Node
+    const traced = ts.transpileModule(rewrite(source), { fileName, compilerOptions }).outputText;
+
+    const header = `const __DR_BUDGET__ = ${JSON.stringify(budget)};`;
+    return `${header}\n${RUNTIME.trim()}\n__dr__.run(function () {\n${traced}\n});`;
+};
+
+export const instrumentJavaScript = (userCode: string, budget: TraceBudget = DEFAULT_BUDGET): string =>
+    instrument(userCode, false, budget);
+
+export const instrumentTypeScript = (userCode: string, budget: TraceBudget = DEFAULT_BUDGET): string =>
+    instrument(userCode, true, budget);
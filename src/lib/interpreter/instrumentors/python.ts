@@ -3,10 +3,20 @@
  * 
  * Injects a tracing function using sys.settrace to capture state
  * at every line execution. Now supports linked list nodes, tree nodes,
- * and other custom objects.
+ * and other custom objects. Each step carries the full call stack so
+ * locals of outer (e.g. recursive) calls stay visible, and call/return/
+ * exception events are recorded alongside line events. User code sees a
+ * copy of the builtins whose __import__ refuses the sandbox's blocked modules
+ * and hands out stand-ins for sys and io, and whose open() stays inside the
+ * working directory.
+ * Subscripts are rewritten before the code runs so every step also lists the
+ * container indices/keys read and written since the previous one.
  */
 
-export const instrumentPython = (userCode: string): string => {
+import { BLOCKED_IMPORTS, RESTRICTED_MODULES } from "@/lib/execution/sandbox";
+import { DEFAULT_BUDGET, TraceBudget } from "../schema";
+
+export const instrumentPython = (userCode: string, budget: TraceBudget = DEFAULT_BUDGET): string => {
     // Escape backslashes, then triple-quotes inside user code
     const escapedCode = userCode
         .replace(/\\/g, '\\\\')
@@ -17,10 +27,38 @@ import sys
 import json
 import io
 import copy
+import collections
+import traceback
+import ast
 
-# Setup stdout capture
+# Setup stdout/stderr capture; each step carries only what was written since the previous one
 stdout_capture = io.StringIO()
 sys.stdout = stdout_capture
+stderr_capture = io.StringIO()
+sys.stderr = stderr_capture
+__output_sent__ = {"stdout": 0, "stderr": 0}
+
+def __take_output__(name, capture):
+    text = capture.getvalue()
+    new = text[__output_sent__[name]:]
+    __output_sent__[name] = len(text)
+    return new
+
+# Program input is read up front so every step can tell how much of it was consumed
+try:
+    __stdin_data__ = sys.stdin.read()
+except Exception:
+    __stdin_data__ = ""
+__stdin_buffer__ = io.StringIO(__stdin_data__)
+sys.stdin = __stdin_buffer__
+__stdin_pos__ = [0]
+
+def __consume_stdin__():
+    """Input read since the previous step."""
+    pos = __stdin_buffer__.tell()
+    consumed = __stdin_data__[__stdin_pos__[0]:pos]
+    __stdin_pos__[0] = pos
+    return consumed
 
 __user_code__ = """${escapedCode}"""
 
@@ -46,93 +84,441 @@ def __get_node_val__(obj):
     if hasattr(obj, 'data'): return obj.data
     return str(obj)
 
-def __serialize_linked_list__(head, max_nodes=100):
-    """Walk a linked list and return {"__type__": "linked_list", "values": [...]}."""
-    values = []
+__MAX_DEPTH__ = ${budget.maxDepth}
+__MAX_LIST_NODES__ = ${budget.maxListNodes}
+__MAX_TREE_DEPTH__ = ${budget.maxTreeDepth}
+
+# Budget limits that cut something out of the trace, reported once at the end
+__truncated__ = set()
+
+def __ref__(obj):
+    return {"__ref__": str(id(obj))}
+
+def __encode_linked_list__(head, heap, depth):
+    """Register each node of a linked list in the heap, linking them by reference."""
     current = head
-    seen = set()
-    while current is not None and len(values) < max_nodes:
-        node_id = id(current)
-        if node_id in seen:
-            break  # Cycle detected
-        seen.add(node_id)
-        values.append(__get_node_val__(current))
-        current = getattr(current, 'next', None)
-    return {"__type__": "linked_list", "values": values}
-
-def __serialize_tree__(node, max_depth=10):
-    """Serialize a binary tree to {"__type__": "tree", "root": {...}}."""
-    if node is None or max_depth <= 0:
+    count = 0
+    while current is not None:
+        key = str(id(current))
+        if key in heap:
+            break  # Cycle or shared tail — already recorded
+        count += 1
+        entry = {"type": "list_node", "kind": type(current).__name__, "value": {
+            "val": __encode__(__get_node_val__(current), heap, depth + 1),
+            "next": None,
+        }}
+        heap[key] = entry
+        nxt = getattr(current, 'next', None)
+        if nxt is None:
+            break
+        if count >= __MAX_LIST_NODES__:
+            __truncated__.add("maxListNodes")
+            break
+        if __is_linked_list_node__(nxt) and not __is_tree_node__(nxt):
+            entry["value"]["next"] = __ref__(nxt)
+            current = nxt
+        else:
+            entry["value"]["next"] = __encode__(nxt, heap, depth + 1)
+            break
+    return __ref__(head)
+
+def __encode_tree__(node, heap, depth, tree_depth):
+    """Register a binary tree in the heap, one entry per node."""
+    if node is None:
+        return None
+    key = str(id(node))
+    if key in heap:
+        return __ref__(node)
+    if tree_depth >= __MAX_TREE_DEPTH__:
+        __truncated__.add("maxTreeDepth")
         return None
-    return {
-        "v": __get_node_val__(node),
-        "l": __serialize_tree__(getattr(node, 'left', None), max_depth - 1),
-        "r": __serialize_tree__(getattr(node, 'right', None), max_depth - 1),
+    entry = {"type": "tree_node", "kind": type(node).__name__, "value": {}}
+    heap[key] = entry
+    entry["value"] = {
+        "val": __encode__(__get_node_val__(node), heap, depth + 1),
+        "left": __encode_tree__(getattr(node, 'left', None), heap, depth, tree_depth + 1),
+        "right": __encode_tree__(getattr(node, 'right', None), heap, depth, tree_depth + 1),
     }
+    return __ref__(node)
 
-def __safe_serialize__(val, depth=0):
-    if depth > 8:
+def __encode__(val, heap, depth=0):
+    """Encode a value for the trace: primitives inline, containers and objects
+    stored once in heap (keyed by id()) and referenced as {"__ref__": id}."""
+    if val is None or isinstance(val, (bool, int, str)):
+        return val
+    if isinstance(val, float):
+        return val if val == val and val not in (float("inf"), float("-inf")) else str(val)
+    key = str(id(val))
+    if key in heap:
+        return {"__ref__": key}
+    if depth > __MAX_DEPTH__:
+        __truncated__.add("maxDepth")
         return str(val)
     try:
-        # Linked list node
-        if __is_linked_list_node__(val) and not __is_tree_node__(val):
-            return __serialize_linked_list__(val)
-        # Tree node
         if __is_tree_node__(val):
-            return {"__type__": "tree", "root": __serialize_tree__(val)}
-        # Convert sets to sorted lists
-        if isinstance(val, set):
-            return sorted(list(val), key=lambda x: str(x))
-        if isinstance(val, frozenset):
-            return sorted(list(val), key=lambda x: str(x))
-        # Standard JSON-serializable
-        json.dumps(val)
-        return val
-    except (TypeError, ValueError, OverflowError):
-        # Try to serialize as dict of attributes
+            return __encode_tree__(val, heap, depth, 0)
+        if __is_linked_list_node__(val):
+            return __encode_linked_list__(val, heap, depth)
+        kind = type(val).__name__
+        if isinstance(val, (list, tuple, collections.deque)):
+            entry = {"type": "array", "kind": kind, "value": []}
+            heap[key] = entry
+            entry["value"] = [__encode__(v, heap, depth + 1) for v in val]
+            return {"__ref__": key}
+        if isinstance(val, (set, frozenset)):
+            entry = {"type": "array", "kind": kind, "value": []}
+            heap[key] = entry
+            entry["value"] = [__encode__(v, heap, depth + 1) for v in sorted(val, key=lambda x: str(x))]
+            return {"__ref__": key}
+        if isinstance(val, dict):
+            entry = {"type": "object", "kind": kind, "value": {}}
+            heap[key] = entry
+            entry["value"] = {str(k): __encode__(v, heap, depth + 1) for k, v in val.items()}
+            return {"__ref__": key}
         if hasattr(val, '__dict__'):
-            result = {}
-            for k, v in val.__dict__.items():
-                if not k.startswith('_'):
-                    result[k] = __safe_serialize__(v, depth + 1)
-            return result
-        return str(val)
+            entry = {"type": "object", "kind": kind, "value": {}}
+            heap[key] = entry
+            entry["value"] = {k: __encode__(v, heap, depth + 1) for k, v in val.__dict__.items() if not k.startswith('_')}
+            return {"__ref__": key}
+    except Exception:
+        pass
+    return str(val)
 
-__trace_step_count__ = [0]
-__MAX_TRACE_STEPS__ = 500
+# Subscript accesses made since the previous step: reads go through __read_at__,
+# subscript assignment targets are recorded right after the store
+__accesses__ = []
+__MAX_ACCESSES__ = 64
 
-def __trace_func__(frame, event, arg):
-    __INTERNAL_VARS__ = {"sys", "json", "io", "copy", "stdout_capture", "types"}
-    if event == "line" and frame.f_code.co_filename == "<string>":
-        if __trace_step_count__[0] >= __MAX_TRACE_STEPS__:
-            return __trace_func__
-        __trace_step_count__[0] += 1
+def __access_key__(container, key):
+    """The key as the trace stores it: list indices made non-negative, dict keys as strings."""
+    if isinstance(container, dict):
+        return str(key)
+    if isinstance(key, bool) or not isinstance(key, int):
+        return None
+    try:
+        return key + len(container) if key < 0 else key
+    except TypeError:
+        return None
+
+def __record_access__(kind, name, root, keys, index_vars=()):
+    if len(__accesses__) >= __MAX_ACCESSES__ or not isinstance(root, (list, tuple, dict, collections.deque)):
+        return
+    path = []
+    container = root
+    for key in keys:
+        normalized = __access_key__(container, key)
+        if normalized is None:
+            return
+        path.append(normalized)
         try:
-            stack = {}
-            for k, v in frame.f_locals.items():
-                if not k.startswith("__") and k not in __INTERNAL_VARS__ and not callable(v) and not str(type(v)).startswith("<class 'module") and not isinstance(v, type):
-                    stack[k] = __safe_serialize__(v)
-            
-            state = {
-                "line": frame.f_lineno,
-                "stack": stack,
-                "heap": {},
-                "stdout": stdout_capture.getvalue()
-            }
-            print(f"__TRACE__{json.dumps(state)}", file=sys.__stdout__)
+            container = container[key]
         except Exception:
-            pass
+            break
+    __accesses__.append({"kind": kind, "name": name, "address": str(id(root)), "path": path, "indexVars": list(index_vars)})
+
+def __read_at__(name, root, index_vars, *keys):
+    value = root
+    for key in keys:
+        value = value[key]
+    __record_access__("read", name, root, keys, index_vars)
+    return value
+
+def __take_accesses__():
+    taken = list(__accesses__)
+    __accesses__.clear()
+    return taken
+
+class __AccessRewriter__(ast.NodeTransformer):
+    """Rewrites name[a][b] reads into __read_at__ calls, and binds the indices of
+    subscript assignment targets to temporaries recorded after the statement."""
+
+    def __init__(self):
+        self.temps = 0
+
+    @staticmethod
+    def chain(node):
+        """(root name, index expressions) of name[a][b]..., or None for slices and other roots."""
+        keys = []
+        while isinstance(node, ast.Subscript):
+            if isinstance(node.slice, ast.Slice):
+                return None
+            keys.append(node.slice)
+            node = node.value
+        if not isinstance(node, ast.Name):
+            return None
+        return node.id, list(reversed(keys))
+
+    @staticmethod
+    def index_vars(key):
+        """Names the first index is computed from, i for nums[i + 1]."""
+        names = sorted({n.id for n in ast.walk(key) if isinstance(n, ast.Name)})
+        return ast.Tuple([ast.Constant(n) for n in names], ast.Load())
+
+    def visit_Subscript(self, node):
+        found = self.chain(node) if isinstance(node.ctx, ast.Load) else None
+        if not found:
+            return self.generic_visit(node)
+        name, keys = found
+        call = ast.Call(
+            func=ast.Name("__read_at__", ast.Load()),
+            args=[ast.Constant(name), ast.Name(name, ast.Load()), self.index_vars(keys[0])] + [self.visit(k) for k in keys],
+            keywords=[],
+        )
+        return ast.copy_location(call, node)
+
+    def capture_target(self, target, records):
+        if isinstance(target, (ast.Tuple, ast.List)):
+            target.elts = [self.capture_target(t, records) for t in target.elts]
+            return target
+        if isinstance(target, ast.Starred):
+            target.value = self.capture_target(target.value, records)
+            return target
+        found = self.chain(target) if isinstance(target, ast.Subscript) else None
+        if not found:
+            return self.visit(target)
+        levels = []
+        node = target
+        while isinstance(node, ast.Subscript):
+            levels.append(node)
+            node = node.value
+        index_vars = self.index_vars(levels[-1].slice)
+        temps = []
+        for level in reversed(levels):
+            self.temps += 1
+            temp = f"__key{self.temps}__"
+            level.slice = ast.NamedExpr(ast.Name(temp, ast.Store()), self.visit(level.slice))
+            temps.append(temp)
+        records.append((found[0], temps, index_vars))
+        return target
+
+    def records(self, node, records, kind):
+        return [ast.copy_location(ast.Expr(ast.Call(
+            func=ast.Name("__record_access__", ast.Load()),
+            args=[ast.Constant(kind), ast.Constant(name), ast.Name(name, ast.Load()),
+                  ast.Tuple([ast.Name(t, ast.Load()) for t in temps], ast.Load()), index_vars],
+            keywords=[],
+        )), node) for name, temps, index_vars in records]
+
+    def visit_Assign(self, node):
+        node.value = self.visit(node.value)
+        records = []
+        node.targets = [self.capture_target(t, records) for t in node.targets]
+        return [node] + self.records(node, records, "write")
+
+    def visit_AugAssign(self, node):
+        node.value = self.visit(node.value)
+        records = []
+        node.target = self.capture_target(node.target, records)
+        return [node] + self.records(node, records, "read") + self.records(node, records, "write")
+
+    # Annotations are left alone: List[int] is not a container access
+    def visit_AnnAssign(self, node):
+        if node.value is not None:
+            node.value = self.visit(node.value)
+        return node
+
+    def visit_arg(self, node):
+        return node
+
+    def visit_FunctionDef(self, node):
+        returns, node.returns = node.returns, None
+        self.generic_visit(node)
+        node.returns = returns
+        return node
+
+    visit_AsyncFunctionDef = visit_FunctionDef
+
+def __compile_user_code__(source):
+    """Compile with subscript accesses recorded, or as written if the rewrite fails."""
+    tree = ast.parse(source, __USER_FILE__)
+    try:
+        return compile(ast.fix_missing_locations(__AccessRewriter__().visit(tree)), __USER_FILE__, "exec")
+    except Exception:
+        return compile(source, __USER_FILE__, "exec")
+
+__trace_step_count__ = [0]
+__MAX_TRACE_STEPS__ = ${budget.maxSteps}
+__USER_FILE__ = "<user>"
+__INTERNAL_VARS__ = {"sys", "json", "io", "copy", "collections", "traceback", "ast", "stdout_capture", "stderr_capture", "types"}
+
+# Frame ids are handed out on "call" so they stay stable for the lifetime of a call
+__frame_ids__ = {}
+__next_frame_id__ = [0]
+
+def __frame_id__(frame):
+    key = id(frame)
+    if key not in __frame_ids__:
+        __next_frame_id__[0] += 1
+        __frame_ids__[key] = str(__next_frame_id__[0])
+    return __frame_ids__[key]
+
+def __serialize_locals__(frame, heap):
+    result = {}
+    for k, v in frame.f_locals.items():
+        if not k.startswith("__") and k not in __INTERNAL_VARS__ and not callable(v) and not str(type(v)).startswith("<class 'module") and not isinstance(v, type):
+            result[k] = __encode__(v, heap)
+    return result
+
+def __serialize_frames__(frame, heap):
+    """Walk f_back from the innermost user frame and return frames outermost first."""
+    frames = []
+    f = frame
+    while f is not None:
+        if f.f_code.co_filename == __USER_FILE__:
+            frames.append({
+                "id": __frame_id__(f),
+                "name": f.f_code.co_name,
+                "line": f.f_lineno,
+                "locals": __serialize_locals__(f, heap),
+            })
+        f = f.f_back
+    frames.reverse()
+    return frames
+
+# Frames with an exception in flight; a "return" from one of these is an unwind, not a real return
+__unwinding__ = set()
+
+def __emit_step__(frame, event, extra=None):
+    accesses = __take_accesses__()
+    if __trace_step_count__[0] >= __MAX_TRACE_STEPS__:
+        __truncated__.add("maxSteps")
+        return
+    __trace_step_count__[0] += 1
+    try:
+        heap = {}
+        frames = __serialize_frames__(frame, heap)
+        state = {
+            "line": frame.f_lineno,
+            "event": event,
+            "stack": frames[-1]["locals"] if frames else {},
+            "heap": heap,
+            "stdout": __take_output__("stdout", stdout_capture),
+            "stderr": __take_output__("stderr", stderr_capture),
+            "stdin": __consume_stdin__(),
+            "frames": frames,
+            "accesses": accesses,
+        }
+        if extra:
+            state.update(extra(heap))
+        print(f"__TRACE__{json.dumps(state)}", file=sys.__stdout__)
+    except Exception:
+        pass
+
+def __trace_func__(frame, event, arg):
+    if frame.f_code.co_filename != __USER_FILE__:
+        return __trace_func__
+    is_module = frame.f_code.co_name == "<module>"
+    if event == "call":
+        __frame_id__(frame)
+        if not is_module:
+            __emit_step__(frame, "call")
+    elif event == "line":
+        __unwinding__.discard(id(frame))
+        __emit_step__(frame, "line")
+    elif event == "exception":
+        exc_type, exc_value = arg[0], arg[1]
+        __unwinding__.add(id(frame))
+        __emit_step__(frame, "exception", lambda heap: {
+            "exception": {"type": exc_type.__name__, "message": str(exc_value)},
+        })
+    elif event == "return":
+        if id(frame) in __unwinding__:
+            __unwinding__.discard(id(frame))
+        elif is_module:
+            __emit_step__(frame, "return")
+        else:
+            __emit_step__(frame, "return", lambda heap: {"returnValue": __encode__(arg, heap)})
+        __frame_ids__.pop(id(frame), None)
     return __trace_func__
 
+# Imports made by user code (not by the standard library on its behalf) are checked against the blocklist
+__BLOCKED_IMPORTS__ = set(${JSON.stringify(BLOCKED_IMPORTS)})
+__RESTRICTED_MODULES__ = ${JSON.stringify(RESTRICTED_MODULES)}
+__real_import__ = __builtins__.__import__
+__real_open__ = open
+__stand_ins__ = {}
+__SANDBOX_DIR__ = __real_import__("os").path.realpath(".")
+
+class SandboxViolation(ImportError):
+    pass
+
+def __stand_in__(name):
+    """A module holding only the allowed attributes of the real one, so sys.modules stays out of reach."""
+    if name not in __stand_ins__:
+        real = sys.modules[name]
+        module = type(sys)(name)
+        for attr in __RESTRICTED_MODULES__[name]:
+            if hasattr(real, attr):
+                setattr(module, attr, getattr(real, attr))
+        __stand_ins__[name] = module
+    return __stand_ins__[name]
+
+def __guarded_import__(name, globals=None, locals=None, fromlist=(), level=0):
+    top = name.split(".")[0]
+    if level == 0 and top in __BLOCKED_IMPORTS__:
+        raise SandboxViolation("import of '" + name + "' is not allowed in the sandbox")
+    if level == 0 and top in __RESTRICTED_MODULES__:
+        if name != top:
+            raise SandboxViolation("import of '" + name + "' is not allowed in the sandbox")
+        return __stand_in__(top)
+    return __real_import__(name, globals, locals, fromlist, level)
+
+def __guarded_open__(file, *args, **kwargs):
+    """open() for user code: standard input (open(0)) and files in the working directory only."""
+    if isinstance(file, int):
+        allowed = file == 0
+    else:
+        os = __real_import__("os")
+        allowed = os.path.commonpath([__SANDBOX_DIR__, os.path.realpath(os.fspath(file))]) == __SANDBOX_DIR__
+    if not allowed:
+        raise PermissionError("opening " + repr(file) + " is not allowed in the sandbox")
+    return __real_open__(file, *args, **kwargs)
+
+# The builtins' own loader would import anything, and help()/breakpoint() pull in os-level modules
+__user_builtins__ = {
+    key: value for key, value in vars(__builtins__).items()
+    if key not in ("__loader__", "__spec__", "help", "breakpoint")
+}
+__user_builtins__["__import__"] = __guarded_import__
+__user_builtins__["open"] = __guarded_open__
+__user_builtins__["__read_at__"] = __read_at__
+__user_builtins__["__record_access__"] = __record_access__
+
+__user_globals__ = {"__name__": "__main__", "__builtins__": __user_builtins__}
+
 sys.settrace(__trace_func__)
 
+def __report_error__(e):
+    """Emit a structured __ERROR__ line: type, message, offending line and user traceback."""
+    frames = [
+        {"name": fs.name, "line": fs.lineno}
+        for fs in traceback.extract_tb(e.__traceback__)
+        if fs.filename == __USER_FILE__
+    ]
+    line = frames[-1]["line"] if frames else None
+    if isinstance(e, SyntaxError) and e.filename == __USER_FILE__:
+        line = e.lineno
+    error = {
+        "type": type(e).__name__,
+        "message": e.msg if isinstance(e, SyntaxError) else str(e),
+        "line": line,
+        "traceback": frames,
+    }
+    print(f"__ERROR__{json.dumps(error)}", file=sys.__stdout__)
+
 try:
-    exec(compile(__user_code__, "<string>", "exec"))
+    exec(__compile_user_code__(__user_code__), __user_globals__)
+except SystemExit:
+    pass
 except Exception as e:
-    print(f"__ERROR__{str(e)}", file=sys.__stdout__)
+    sys.settrace(None)
+    __report_error__(e)
 finally:
     sys.settrace(None)
     sys.stdout = sys.__stdout__
+    sys.stderr = sys.__stderr__
+    if __truncated__:
+        print(f"__TRUNCATED__{json.dumps(sorted(__truncated__))}")
 `;
     return wrapper.trim();
 };
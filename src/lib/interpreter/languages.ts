@@ -0,0 +1,41 @@
+/**
+ * Supported languages
+ *
+ * Maps each accepted language name to its instrumentor, the runtime the
+ * instrumented program needs, and the tools that must exist where it runs.
+ */
+
+import { Runtime } from "@/lib/execution/types";
+import { TraceBudget } from "./schema";
+import { instrumentCpp } from "./instrumentors/cpp";
+import { instrumentJava } from "./instrumentors/java";
+import { instrumentJavaScript, instrumentTypeScript } from "./instrumentors/javascript";
+import { instrumentPython } from "./instrumentors/python";
+
+export interface LanguageSpec {
+    instrument: (code: string, budget: TraceBudget) => string;
+    runtime: Runtime;
+    tools: string[];
+    /** Whether the runner may cap memory with rlimits; CPU and file size are always capped (see ExecuteOptions) */
+    memoryLimit: boolean;
+}
+
+const python: LanguageSpec = { instrument: instrumentPython, runtime: "python", tools: ["python3"], memoryLimit: true };
+const javascript: LanguageSpec = { instrument: instrumentJavaScript, runtime: "node", tools: ["node"], memoryLimit: true };
+const typescript: LanguageSpec = { instrument: instrumentTypeScript, runtime: "node", tools: ["node"], memoryLimit: true };
+// Java and C++ instrumentors emit a Python driver that compiles and traces the program
+const java: LanguageSpec = { instrument: instrumentJava, runtime: "python", tools: ["python3", "javac", "java"], memoryLimit: false };
+const cpp: LanguageSpec = { instrument: instrumentCpp, runtime: "python", tools: ["python3", "g++", "gdb"], memoryLimit: false };
+
+export const LANGUAGES: Record<string, LanguageSpec> = { python, javascript, typescript, java, cpp };
+
+const ALIASES: Record<string, LanguageSpec> = {
+    ...LANGUAGES,
+    python3: python,
+    js: javascript,
+    ts: typescript,
+    "c++": cpp,
+};
+
+export const resolveLanguage = (name: string): LanguageSpec | null =>
+    Object.hasOwn(ALIASES, name) ? ALIASES[name] : null;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { ExecutionStreamEvent, TraceStep } from "../schema";
+import { step } from "@/test/traces";
+import { readExecutionStream } from "./streamParser";
+
+/** A response body that arrives in the given chunks */
+function bodyOf(chunks: string[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+        },
+    });
+}
+
+const ndjson = (...events: ExecutionStreamEvent[]) => events.map(event => JSON.stringify(event) + "\n").join("");
+
+describe("readExecutionStream", () => {
+    it("hands over steps once per chunk and resolves with the outcome", async () => {
+        const first = ndjson({ type: "step", step: step({ line: 1 }) }, { type: "step", step: step({ line: 2 }) });
+        const second = ndjson(
+            { type: "step", step: step({ line: 3 }) },
+            { type: "done", error: null, stderr: "warning", truncated: true, truncatedBy: ["maxSteps"] },
+        );
+        const batches: number[][] = [];
+        const outcome = await readExecutionStream(bodyOf([first, second]), steps => batches.push(steps.map(s => s.line)));
+        expect(batches).toEqual([[1, 2], [3]]);
+        expect(outcome).toEqual({ error: null, stderr: "warning", truncatedBy: ["maxSteps"] });
+    });
+
+    it("joins lines split across chunks", async () => {
+        const text = ndjson({ type: "step", step: step({ line: 5, stack: { s: "héllo" } }) });
+        const bytes = new TextEncoder().encode(text);
+        // Split inside the two-byte é as well as inside the JSON
+        const cut = text.indexOf("é") + 1;
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(bytes.slice(0, cut));
+                controller.enqueue(bytes.slice(cut));
+                controller.close();
+            },
+        });
+        const steps: TraceStep[] = [];
+        await readExecutionStream(body, batch => steps.push(...batch));
+        expect(steps.map(s => s.stack.s)).toEqual(["héllo"]);
+    });
+
+    it("resolves without an error when the stream ends early", async () => {
+        const outcome = await readExecutionStream(bodyOf([ndjson({ type: "step", step: step() })]), () => {});
+        expect(outcome).toEqual({ error: null, stderr: "", truncatedBy: [] });
+    });
+});
@@ -0,0 +1,45 @@
+import { ExecutionError, ExecutionStreamEvent, TraceStep, Truncation } from "../schema";
+
+export interface StreamOutcome {
+    error: ExecutionError | null;
+    stderr: string;
+    truncatedBy: Truncation;
+}
+
+/**
+ * Reads the NDJSON stream from /api/execute. Steps are handed over in
+ * batches (everything that arrived in one network chunk) so the store is
+ * not updated once per step. Resolves with the final outcome; a stream that
+ * ends without a "done" event (server gone) resolves with no error.
+ */
+export const readExecutionStream = async (
+    body: ReadableStream<Uint8Array>,
+    onSteps: (steps: TraceStep[]) => void
+): Promise<StreamOutcome> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let outcome: StreamOutcome = { error: null, stderr: "", truncatedBy: [] };
+    let pending = "";
+
+    const handle = (lines: string[]) => {
+        const steps: TraceStep[] = [];
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const event: ExecutionStreamEvent = JSON.parse(line);
+            if (event.type === "step") steps.push(event.step);
+            else outcome = { error: event.error, stderr: event.stderr, truncatedBy: event.truncatedBy };
+        }
+        if (steps.length > 0) onSteps(steps);
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split("\n");
+        pending = lines.pop() ?? "";
+        handle(lines);
+    }
+    handle([pending + decoder.decode()]);
+    return outcome;
+};
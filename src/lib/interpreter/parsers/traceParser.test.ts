@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest";
+import { traceLine } from "@/test/traces";
+import { parseError, parseTrace, parseTraceLine, parseTruncation } from "./traceParser";
+
+describe("parseTraceLine", () => {
+    it("ignores program output and malformed steps", () => {
+        expect(parseTraceLine("hello")).toBeNull();
+        expect(parseTraceLine("__ERROR__{}")).toBeNull();
+        expect(parseTraceLine(traceLine({ stack: {} }))).toBeNull();
+    });
+
+    it("fills in schema defaults", () => {
+        const step = parseTraceLine(traceLine({ line: 3, stack: { x: 1 } }))!;
+        expect(step).toMatchObject({ line: 3, event: "line", stderr: "", frames: [], accesses: [], refs: {} });
+        expect(step.stdin).toBeUndefined();
+    });
+
+    it("inlines heap references and remembers which variable held which address", () => {
+        const step = parseTraceLine(traceLine({
+            line: 1,
+            stack: { nums: { __ref__: "7" }, alias: { __ref__: "7" }, n: 2 },
+            heap: { "7": { type: "array", kind: "list", value: [1, { __ref__: "8" }] }, "8": { type: "array", value: [2] } },
+        }))!;
+        expect(step.stack).toEqual({ nums: [1, [2]], alias: [1, [2]], n: 2 });
+        expect(step.refs).toEqual({ nums: "7", alias: "7" });
+    });
+
+    it("renders self-containing lists like Python's repr", () => {
+        const step = parseTraceLine(traceLine({
+            line: 1,
+            stack: { a: { __ref__: "1" } },
+            heap: { "1": { type: "array", value: [0, { __ref__: "1" }] } },
+        }))!;
+        expect(step.stack.a).toEqual([0, "[...]"]);
+    });
+
+    it("keeps accesses with their addresses and index variables", () => {
+        const access = { kind: "write", name: "dp", address: "4", path: [1, 2], indexVars: ["i"] };
+        const step = parseTraceLine(traceLine({ line: 1, stack: {}, accesses: [access] }))!;
+        expect(step.accesses).toEqual([access]);
+    });
+});
+
+describe("parseTrace", () => {
+    it("keeps the steps in order and skips everything else", () => {
+        const stdout = [traceLine({ line: 1, stack: {} }), "printed", traceLine({ line: 2, stack: {} }), ""].join("\n");
+        expect(parseTrace(stdout).map(step => step.line)).toEqual([1, 2]);
+    });
+});
+
+describe("parseError", () => {
+    it("returns null for a run without an error", () => {
+        expect(parseError(traceLine({ line: 1, stack: {} }))).toBeNull();
+    });
+
+    it("reads the structured error", () => {
+        const error = { type: "ZeroDivisionError", message: "division by zero", line: 4, traceback: [{ name: "f", line: 4 }] };
+        expect(parseError(`out\n__ERROR__${JSON.stringify(error)}`)).toEqual(error);
+    });
+
+    it("falls back to the raw message when the error line is not JSON", () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        expect(parseError("__ERROR__boom")).toEqual({ type: "Error", message: "boom", line: null, traceback: [] });
+    });
+});
+
+describe("parseTruncation", () => {
+    it("lists the budgets the tracer ran into", () => {
+        expect(parseTruncation('__TRUNCATED__["maxSteps","maxDepth"]')).toEqual(["maxSteps", "maxDepth"]);
+        expect(parseTruncation("no marker")).toEqual([]);
+        expect(parseTruncation('__TRUNCATED__["bogus"]')).toEqual([]);
+    });
+});
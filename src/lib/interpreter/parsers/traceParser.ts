@@ -1,27 +1,66 @@
-import { Trace, TraceStepSchema } from "../schema";
+import { ExecutionError, ExecutionErrorSchema, Trace, TraceStep, TraceStepSchema, Truncation, TruncationSchema } from "../schema";
+import { materializeStep } from "../heap";
+
+/**
+ * Parses one line of tracer output. Returns null for anything that is not
+ * a valid __TRACE__ line (program output, the __ERROR__ line, ...).
+ */
+export const parseTraceLine = (line: string): TraceStep | null => {
+    if (!line.startsWith("__TRACE__")) return null;
+    try {
+        const rawStep = JSON.parse(line.replace("__TRACE__", ""));
+        const parsed = TraceStepSchema.safeParse(rawStep);
+        return parsed.success ? materializeStep(parsed.data) : null;
+    } catch (e) {
+        console.error("Failed to parse trace line:", line, e);
+        return null;
+    }
+};
 
 /**
  * Parses raw execution output from the backend.
- * Extracts lines prefixed with __TRACE__ and validates them.
+ * Extracts lines prefixed with __TRACE__, validates them and
+ * resolves heap references into inline values.
  */
 export const parseTrace = (stdout: string): Trace => {
-    const steps: any[] = [];
-    const lines = stdout.split('\n');
+    const steps: Trace = [];
+    for (const line of stdout.split('\n')) {
+        const step = parseTraceLine(line);
+        if (step) steps.push(step);
+    }
+    return steps;
+};
 
-    for (const line of lines) {
-        if (line.startsWith("__TRACE__")) {
-            try {
-                const jsonStr = line.replace("__TRACE__", "");
-                const rawStep = JSON.parse(jsonStr);
-                const parsed = TraceStepSchema.safeParse(rawStep);
-                if (parsed.success) {
-                    steps.push(parsed.data);
-                }
-            } catch (e) {
-                console.error("Failed to parse trace line:", line, e);
-            }
-        }
+/**
+ * Extracts the structured runtime error (the __ERROR__ line), if the
+ * program raised one. Returns null for runs that finished normally.
+ */
+export const parseError = (stdout: string): ExecutionError | null => {
+    const line = stdout.split('\n').find(l => l.startsWith("__ERROR__"));
+    if (!line) return null;
+
+    try {
+        const parsed = ExecutionErrorSchema.safeParse(JSON.parse(line.replace("__ERROR__", "")));
+        if (parsed.success) return parsed.data;
+    } catch (e) {
+        console.error("Failed to parse error line:", line, e);
     }
+    return { type: "Error", message: line.replace("__ERROR__", ""), line: null, traceback: [] };
+};
 
-    return steps;
+/**
+ * Budget limits the tracer reported hitting (the __TRUNCATED__ line).
+ * Empty when the trace is complete.
+ */
+export const parseTruncation = (stdout: string): Truncation => {
+    const line = stdout.split('\n').find(l => l.startsWith("__TRUNCATED__"));
+    if (!line) return [];
+
+    try {
+        const parsed = TruncationSchema.safeParse(JSON.parse(line.replace("__TRUNCATED__", "")));
+        if (parsed.success) return parsed.data;
+    } catch (e) {
+        console.error("Failed to parse truncation line:", line, e);
+    }
+    return [];
 };
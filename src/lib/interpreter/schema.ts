@@ -1,29 +1,127 @@
 import { z } from "zod";
 
 /**
- * Represents an object on the heap. 
- * For v1, we focus on arrays and simple objects.
+ * Represents an object on the heap.
+ * Nested containers inside `value` are references ({ __ref__: address })
+ * to other heap entries, so shared objects are stored exactly once.
  */
 export const HeapObjectSchema = z.object({
     type: z.enum(["array", "object", "list_node", "tree_node", "other"]),
+    kind: z.string().optional().describe("Source-language type name, e.g. list, tuple, dict, ListNode"),
     value: z.any(),
 });
 
+/**
+ * One activation record on the call stack.
+ */
+export const FrameSchema = z.object({
+    id: z.string().describe("Identifier that stays stable for the lifetime of the call"),
+    name: z.string().describe("Function name, or \"<module>\" for top-level code"),
+    line: z.number().describe("The line this frame is currently executing"),
+    locals: z.record(z.string(), z.any()).describe("Map of local variable names to their current values"),
+    refs: z.record(z.string(), z.string()).default({}).describe("Locals that reference a heap object, mapped to its address"),
+});
+
+/**
+ * An exception raised while executing user code.
+ */
+export const ExceptionInfoSchema = z.object({
+    type: z.string().describe("Exception class name, e.g. IndexError"),
+    message: z.string(),
+});
+
+/**
+ * One subscript read or write, e.g. reading dp[i - 1][j] or writing dp[i][j].
+ */
+export const AccessSchema = z.object({
+    kind: z.enum(["read", "write"]),
+    name: z.string().describe("Variable the container was reached through"),
+    address: z.string().describe("Heap address of that variable's container"),
+    path: z.array(z.union([z.number(), z.string()])).describe("Index or key at each level, e.g. [i, j] for dp[i][j]"),
+    indexVars: z.array(z.string()).default([]).describe("Variables the first index was computed from, e.g. [\"i\"] for nums[i + 1]"),
+});
+
 /**
  * A single step in the code execution trace.
  */
 export const TraceStepSchema = z.object({
     line: z.number().describe("The line number currently being executed"),
+    event: z.enum(["call", "line", "return", "exception"]).default("line").describe("What the tracer observed at this step"),
     stack: z.record(z.string(), z.any()).describe("Map of variable names to their current values"),
     heap: z.record(z.string(), HeapObjectSchema).describe("Map of memory addresses to heap objects"),
-    stdout: z.string().describe("Cumulative or incremental stdout at this step"),
+    stdout: z.string().describe("Output printed since the previous step"),
+    stderr: z.string().default("").describe("Error output written since the previous step"),
+    stdin: z.string().optional().describe("Program input consumed since the previous step; absent when the tracer cannot tell (Java)"),
+    frames: z.array(FrameSchema).default([]).describe("Call stack, outermost frame first; the last entry mirrors `stack`"),
+    refs: z.record(z.string(), z.string()).default({}).describe("Variables in `stack` that reference a heap object, mapped to its address"),
+    returnValue: z.any().optional().describe("Value being returned, on \"return\" steps of a function"),
+    exception: ExceptionInfoSchema.optional().describe("Exception being raised, on \"exception\" steps"),
+    accesses: z.array(AccessSchema).default([]).describe("Subscript reads and writes made since the previous step, in order"),
+});
+
+/**
+ * A frame of the user-code traceback attached to a runtime error.
+ */
+export const TracebackFrameSchema = z.object({
+    name: z.string().describe("Function name, or \"<module>\" for top-level code"),
+    line: z.number(),
+});
+
+/**
+ * Why a run failed — a runtime exception in user code, a syntax error,
+ * or a problem reaching/using the execution engine.
+ */
+export const ExecutionErrorSchema = z.object({
+    type: z.string().describe("Error class name, e.g. ZeroDivisionError"),
+    message: z.string(),
+    line: z.number().nullable().default(null).describe("Offending line in the user's code, if known"),
+    traceback: z.array(TracebackFrameSchema).default([]).describe("User-code frames, outermost first"),
 });
 
+/**
+ * Largest budget a request may ask for. The runner's output limit grows
+ * with maxSteps (see limitsForBudget), so these stay within what it allows.
+ */
+export const BUDGET_CAPS = { maxSteps: 20000, maxDepth: 32, maxListNodes: 2000, maxTreeDepth: 32 };
+
+/**
+ * How much the tracer records: steps before it stops, and how deep or long
+ * a value may get before the rest of it is abbreviated.
+ */
+export const TraceBudgetSchema = z.object({
+    maxSteps: z.number().int().min(1).max(BUDGET_CAPS.maxSteps).default(500).describe("Steps recorded before tracing stops"),
+    maxDepth: z.number().int().min(1).max(BUDGET_CAPS.maxDepth).default(8).describe("Container nesting depth before values are stringified"),
+    maxListNodes: z.number().int().min(1).max(BUDGET_CAPS.maxListNodes).default(100).describe("Linked-list nodes followed per list"),
+    maxTreeDepth: z.number().int().min(1).max(BUDGET_CAPS.maxTreeDepth).default(10).describe("Tree levels recorded per tree"),
+});
+
+/**
+ * Budget limits the tracer ran into; the run's trace is incomplete for each.
+ */
+export const TruncationSchema = z.array(z.enum(["maxSteps", "maxDepth", "maxListNodes", "maxTreeDepth"]));
+
+/**
+ * One line of the NDJSON stream /api/execute sends when asked to stream:
+ * steps as the tracer produces them, then a final "done" with the outcome.
+ */
+export type ExecutionStreamEvent =
+    | { type: "step"; step: TraceStep }
+    | { type: "done"; error: ExecutionError | null; stderr: string; truncated: boolean; truncatedBy: Truncation };
+
 /**
  * The full execution trace.
  */
 export const TraceSchema = z.array(TraceStepSchema);
 
+export type Access = z.infer<typeof AccessSchema>;
+export type ExecutionError = z.infer<typeof ExecutionErrorSchema>;
+export type ExceptionInfo = z.infer<typeof ExceptionInfoSchema>;
+export type TraceEvent = TraceStep["event"];
+export type Frame = z.infer<typeof FrameSchema>;
 export type HeapObject = z.infer<typeof HeapObjectSchema>;
 export type TraceStep = z.infer<typeof TraceStepSchema>;
 export type Trace = z.infer<typeof TraceSchema>;
+export type TraceBudget = z.infer<typeof TraceBudgetSchema>;
+export type Truncation = z.infer<typeof TruncationSchema>;
+
+export const DEFAULT_BUDGET: TraceBudget = TraceBudgetSchema.parse({});
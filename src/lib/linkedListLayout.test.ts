@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { TraceStep } from "./interpreter/schema";
+import { step } from "@/test/traces";
+import { buildListDiagram } from "./linkedListLayout";
+
+/** A step whose heap holds list nodes as address -> [val, next], with `vars` pointing at some of them */
+function listStep(nodes: Record<string, [unknown, string | null]>, vars: Record<string, string | null>): TraceStep {
+    const heap: TraceStep["heap"] = {};
+    const ref = (address: string | null) => (address ? { __ref__: address } : null);
+    for (const [address, [val, next]] of Object.entries(nodes)) {
+        heap[address] = { type: "list_node", kind: "ListNode", value: { val, next: ref(next) } };
+    }
+    const stack = Object.fromEntries(Object.entries(vars).map(([name, address]) => [name, ref(address)]));
+    return step({ stack, heap });
+}
+
+const layout = (diagram: ReturnType<typeof buildListDiagram>) => diagram!.nodes.map(n => [n.id, n.value, n.row, n.col]);
+
+describe("buildListDiagram", () => {
+    it("returns null when no variable holds a list node", () => {
+        expect(buildListDiagram(step({ stack: { n: 3 } }))).toBeNull();
+    });
+
+    it("draws a list as one row ending in a tail", () => {
+        const diagram = buildListDiagram(listStep({ a: [1, "b"], b: [2, "c"], c: [3, null] }, { head: "a", curr: "b" }))!;
+        expect(layout(diagram)).toEqual([["a", 1, 0, 0], ["b", 2, 0, 1], ["c", 3, 0, 2]]);
+        expect(diagram.edges).toEqual([{ from: "a", to: "b", kind: "next" }, { from: "b", to: "c", kind: "next" }]);
+        expect(diagram.tails).toEqual(["c"]);
+        expect([diagram.rows, diagram.cols]).toEqual([1, 3]);
+        expect(diagram.pointers).toEqual([{ name: "head", id: "a" }, { name: "curr", id: "b" }]);
+    });
+
+    it("ends a cycle in a back edge", () => {
+        const diagram = buildListDiagram(listStep({ a: [1, "b"], b: [2, "c"], c: [3, "b"] }, { head: "a" }))!;
+        expect(diagram.edges.at(-1)).toEqual({ from: "c", to: "b", kind: "back" });
+        expect(diagram.tails).toEqual([]);
+    });
+
+    it("draws a cycle with no head from the variable that reaches it", () => {
+        const diagram = buildListDiagram(listStep({ a: [1, "b"], b: [2, "a"] }, { slow: "b" }))!;
+        expect(layout(diagram)).toEqual([["b", 2, 0, 0], ["a", 1, 0, 1]]);
+        expect(diagram.edges).toEqual([{ from: "b", to: "a", kind: "next" }, { from: "a", to: "b", kind: "back" }]);
+    });
+
+    it("draws a shared tail once and lines the other prefix up with the join", () => {
+        const diagram = buildListDiagram(listStep(
+            { a1: [1, "a2"], a2: [2, "c1"], c1: [8, "c2"], c2: [9, null], b1: [5, "c1"] },
+            { l1: "a1", l2: "b1" },
+        ))!;
+        expect(layout(diagram)).toEqual([
+            ["a1", 1, 0, 0], ["a2", 2, 0, 1], ["c1", 8, 0, 2], ["c2", 9, 0, 3], ["b1", 5, 1, 1],
+        ]);
+        expect(diagram.edges).toContainEqual({ from: "b1", to: "c1", kind: "merge" });
+        expect(diagram.tails).toEqual(["c2"]);
+        expect(diagram.rows).toBe(2);
+    });
+
+    it("lists null pointer variables by name only", () => {
+        const diagram = buildListDiagram(listStep({ a: [1, null] }, { head: "a", prev: null, result: null }))!;
+        expect(diagram.nullPointers).toEqual(["prev"]);
+    });
+});
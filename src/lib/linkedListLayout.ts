@@ -0,0 +1,148 @@
+/**
+ * linkedListLayout.ts — One diagram for every linked list in scope.
+ *
+ * Built from the heap rather than the flattened `values`, so a node is drawn
+ * once however many variables reach it. Each chain gets its own row; a chain
+ * that runs into an already drawn node (a shared tail) ends in a "merge" edge
+ * and one that runs into itself (a cycle) in a "back" edge.
+ */
+
+import { isHeapRef, materializeValue } from "./interpreter/heap";
+import { TraceStep } from "./interpreter/schema";
+
+export interface ListDiagramNode {
+    id: string;
+    value: unknown;
+    row: number;
+    col: number;
+}
+
+export interface ListDiagramEdge {
+    from: string;
+    to: string;
+    /** next: the neighbour to the right; back: a cycle; merge: into another row */
+    kind: "next" | "back" | "merge";
+}
+
+export interface ListDiagram {
+    nodes: ListDiagramNode[];
+    edges: ListDiagramEdge[];
+    /** Nodes whose next is null, drawn with a NULL terminator */
+    tails: string[];
+    rows: number;
+    cols: number;
+    /** Current-frame variables pointing at a node */
+    pointers: Array<{ name: string; id: string }>;
+    /** Current-frame pointer variables that are null right now */
+    nullPointers: string[];
+}
+
+// Names that are worth showing as "→ NULL" when they hold no node
+const LIST_POINTER_NAMES = /^(head|tail|prev|curr|cur|current|next|next_node|nxt|node|temp|tmp|slow|fast|p|q|l1|l2|first|second|dummy|new_head|reversed_head)$/i;
+
+/**
+ * Lay out every list node reachable from a variable on the call stack, or
+ * null when there are none.
+ */
+export function buildListDiagram(step: TraceStep): ListDiagram | null {
+    const scopes = step.frames.length > 0 ? step.frames.map(f => f.refs) : [step.refs];
+    const heap = step.heap;
+    const nextOf = (id: string): string | null => {
+        const next = (heap[id].value as Record<string, unknown>).next;
+        return isHeapRef(next) && heap[next.__ref__]?.type === "list_node" ? next.__ref__ : null;
+    };
+
+    // Addresses in the order their variables appear, outermost frame first
+    const entryPoints: string[] = [];
+    for (const refs of scopes) {
+        for (const address of Object.values(refs)) {
+            if (heap[address]?.type === "list_node" && !entryPoints.includes(address)) entryPoints.push(address);
+        }
+    }
+    if (entryPoints.length === 0) return null;
+
+    const known = new Set<string>();
+    for (const start of entryPoints) {
+        for (let id: string | null = start; id && !known.has(id); id = nextOf(id)) known.add(id);
+    }
+    const indegree = new Map<string, number>();
+    for (const id of known) {
+        const next = nextOf(id);
+        if (next) indegree.set(next, (indegree.get(next) ?? 0) + 1);
+    }
+
+    const reach = (start: string): string[] => {
+        const seen: string[] = [];
+        for (let id: string | null = start; id && !seen.includes(id); id = nextOf(id)) seen.push(id);
+        return seen;
+    };
+    // Chains in the order of the first variable pointing into them, so rows do not jump around
+    const rank = (start: string) => {
+        const chain = reach(start);
+        const idx = entryPoints.findIndex(address => chain.includes(address));
+        return { idx: idx === -1 ? entryPoints.length : idx, length: chain.length };
+    };
+    const heads = [...known].filter(id => !indegree.has(id))
+        .map(id => ({ id, ...rank(id) }))
+        .sort((a, b) => a.idx - b.idx || b.length - a.length)
+        .map(h => h.id);
+    // Pure cycles have no head; start them at the first variable that reaches them
+    const starts = [...heads, ...entryPoints];
+
+    const placed = new Map<string, { row: number; col: number }>();
+    let rows = 0;
+    for (const start of starts) {
+        if (placed.has(start)) continue;
+        const chain: string[] = [];
+        let id: string | null = start;
+        while (id && !placed.has(id) && !chain.includes(id)) {
+            chain.push(id);
+            id = nextOf(id);
+        }
+        // Line a shared tail's prefix up so it ends just left of the node it joins
+        const join = id ? placed.get(id) : undefined;
+        const startCol = join ? join.col - chain.length : 0;
+        chain.forEach((nodeId, idx) => placed.set(nodeId, { row: rows, col: startCol + idx }));
+        rows++;
+    }
+
+    const minCol = Math.min(...[...placed.values()].map(p => p.col));
+    const nodes: ListDiagramNode[] = [...placed.entries()].map(([id, pos]) => ({
+        id,
+        value: materializeValue((heap[id].value as Record<string, unknown>).val, heap),
+        row: pos.row,
+        col: pos.col - minCol,
+    }));
+    const position = new Map(nodes.map(n => [n.id, n]));
+
+    const edges: ListDiagramEdge[] = [];
+    const tails: string[] = [];
+    for (const node of nodes) {
+        const next = nextOf(node.id);
+        const target = next ? position.get(next) : undefined;
+        if (!target) {
+            tails.push(node.id);
+        } else if (target.row !== node.row) {
+            edges.push({ from: node.id, to: target.id, kind: "merge" });
+        } else {
+            edges.push({ from: node.id, to: target.id, kind: target.col === node.col + 1 ? "next" : "back" });
+        }
+    }
+
+    const pointers = Object.entries(step.refs)
+        .filter(([, address]) => position.has(address))
+        .map(([name, id]) => ({ name, id }));
+    const nullPointers = Object.entries(step.stack)
+        .filter(([name, val]) => val === null && LIST_POINTER_NAMES.test(name))
+        .map(([name]) => name);
+
+    return {
+        nodes,
+        edges,
+        tails,
+        rows,
+        cols: Math.max(...nodes.map(n => n.col)) + 1,
+        pointers,
+        nullPointers,
+    };
+}
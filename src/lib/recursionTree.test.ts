@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { Trace, TraceStep } from "./interpreter/schema";
+import { step } from "@/test/traces";
+import { activeCall, buildCallTree, formatCall } from "./recursionTree";
+
+interface SimFrame {
+    id: string;
+    name: string;
+    locals: Record<string, unknown>;
+}
+
+/**
+ * Trace of fib(n) as the tracer records it: a call and a return step per
+ * call. With `passMemo`, the memo dict is a parameter (def fib(n, memo)) at
+ * the same address in every call, holding whatever was cached so far.
+ */
+function fibTrace(n: number, { memoize = true, passMemo = true } = {}): Trace {
+    const trace: Trace = [];
+    const stack: SimFrame[] = [];
+    const memo: Record<string, number> = {};
+    let nextId = 1;
+
+    const record = (event: TraceStep["event"], returnValue?: number) => {
+        trace.push(step({
+            line: 1,
+            event,
+            stack: stack.at(-1)!.locals,
+            frames: stack.map(frame => ({ id: frame.id, name: frame.name, line: 1, locals: frame.locals, refs: {} })),
+            heap: { m: { type: "object", kind: "dict", value: { ...memo } } },
+            returnValue,
+        }));
+    };
+
+    const fib = (k: number): number => {
+        stack.push({ id: String(nextId++), name: "fib", locals: passMemo ? { n: k, memo: { __ref__: "m" } } : { n: k } });
+        record("call");
+        let result: number;
+        if (memoize && k in memo) result = memo[k];
+        else if (k < 2) result = k;
+        else {
+            result = fib(k - 1) + fib(k - 2);
+            if (memoize) memo[k] = result;
+        }
+        record("return", result);
+        stack.pop();
+        return result;
+    };
+
+    stack.push({ id: "0", name: "<module>", locals: {} });
+    record("line");
+    fib(n);
+    record("line");
+    return trace;
+}
+
+describe("buildCallTree", () => {
+    it("returns null when nothing recursed", () => {
+        expect(buildCallTree([step({ frames: [{ id: "0", name: "<module>", line: 1, locals: {}, refs: {} }] })])).toBeNull();
+    });
+
+    it("nests calls under their caller and lays leaves out left to right", () => {
+        const tree = buildCallTree(fibTrace(3, { memoize: false, passMemo: false }))!;
+        expect(tree.nodes.map(node => [node.args.n, node.depth, node.x])).toEqual([
+            [3, 0, 1.25], [2, 1, 0.5], [1, 2, 0], [0, 2, 1], [1, 1, 2],
+        ]);
+        expect(tree.width).toBe(3);
+        expect(tree.height).toBe(3);
+        expect(tree.nodes.every(node => !node.memoHit)).toBe(true);
+    });
+
+    it("marks a call that returned without recursing where an equal call did", () => {
+        const tree = buildCallTree(fibTrace(4, { passMemo: false }))!;
+        expect(tree.nodes.filter(node => node.memoHit).map(node => node.args.n)).toEqual([2]);
+    });
+
+    it("ignores a memo passed as an argument when comparing calls", () => {
+        const hits = buildCallTree(fibTrace(5))!.nodes.filter(node => node.memoHit).map(node => node.args.n);
+        expect(hits).toEqual([2, 3]);
+    });
+
+    it("still compares container arguments that differ between calls", () => {
+        // fib(4) with a memo hit on fib(2), but every call also gets its own list, like items[1:]
+        const trace = fibTrace(4, { passMemo: false }).map(s => ({
+            ...s,
+            frames: s.frames.map(f => (f.name === "fib" ? { ...f, locals: { ...f.locals, items: [Number(f.id)] }, refs: { items: `list-${f.id}` } } : f)),
+        }));
+        expect(buildCallTree(fibTrace(4, { passMemo: false }))!.nodes.some(node => node.memoHit)).toBe(true);
+        expect(buildCallTree(trace)!.nodes.some(node => node.memoHit)).toBe(false);
+    });
+});
+
+describe("activeCall", () => {
+    it("finds the innermost call of the recursion", () => {
+        const trace = fibTrace(3, { memoize: false, passMemo: false });
+        const tree = buildCallTree(trace)!;
+        const deepest = trace.findIndex(s => s.frames.length === 4);
+        expect(activeCall(tree, trace[deepest])?.args.n).toBe(1);
+        expect(activeCall(tree, trace[0])).toBeNull();
+    });
+});
+
+describe("formatCall", () => {
+    it("shortens long argument lists", () => {
+        const node = buildCallTree(fibTrace(2, { memoize: false, passMemo: false }))!.nodes[0];
+        expect(formatCall(node)).toBe("fib(2)");
+        expect(formatCall({ ...node, args: { items: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] } }, 12)).toBe("fib([1,2,3…)");
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * recursionTree.ts — The call tree of a recursive function, built from the
+ * trace's call/return events.
+ *
+ * Every call to a function that recurses becomes a node, keyed by its frame
+ * id. The tree is built once for the whole trace and laid out in full, so
+ * nodes keep their place while the player reveals them step by step.
+ */
+
+import { Trace, TraceStep } from "./interpreter/schema";
+
+export interface CallNode {
+    /** Frame id of the call */
+    id: string;
+    name: string;
+    /** Arguments as the function received them */
+    args: Record<string, unknown>;
+    parent: string | null;
+    children: string[];
+    callStep: number;
+    /** Step the call returned (or unwound) on, null while it never did */
+    returnStep: number | null;
+    returnValue: unknown;
+    /** Returned without recursing where an earlier call with the same arguments did: a memo/cache hit */
+    memoHit: boolean;
+    /** Leaf-order position, 0..width-1; parents sit centered over their children */
+    x: number;
+    depth: number;
+}
+
+export interface CallTree {
+    nodes: CallNode[];
+    byId: Map<string, CallNode>;
+    width: number;
+    height: number;
+    /** Calls left out past MAX_CALL_NODES */
+    omitted: number;
+}
+
+const MAX_CALL_NODES = 300;
+
+/** Names of functions that appear twice on one call stack at some step. */
+function recursiveFunctions(trace: Trace): Set<string> {
+    const names = new Set<string>();
+    for (const step of trace) {
+        if (step.event !== "call") continue;
+        const seen = new Set<string>();
+        for (const frame of step.frames) {
+            if (seen.has(frame.name)) names.add(frame.name);
+            seen.add(frame.name);
+        }
+    }
+    return names;
+}
+
+/**
+ * Arguments of `name` that hold the same object in every call: a memo dict
+ * passed along or defaulted (memo={}), the input list. Their contents change
+ * between calls without telling the calls apart.
+ */
+function sharedArgs(name: string, nodes: CallNode[], refs: Map<string, Record<string, string>>): Set<string> {
+    const calls = nodes.filter(node => node.name === name);
+    const first = refs.get(calls[0].id) ?? {};
+    return new Set(Object.keys(first).filter(arg => calls.every(call => refs.get(call.id)?.[arg] === first[arg])));
+}
+
+/**
+ * The recursion tree of the trace, or null when no function recursed.
+ * Calls to non-recursive helpers in between are skipped: a node's parent is
+ * the nearest enclosing call of a recursive function.
+ */
+export function buildCallTree(trace: Trace): CallTree | null {
+    const recursive = recursiveFunctions(trace);
+    if (recursive.size === 0) return null;
+
+    const nodes: CallNode[] = [];
+    const byId = new Map<string, CallNode>();
+    // Heap address of each call's arguments, by frame id
+    const refs = new Map<string, Record<string, string>>();
+    let open: CallNode[] = [];
+    let omitted = 0;
+
+    trace.forEach((step, i) => {
+        const live = new Set(step.frames.map(f => f.id));
+        // Frames that vanished without a return event were unwound by an exception
+        for (const node of open) {
+            if (!live.has(node.id) && node.returnStep === null) node.returnStep = Math.max(node.callStep, i - 1);
+        }
+        open = open.filter(node => live.has(node.id));
+
+        const frame = step.frames.at(-1);
+        if (!frame || !recursive.has(frame.name)) return;
+        if (step.event === "call" && !byId.has(frame.id)) {
+            if (nodes.length >= MAX_CALL_NODES) {
+                omitted++;
+                return;
+            }
+            const parent = [...step.frames].reverse().slice(1).find(f => byId.has(f.id));
+            const node: CallNode = {
+                id: frame.id,
+                name: frame.name,
+                args: frame.locals,
+                parent: parent?.id ?? null,
+                children: [],
+                callStep: i,
+                returnStep: null,
+                returnValue: undefined,
+                memoHit: false,
+                x: 0,
+                depth: parent ? byId.get(parent.id)!.depth + 1 : 0,
+            };
+            if (parent) byId.get(parent.id)!.children.push(node.id);
+            nodes.push(node);
+            byId.set(node.id, node);
+            refs.set(node.id, frame.refs);
+            open.push(node);
+        } else if (step.event === "return") {
+            const node = byId.get(frame.id);
+            if (node) {
+                node.returnStep = i;
+                node.returnValue = step.returnValue;
+            }
+        }
+    });
+    if (nodes.length === 0) return null;
+
+    const shared = new Map([...new Set(nodes.map(node => node.name))].map(name => [name, sharedArgs(name, nodes, refs)]));
+    const key = (node: CallNode) => {
+        const args = Object.entries(node.args).filter(([arg]) => !shared.get(node.name)!.has(arg));
+        return `${node.name}(${JSON.stringify(args)})`;
+    };
+    const expanded = new Map<string, number>();
+    for (const node of nodes) {
+        if (node.children.length > 0) {
+            if (!expanded.has(key(node))) expanded.set(key(node), node.callStep);
+        } else if (node.returnStep !== null && (expanded.get(key(node)) ?? Infinity) < node.callStep) {
+            node.memoHit = true;
+        }
+    }
+
+    let width = 0;
+    const place = (node: CallNode) => {
+        if (node.children.length === 0) {
+            node.x = width++;
+            return;
+        }
+        const children = node.children.map(id => byId.get(id)!);
+        children.forEach(place);
+        node.x = (children[0].x + children[children.length - 1].x) / 2;
+    };
+    nodes.filter(n => n.parent === null).forEach(place);
+
+    return {
+        nodes,
+        byId,
+        width,
+        height: Math.max(...nodes.map(n => n.depth)) + 1,
+        omitted,
+    };
+}
+
+/** The innermost call running at `step`, or null outside the recursion. */
+export function activeCall(tree: CallTree, step: TraceStep): CallNode | null {
+    for (let i = step.frames.length - 1; i >= 0; i--) {
+        const node = tree.byId.get(step.frames[i].id);
+        if (node) return node;
+    }
+    return null;
+}
+
+/** Short call label, e.g. fib(4) or solve(2, [0, 3]) */
+export function formatCall(node: CallNode, maxLength = 24): string {
+    const args = Object.values(node.args)
+        .map(val => JSON.stringify(val) ?? "None")
+        .join(", ");
+    const label = `${node.name}(${args})`;
+    return label.length > maxLength ? `${label.slice(0, maxLength - 2)}…)` : label;
+}
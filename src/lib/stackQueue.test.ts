@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { step, traceOf } from "@/test/traces";
+import { findDSRoles, queueDiff, roleLabel, stackDiff } from "./stackQueue";
+
+const names = (...list: string[]) => new Set(list);
+
+describe("findDSRoles", () => {
+    it("reads a stack from pushes and pops at the back", () => {
+        const trace = traceOf({ s: [1] }, { s: [1, 2] }, { s: [1] }, { s: [1, 3] }, { s: [1] }, { s: [1, 4] }, { s: [1] });
+        expect(findDSRoles(trace, names("s"))).toEqual({ s: { type: "stack", confidence: 1, source: "usage" } });
+    });
+
+    it("reads a queue from removals at the front, whatever the name says", () => {
+        const trace = traceOf({ stack: [1, 2] }, { stack: [2] }, { stack: [2, 3] }, { stack: [3] }, { stack: [3, 4] }, { stack: [4] });
+        expect(findDSRoles(trace, names("stack")).stack).toMatchObject({ type: "queue", source: "usage" });
+    });
+
+    it("scales confidence down while there are few removals", () => {
+        const trace = traceOf({ q: [1, 2] }, { q: [2] });
+        expect(findDSRoles(trace, names("q"))).toEqual({});
+        expect(findDSRoles(traceOf({ q: [1, 2, 3] }, { q: [2, 3] }, { q: [3] }), names("q")).q.confidence).toBeCloseTo(2 / 3);
+    });
+
+    it("falls back to the name, then to the type", () => {
+        const deque = step({
+            stack: { frontier: { __ref__: "1" }, bfs_queue: { __ref__: "2" } },
+            heap: { "1": { type: "array", kind: "deque", value: [0] }, "2": { type: "array", kind: "list", value: [0] } },
+        });
+        expect(findDSRoles([deque], names("frontier", "bfs_queue"))).toEqual({
+            frontier: { type: "queue", confidence: 0.5, source: "type" },
+            bfs_queue: { type: "queue", confidence: 0.5, source: "name" },
+        });
+    });
+
+    it("gives heaps a role only from clear usage", () => {
+        const fifo = traceOf({ heap: [1, 2, 3, 4] }, { heap: [2, 3, 4] }, { heap: [3, 4] }, { heap: [4] });
+        expect(findDSRoles(fifo, names("heap"), ["heap"]).heap).toMatchObject({ type: "queue", confidence: 1 });
+        const stack = traceOf({ stack: [1, 5] }, { stack: [5] });
+        expect(findDSRoles(stack, names("stack"), ["stack"])).toEqual({});
+    });
+
+    it("ignores size changes between different frames", () => {
+        const trace = traceOf({ s: [1, 2] }, { s: [1] }, { s: [1, 2] }, { s: [1] }, { s: [1, 2] }, { s: [1] })
+            .map((s, i) => ({ ...s, frames: [{ id: String(i), name: "f", line: 1, locals: {}, refs: {} }] }));
+        expect(findDSRoles(trace, names("s"))).toEqual({});
+    });
+});
+
+describe("roleLabel", () => {
+    it("shows the evidence behind a role", () => {
+        expect(roleLabel({ type: "stack", confidence: 0.916, source: "usage" })).toBe("by usage · 92%");
+        expect(roleLabel({ type: "queue", confidence: 0.5, source: "type" })).toBe("by type");
+    });
+});
+
+describe("stackDiff", () => {
+    it("finds what changed above the common bottom", () => {
+        expect(stackDiff([1, 2, 3], [1, 2, 4, 5])).toEqual({ pushed: 2, popped: [3] });
+        expect(stackDiff([1, 2], [1])).toEqual({ pushed: 0, popped: [2] });
+        expect(stackDiff(null, [1])).toEqual({ pushed: 0, popped: [] });
+    });
+});
+
+describe("queueDiff", () => {
+    it("finds the fewest items dequeued that explain the new queue", () => {
+        expect(queueDiff([1, 2, 3], [2, 3, 4])).toEqual({ enqueued: 1, dequeued: [1] });
+        expect(queueDiff([1, 1], [1, 1, 2])).toEqual({ enqueued: 1, dequeued: [] });
+        expect(queueDiff([1, 2], [3])).toEqual({ enqueued: 1, dequeued: [1, 2] });
+        expect(queueDiff(undefined, [1])).toEqual({ enqueued: 0, dequeued: [] });
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * stackQueue.ts — Lists used as stacks and queues.
+ *
+ * Roles are read from how a list is used across consecutive steps: items
+ * added at one end and removed from the same end make a stack (LIFO), removed
+ * from the other end a queue (FIFO). Lists with too little of either fall back
+ * to their name (stack, bfs_queue, dq...) or their type: a collections.deque,
+ * std::queue or ArrayDeque is a queue whatever it is called.
+ *
+ * Between steps the two ends are compared, so views can animate what was
+ * pushed and popped, enqueued and dequeued.
+ */
+
+import { Trace, TraceStep } from "./interpreter/schema";
+
+export interface DSRole {
+    type: "stack" | "queue";
+    /** 0..1: share of removals that fit the role, scaled down while there are few */
+    confidence: number;
+    /** usage: inferred from the trace; name/type: guessed from the variable alone */
+    source: "usage" | "name" | "type";
+}
+
+export interface StackDiff {
+    /** Items added on top since the previous step */
+    pushed: number;
+    /** Items taken off the top since the previous step, bottom to top */
+    popped: unknown[];
+}
+
+export interface QueueDiff {
+    /** Items added at the back since the previous step */
+    enqueued: number;
+    /** Items taken from the front since the previous step, front first */
+    dequeued: unknown[];
+}
+
+const STACK_NAMES = /^(stack|stk|call_stack|mono_stack)$|_stack$|^stack_/i;
+const QUEUE_NAMES = /^(queue|deque|bfs_queue|dq)$|_queue$|^queue_/i;
+
+// Heap `kind` is the source-language type name
+const STACK_KINDS = /^(stack|Stack)$/;
+const QUEUE_KINDS = /^(deque|queue|ArrayDeque)$/;
+
+// Removals needed before a role inferred from usage is fully trusted
+const FULL_EVIDENCE = 3;
+const MIN_CONFIDENCE = 0.6;
+// Usage this clear overrides a heap recognised by name or shape
+const OVERRIDE_CONFIDENCE = 0.9;
+// A name or a type alone is only an even guess
+const GUESS_CONFIDENCE = 0.5;
+
+/** Role by name and then by the type of the value in `step`, or null for a plain array. */
+function guessRole(name: string, step: TraceStep): DSRole | null {
+    if (STACK_NAMES.test(name)) return { type: "stack", confidence: GUESS_CONFIDENCE, source: "name" };
+    if (QUEUE_NAMES.test(name)) return { type: "queue", confidence: GUESS_CONFIDENCE, source: "name" };
+    const address = step.refs[name];
+    const kind = address ? step.heap[address]?.kind : undefined;
+    if (kind && STACK_KINDS.test(kind)) return { type: "stack", confidence: GUESS_CONFIDENCE, source: "type" };
+    if (kind && QUEUE_KINDS.test(kind)) return { type: "queue", confidence: GUESS_CONFIDENCE, source: "type" };
+    return null;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** `part` is how `whole` starts (front) or ends (back) */
+function startsWith(whole: unknown[], part: unknown[]): boolean {
+    return part.every((val, i) => same(val, whole[i]));
+}
+function endsWith(whole: unknown[], part: unknown[]): boolean {
+    const offset = whole.length - part.length;
+    return part.every((val, i) => same(val, whole[offset + i]));
+}
+
+interface EndCounts {
+    addBack: number;
+    addFront: number;
+    removeBack: number;
+    removeFront: number;
+    /** Size changes that fit neither end: inserts in the middle, heap sifts... */
+    other: number;
+}
+
+/** Tally which end `name` grew and shrank at, between steps of the same frame. */
+function countEnds(trace: Trace, name: string): EndCounts {
+    const counts: EndCounts = { addBack: 0, addFront: 0, removeBack: 0, removeFront: 0, other: 0 };
+    for (let i = 1; i < trace.length; i++) {
+        const prev = trace[i - 1];
+        const step = trace[i];
+        if (prev.frames.at(-1)?.id !== step.frames.at(-1)?.id) continue;
+        const before = prev.stack[name];
+        const now = step.stack[name];
+        if (!Array.isArray(before) || !Array.isArray(now) || before.length === now.length) continue;
+
+        const [longer, shorter] = now.length > before.length ? [now, before] : [before, now];
+        const atBack = startsWith(longer, shorter);
+        const atFront = endsWith(longer, shorter);
+        // Both (e.g. from or to empty) says nothing about the end
+        if (atBack && atFront) continue;
+        const grew = now.length > before.length;
+        if (atBack) counts[grew ? "addBack" : "removeBack"]++;
+        else if (atFront) counts[grew ? "addFront" : "removeFront"]++;
+        else counts.other++;
+    }
+    return counts;
+}
+
+/**
+ * Role of `name` from its usage: removals at the end items are added to
+ * are LIFO, at the other end FIFO. Null while neither clearly wins.
+ */
+function inferRole(trace: Trace, name: string): DSRole | null {
+    const { addBack, addFront, removeBack, removeFront, other } = countEnds(trace, name);
+    const lifo = addFront > addBack ? removeFront : removeBack;
+    const fifo = addFront > addBack ? removeBack : removeFront;
+    const winner = Math.max(lifo, fifo);
+    if (winner === 0 || lifo === fifo) return null;
+    const share = winner / (lifo + fifo + other);
+    const confidence = share * Math.min(1, winner / FULL_EVIDENCE);
+    if (confidence < MIN_CONFIDENCE) return null;
+    return { type: lifo > fifo ? "stack" : "queue", confidence, source: "usage" };
+}
+
+/**
+ * Stack and queue roles of the 1D lists in the trace. Usage wins; a
+ * confident enough name or type is the fallback. Lists in `heaps` only get a
+ * role from clear usage, which then outranks the heap.
+ */
+export function findDSRoles(trace: Trace, allVarNames: Set<string>, heaps: string[] = []): Record<string, DSRole> {
+    const roles: Record<string, DSRole> = {};
+    for (const name of allVarNames) {
+        const first = trace.find(step => Array.isArray(step.stack[name]));
+        if (!first) continue;
+        const usage = inferRole(trace, name);
+        if (heaps.includes(name)) {
+            if (usage && usage.confidence >= OVERRIDE_CONFIDENCE) roles[name] = usage;
+            continue;
+        }
+        const role = usage ?? guessRole(name, first);
+        if (role) roles[name] = role;
+    }
+    return roles;
+}
+
+/** How a role was decided, e.g. "by usage · 92%" */
+export function roleLabel(role: DSRole): string {
+    return role.source === "usage" ? `by usage · ${Math.round(role.confidence * 100)}%` : `by ${role.source}`;
+}
+
+/** What changed at the top: everything above the longest common bottom. */
+export function stackDiff(previous: unknown[] | null | undefined, current: unknown[]): StackDiff {
+    if (!previous) return { pushed: 0, popped: [] };
+    let common = 0;
+    while (common < previous.length && common < current.length && same(previous[common], current[common])) common++;
+    return { pushed: current.length - common, popped: previous.slice(common) };
+}
+
+/**
+ * What changed at the ends: the fewest items dequeued from the front such
+ * that the rest of the old queue starts the new one.
+ */
+export function queueDiff(previous: unknown[] | null | undefined, current: unknown[]): QueueDiff {
+    if (!previous) return { enqueued: 0, dequeued: [] };
+    for (let k = 0; k < previous.length; k++) {
+        const kept = previous.length - k;
+        if (kept > current.length) continue;
+        if (previous.slice(k).every((val, i) => same(val, current[i]))) {
+            return { enqueued: current.length - kept, dequeued: previous.slice(0, k) };
+        }
+    }
+    // Nothing in common: the whole queue was drained and refilled
+    return { enqueued: current.length, dequeued: previous };
+}
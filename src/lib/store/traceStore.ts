@@ -1,19 +1,30 @@
 import { create } from 'zustand';
-import { Trace, TraceStep } from '../interpreter/schema';
+import { ExecutionError, Trace, TraceStep, Truncation } from '../interpreter/schema';
 
 interface TraceState {
     trace: Trace;
     currentStepIndex: number;
     isPlaying: boolean;
     playSpeed: number; // ms between steps
+    error: ExecutionError | null; // Runtime/syntax error from the last run, if any
+    breakpoints: number[]; // Source lines where playback pauses
+    isStreaming: boolean; // Steps are still arriving from a running program
+    truncatedBy: Truncation; // Trace budget limits the last run ran into
 
     // Actions
     setTrace: (trace: Trace) => void;
+    appendSteps: (steps: TraceStep[]) => void;
+    setStreaming: (isStreaming: boolean) => void;
     nextStep: () => void;
     prevStep: () => void;
     setStep: (index: number) => void;
     togglePlay: () => void;
     setPlaySpeed: (speed: number) => void;
+    setError: (error: ExecutionError | null) => void;
+    setTruncatedBy: (truncatedBy: Truncation) => void;
+    jumpToError: () => void;
+    toggleBreakpoint: (line: number) => void;
+    clearBreakpoints: () => void;
     reset: () => void;
 
     // Selectors
@@ -26,9 +37,18 @@ export const useTraceStore = create<TraceState>((set, get) => ({
     currentStepIndex: 0,
     isPlaying: false,
     playSpeed: 500,
+    error: null,
+    breakpoints: [],
+    isStreaming: false,
+    truncatedBy: [],
 
     setTrace: (trace) => set({ trace, currentStepIndex: 0, isPlaying: false }),
 
+    // Playback position is kept, so stepping can start before the run finishes
+    appendSteps: (steps) => set((state) => ({ trace: [...state.trace, ...steps] })),
+
+    setStreaming: (isStreaming) => set({ isStreaming }),
+
     nextStep: () => set((state) => ({
         currentStepIndex: Math.min(state.currentStepIndex + 1, state.trace.length - 1)
     })),
@@ -45,7 +65,28 @@ export const useTraceStore = create<TraceState>((set, get) => ({
 
     setPlaySpeed: (speed) => set({ playSpeed: speed }),
 
-    reset: () => set({ trace: [], currentStepIndex: 0, isPlaying: false }),
+    setError: (error) => set({ error }),
+
+    setTruncatedBy: (truncatedBy) => set({ truncatedBy }),
+
+    // The error step is the last exception the tracer saw (the one that escaped)
+    jumpToError: () => set((state) => {
+        let index = state.trace.length - 1;
+        for (let i = state.trace.length - 1; i >= 0; i--) {
+            if (state.trace[i].event === "exception") { index = i; break; }
+        }
+        return { currentStepIndex: Math.max(0, index), isPlaying: false };
+    }),
+
+    toggleBreakpoint: (line) => set((state) => ({
+        breakpoints: state.breakpoints.includes(line)
+            ? state.breakpoints.filter((l) => l !== line)
+            : [...state.breakpoints, line],
+    })),
+
+    clearBreakpoints: () => set({ breakpoints: [] }),
+
+    reset: () => set({ trace: [], currentStepIndex: 0, isPlaying: false, error: null, truncatedBy: [] }),
 
     getCurrentStep: () => {
         const { trace, currentStepIndex } = get();
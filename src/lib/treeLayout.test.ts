@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { TraceStep } from "./interpreter/schema";
+import { step } from "@/test/traces";
+import { collectTrees, formatTree, isTreeValue, layoutTree, SerializedTree, treeChanges } from "./treeLayout";
+
+type Nodes = Record<string, [unknown, string | null, string | null]>;
+
+/** A step whose heap holds tree nodes as address -> [val, left, right], with `vars` pointing at some of them */
+function treeStep(nodes: Nodes, vars: Record<string, string | null>): TraceStep {
+    const heap: TraceStep["heap"] = {};
+    const ref = (address: string | null) => (address ? { __ref__: address } : null);
+    for (const [address, [val, left, right]] of Object.entries(nodes)) {
+        heap[address] = { type: "tree_node", kind: "TreeNode", value: { val, left: ref(left), right: ref(right) } };
+    }
+    const stack = Object.fromEntries(Object.entries(vars).map(([name, address]) => [name, ref(address)]));
+    return step({ stack, heap });
+}
+
+//        5
+//      3   8
+//     1
+const TREE: Nodes = { a: [5, "b", "c"], b: [3, "d", null], c: [8, null, null], d: [1, null, null] };
+
+describe("layoutTree", () => {
+    it("places nodes by in-order position and depth", () => {
+        const root = (treeStep(TREE, { root: "a" }).stack.root as SerializedTree).root;
+        const layout = layoutTree(root);
+        expect(layout.nodes.map(n => [n.value, n.x, n.y, n.parent])).toEqual([
+            [1, 0, 2, "b"], [3, 1, 1, "a"], [5, 2, 0, null], [8, 3, 1, "a"],
+        ]);
+        expect([layout.width, layout.height]).toEqual([4, 3]);
+        expect(layoutTree(null)).toEqual({ nodes: [], width: 0, height: 0 });
+    });
+});
+
+describe("collectTrees", () => {
+    it("folds variables pointing into a tree into pointers on it", () => {
+        const trees = collectTrees(treeStep(TREE, { node: "b", root: "a", empty: null }));
+        expect(trees).toHaveLength(1);
+        expect(trees[0].name).toBe("root");
+        expect(trees[0].pointers).toEqual([{ name: "node", id: "b" }, { name: "root", id: "a" }]);
+    });
+
+    it("draws separate trees separately", () => {
+        const trees = collectTrees(treeStep({ ...TREE, x: [7, null, null] }, { root: "a", other: "x" }));
+        expect(trees.map(t => t.name)).toEqual(["root", "other"]);
+        expect(isTreeValue(treeStep(TREE, { root: "a" }).stack.root)).toBe(true);
+    });
+});
+
+describe("treeChanges", () => {
+    it("finds inserted, updated and deleted nodes", () => {
+        const before = collectTrees(treeStep(TREE, { root: "a" }));
+        const afterNodes: Nodes = { a: [5, "b", "e"], b: [4, null, null], e: [9, null, null] };
+        const after = collectTrees(treeStep(afterNodes, { root: "a" }));
+        const changes = treeChanges(after[0], after, before);
+        expect([...changes.added]).toEqual(["e"]);
+        expect([...changes.changed]).toEqual(["b"]);
+        expect(changes.removed.map(n => n.id).sort()).toEqual(["c", "d"]);
+    });
+
+    it("does not count a node detached mid-rotation as removed", () => {
+        const before = collectTrees(treeStep(TREE, { root: "a" }));
+        // b is cut loose from a but still held by `pivot`
+        const after = collectTrees(treeStep({ ...TREE, a: [5, null, "c"] }, { root: "a", pivot: "b" }));
+        const root = after.find(t => t.name === "root")!;
+        expect(treeChanges(root, after, before).removed).toEqual([]);
+    });
+
+    it("reports nothing for a tree that is new this step", () => {
+        const after = collectTrees(treeStep(TREE, { root: "a" }));
+        expect(treeChanges(after[0], after, [])).toEqual({ added: new Set(), changed: new Set(), removed: [] });
+    });
+});
+
+describe("formatTree", () => {
+    it("writes the tree on one line, cut short past maxNodes", () => {
+        const root = (treeStep(TREE, { root: "a" }).stack.root as SerializedTree).root;
+        expect(formatTree(root)).toBe("5(3(1, ·), 8)");
+        expect(formatTree(root, 2)).toBe("5(3(…, ·), …)");
+        expect(formatTree(null)).toBe("∅ (empty)");
+    });
+});
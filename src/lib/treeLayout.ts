@@ -0,0 +1,149 @@
+/**
+ * treeLayout.ts — Binary tree helpers shared by the 2D and 3D tree views.
+ *
+ * Trees arrive as { __type__: "tree", root } with one { id, v, l, r } per node,
+ * where `id` is the node's heap address. Several variables usually point into
+ * the same tree (root, node, curr, ...), so they are folded into a single
+ * drawing and shown as pointers onto their nodes instead of as extra trees.
+ */
+
+import { TreeValue } from "./interpreter/heap";
+import { TraceStep } from "./interpreter/schema";
+
+export interface SerializedTree {
+    __type__: "tree";
+    root: TreeValue | null;
+}
+
+export interface TreeLayoutNode {
+    id: string;
+    value: unknown;
+    /** In-order position, 0..width-1 */
+    x: number;
+    /** Depth, root is 0 */
+    y: number;
+    parent: string | null;
+}
+
+export interface TreeLayout {
+    nodes: TreeLayoutNode[];
+    width: number;
+    height: number;
+}
+
+export interface TreeInScope {
+    /** Variable holding the largest view of the tree (usually the root) */
+    name: string;
+    layout: TreeLayout;
+    /** Current-frame variables pointing at a node of this tree */
+    pointers: Array<{ name: string; id: string }>;
+}
+
+export interface TreeChanges {
+    added: Set<string>;
+    changed: Set<string>;
+    /** Nodes of the previous step's tree that are gone, at their old position */
+    removed: TreeLayoutNode[];
+}
+
+export function isTreeValue(val: unknown): val is SerializedTree {
+    return (
+        val !== null &&
+        typeof val === "object" &&
+        !Array.isArray(val) &&
+        (val as Record<string, unknown>).__type__ === "tree"
+    );
+}
+
+/**
+ * Lay a tree out with in-order index as x and depth as y, which keeps every
+ * left subtree left of its parent and never overlaps nodes.
+ */
+export function layoutTree(root: TreeValue | null): TreeLayout {
+    const nodes: TreeLayoutNode[] = [];
+    let height = 0;
+    const visit = (node: TreeValue | null, depth: number, parent: string | null) => {
+        if (!node) return;
+        visit(node.l, depth + 1, node.id);
+        nodes.push({ id: node.id, value: node.v, x: nodes.length, y: depth, parent });
+        height = Math.max(height, depth + 1);
+        visit(node.r, depth + 1, node.id);
+    };
+    visit(root, 0, null);
+    return { nodes, width: nodes.length, height };
+}
+
+/**
+ * Every distinct tree reachable from the call stack. A tree whose root lies
+ * inside another one (a `node` walking down from `root`) is not drawn on its
+ * own; the variable becomes a pointer into the larger tree instead.
+ */
+export function collectTrees(step: TraceStep): TreeInScope[] {
+    const scopes = step.frames.length > 0 ? step.frames.map(f => f.locals) : [step.stack];
+    const candidates: Array<{ name: string; layout: TreeLayout; ids: Set<string> }> = [];
+    for (const scope of scopes) {
+        for (const [name, val] of Object.entries(scope)) {
+            if (!isTreeValue(val) || !val.root) continue;
+            const layout = layoutTree(val.root);
+            candidates.push({ name, layout, ids: new Set(layout.nodes.map(n => n.id)) });
+        }
+    }
+    // Largest first, so subtrees find the tree that contains them
+    candidates.sort((a, b) => b.ids.size - a.ids.size);
+
+    const kept: typeof candidates = [];
+    for (const candidate of candidates) {
+        const rootId = candidate.layout.nodes.find(n => n.parent === null)?.id;
+        if (rootId && kept.some(k => k.ids.has(rootId))) continue;
+        kept.push(candidate);
+    }
+
+    return kept.map(tree => {
+        const pointers: Array<{ name: string; id: string }> = [];
+        for (const [name, val] of Object.entries(step.stack)) {
+            if (isTreeValue(val) && val.root && tree.ids.has(val.root.id)) {
+                pointers.push({ name, id: val.root.id });
+            }
+        }
+        return { name: tree.name, layout: tree.layout, pointers };
+    });
+}
+
+/**
+ * What happened to a tree since the previous step, for insert/delete/update
+ * animations. The previous version is the tree under the same variable or,
+ * failing that, the one sharing the most nodes. A node only counts as removed
+ * when no tree has it any more, and added when no tree had it before:
+ * mid-rotation a subtree is briefly detached.
+ */
+export function treeChanges(tree: TreeInScope, current: TreeInScope[], previous: TreeInScope[]): TreeChanges {
+    const ids = new Set(tree.layout.nodes.map(n => n.id));
+    const shared = (p: TreeInScope) => p.layout.nodes.filter(n => ids.has(n.id)).length;
+    const before = previous.find(p => p.name === tree.name) ??
+        [...previous].sort((a, b) => shared(b) - shared(a)).find(p => shared(p) > 0);
+    if (!before) return { added: new Set(), changed: new Set(), removed: [] };
+
+    const oldNodes = new Map(previous.flatMap(p => p.layout.nodes.map(n => [n.id, n] as const)));
+    const everywhere = new Set(current.flatMap(t => t.layout.nodes.map(n => n.id)));
+    const added = new Set<string>();
+    const changed = new Set<string>();
+    for (const node of tree.layout.nodes) {
+        const old = oldNodes.get(node.id);
+        if (!old) added.add(node.id);
+        else if (JSON.stringify(old.value) !== JSON.stringify(node.value)) changed.add(node.id);
+    }
+    return { added, changed, removed: before.layout.nodes.filter(n => !everywhere.has(n.id)) };
+}
+
+/** Compact one-line form, e.g. 5(3(1, ·), 8) */
+export function formatTree(root: TreeValue | null, maxNodes = 15): string {
+    let budget = maxNodes;
+    const format = (node: TreeValue | null): string => {
+        if (!node) return "·";
+        if (budget-- <= 0) return "…";
+        const value = typeof node.v === "string" ? node.v : JSON.stringify(node.v);
+        if (!node.l && !node.r) return value;
+        return `${value}(${format(node.l)}, ${format(node.r)})`;
+    };
+    return root ? format(root) : "∅ (empty)";
+}
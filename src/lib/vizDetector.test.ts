@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { TraceStep } from "./interpreter/schema";
+import { step, traceOf } from "@/test/traces";
+import { detectVizType } from "./vizDetector";
+
+/** One step holding `name` as a heap list of the given `kind` */
+const typed = (name: string, kind: string, value: unknown[]): TraceStep =>
+    step({ stack: { [name]: { __ref__: "1" } }, heap: { "1": { type: "array", kind, value } } });
+
+describe("detectVizType heaps", () => {
+    it("finds heaps by name once they hold more than one item", () => {
+        expect(detectVizType(traceOf({ pq: [3] }, { pq: [1, 3] }, { pq: [1, 3, 2] })).heapVars).toEqual(["pq"]);
+        expect(detectVizType(traceOf({ pq: [3] }, { pq: [5] })).heapVars).toEqual([]);
+        expect(detectVizType(traceOf({ heap: [1, 2] }, { heap: [2, 3, 1] })).heapVars).toEqual([]);
+    });
+
+    it("finds unnamed heaps by shape, but not sorted lists", () => {
+        expect(detectVizType(traceOf({ items: [1, 4, 2, 5] }, { items: [1, 4, 2, 5, 6] })).heapVars).toEqual(["items"]);
+        expect(detectVizType(traceOf({ items: [1, 2, 3, 4] })).heapVars).toEqual([]);
+    });
+
+    it("never treats a deque as a heap", () => {
+        const trace = [typed("heap", "deque", [1, 2]), typed("heap", "deque", [1, 2, 3])];
+        expect(detectVizType(trace).heapVars).toEqual([]);
+        expect(detectVizType([typed("pq", "ArrayDeque", [1, 2])]).heapVars).toEqual([]);
+    });
+
+    it("lets clear queue usage override the heap name", () => {
+        const ctx = detectVizType(traceOf({ heap: [1, 2, 3, 4] }, { heap: [2, 3, 4] }, { heap: [3, 4] }, { heap: [4] }));
+        expect(ctx.heapVars).toEqual([]);
+        expect(ctx.dsRoles.heap).toMatchObject({ type: "queue", source: "usage" });
+    });
+});
@@ -3,15 +3,23 @@
  *
  * Detection priority:
  *  1. Search  — left/right or low/high + array present
- *  2. Graph   — adjacency list (dict-of-lists) + visited/queue/stack
+ *  2. Tree    — binary tree nodes ({ __type__: "tree" })
+ *  2b. Graph  — adjacency list/dict, edge list or adjacency matrix (see graphModel)
  *  3. Grid    — 2D rectangular array
  *  4. Array   — any 1D numeric array (universal fallback)
  *  5. None    — only scalars, no data structures
  */
 
 import { Trace, TraceStep } from "./interpreter/schema";
+import { findPointerTargets } from "./arrayPointers";
+import { findDPTables } from "./dpTable";
+import { parseGraph } from "./graphModel";
+import { is2DGrid } from "./gridLayout";
+import { compareHeapItems, HEAP_NAMES, isHeapOrdered } from "./heapLayout";
+import { DSRole, findDSRoles } from "./stackQueue";
+import { isTreeValue } from "./treeLayout";
 
-export type VizType = "search" | "graph" | "grid" | "array" | "none";
+export type VizType = "search" | "graph" | "tree" | "grid" | "array" | "none";
 
 export interface VizContext {
     type: VizType;
@@ -21,8 +29,16 @@ export interface VizContext {
     auxVars: string[];
     /** Auto-detected pointer-like scalar variable names */
     pointerVars: string[];
+    /** Arrays each scalar was seen indexing, from the tracer's subscript accesses */
+    pointerTargets: Record<string, string[]>;
     /** Scalar variables worth displaying as labels */
     scalarVars: string[];
+    /** Lists used as binary heaps, drawn as trees next to the array */
+    heapVars: string[];
+    /** Lists filled in by dynamic programming, drawn as tables with dependency arrows */
+    dpVars: string[];
+    /** Lists used as stacks or queues, by how they are used or else by name/type */
+    dsRoles: Record<string, DSRole>;
 }
 
 // Variable names that are "auxiliary" data structures, not primary data
@@ -32,49 +48,6 @@ const AUX_NAMES = new Set([
     "parent", "prev", "next", "current", "node",
 ]);
 
-/**
- * Checks if a value looks like an adjacency list: { key: [list], ... }
- */
-function isAdjacencyList(val: unknown): boolean {
-    if (typeof val !== "object" || val === null || Array.isArray(val)) return false;
-    const entries = Object.entries(val as Record<string, unknown>);
-    if (entries.length < 2) return false;
-    let arrayCount = 0;
-    for (const [, v] of entries) {
-        if (Array.isArray(v)) arrayCount++;
-    }
-    return arrayCount / entries.length >= 0.6;
-}
-
-/**
- * Checks if a value is a 2D rectangular array (matrix/grid).
- * Must have uniform row lengths AND contain only primitive values (numbers, strings, booleans).
- * Arrays of tuples like [[10,true],[9,false]] should NOT match.
- */
-function is2DGrid(val: unknown): boolean {
-    if (!Array.isArray(val) || val.length < 2) return false;
-    if (!Array.isArray(val[0])) return false;
-    const rowLen = val[0].length;
-    if (rowLen < 2) return false; // Need at least 2 columns to be a meaningful grid
-    // All rows must have same length
-    if (!val.every((row: unknown) => Array.isArray(row) && row.length === rowLen)) return false;
-    // For true grids: all cells in each row must be the SAME type
-    // This rejects tuples like [10, true] (number + boolean) which are Python tuples
-    for (const row of val) {
-        const types = new Set((row as unknown[]).map(cell => typeof cell));
-        // Mixed types in a single row = tuple/pair, not a grid row
-        if (types.size > 1) return false;
-        // Each cell must be a simple scalar
-        for (const cell of row as unknown[]) {
-            if (typeof cell === "number") continue;
-            if (typeof cell === "boolean") continue;
-            if (typeof cell === "string" && cell.length <= 2) continue;
-            return false;
-        }
-    }
-    return true;
-}
-
 /**
  * Checks if a value is a 1D numeric array (for bar visualization).
  */
@@ -95,7 +68,7 @@ function is1DAnyArray(val: unknown): boolean {
  * Uses smart ranking to pick the best primary variable.
  */
 export function detectVizType(trace: Trace): VizContext {
-    if (trace.length === 0) return { type: "none", primaryVar: null, auxVars: [], pointerVars: [], scalarVars: [] };
+    if (trace.length === 0) return { type: "none", primaryVar: null, auxVars: [], pointerVars: [], scalarVars: [], heapVars: [], dpVars: [], dsRoles: {}, pointerTargets: {} };
 
     // Aggregate variable names and values across all steps
     const allVarNames = new Set<string>();
@@ -112,6 +85,13 @@ export function detectVizType(trace: Trace): VizContext {
         }
     }
 
+    // Heaps, DP tables, stacks and queues ride along with whatever the main structure turns out to be
+    const heapCandidates = findHeapVars(trace, allVarNames);
+    const dpVars = findDPTables(trace, allVarNames);
+    const dsRoles = findDSRoles(trace, allVarNames, heapCandidates);
+    const heapVars = heapCandidates.filter(name => !dsRoles[name]);
+    const pointerTargets = findPointerTargets(trace);
+
     // 1. Search detection — left/right OR low/high + array
     const hasLeftRight = allVarNames.has("left") && allVarNames.has("right");
     const hasLowHigh = allVarNames.has("low") && allVarNames.has("high");
@@ -129,20 +109,36 @@ export function detectVizType(trace: Trace): VizContext {
                 auxVars: searchAux,
                 pointerVars: [],
                 scalarVars: findScalarVars(trace, allVarNames, [arrayVar]),
+                heapVars,
+                dpVars,
+                dsRoles,
+                pointerTargets,
             };
         }
     }
 
-    // 2. Graph detection — adjacency list pattern
-    const graphVar = findVariableByPredicate(trace, isAdjacencyList);
+    // 2. Tree detection — {__type__: "tree", root: {...}}, preferring a variable called root
+    const hasRootTree = trace.some(step => isTreeValue(step.stack.root) && step.stack.root.root !== null);
+    const treeVar = hasRootTree ? "root" : findVariableByPredicate(trace, (val) => isTreeValue(val) && val.root !== null);
+    if (treeVar) {
+        const auxVars: string[] = [];
+        for (const name of ["node", "curr", "current", "parent", "prev", "succ", "temp", "child"]) {
+            if (allVarNames.has(name)) auxVars.push(name);
+        }
+        const scalarVars = findScalarVars(trace, allVarNames, [treeVar]);
+        return { type: "tree", primaryVar: treeVar, auxVars, pointerVars: [], scalarVars, heapVars, dpVars, dsRoles, pointerTargets };
+    }
+    // 2b. Graph detection — adjacency list/dict, edge list or adjacency matrix
+    const graphVar = findVariableByPredicate(trace, (val, name) => parseGraph(name, val) !== null);
     if (graphVar) {
         const auxVars: string[] = [];
-        for (const name of ["visited", "queue", "stack", "current", "node", "path", "result", "distances"]) {
+        for (const name of ["visited", "queue", "stack", "current", "node", "path", "result", "distances", "dist", "parent", "indegree", "color", "pq", "heap"]) {
             if (allVarNames.has(name)) auxVars.push(name);
         }
-        return { type: "graph", primaryVar: graphVar, auxVars, pointerVars: [], scalarVars: [] };
+        return { type: "graph", primaryVar: graphVar, auxVars, pointerVars: [], scalarVars: [], heapVars, dpVars, dsRoles, pointerTargets };
     }
-    // 2b. Linked list detection — {__type__: "linked_list", values: [...]}
+
+    // 2c. Linked list detection — {__type__: "linked_list", values: [...]}
     const linkedListVar = findVariableByPredicate(trace, (val) => {
         return val !== null && typeof val === "object" && !Array.isArray(val) &&
             (val as Record<string, unknown>).__type__ === "linked_list";
@@ -153,7 +149,7 @@ export function detectVizType(trace: Trace): VizContext {
             if (allVarNames.has(name)) auxVars.push(name);
         }
         const scalarVars = findScalarVars(trace, allVarNames, [linkedListVar]);
-        return { type: "array", primaryVar: linkedListVar, auxVars, pointerVars: [], scalarVars };
+        return { type: "array", primaryVar: linkedListVar, auxVars, pointerVars: [], scalarVars, heapVars, dpVars, dsRoles, pointerTargets };
     }
 
     // 3. Grid detection — 2D array
@@ -163,7 +159,7 @@ export function detectVizType(trace: Trace): VizContext {
         for (const name of ["row", "col", "r", "c", "i", "j", "queens", "path", "visited"]) {
             if (allVarNames.has(name)) auxVars.push(name);
         }
-        return { type: "grid", primaryVar: gridVar, auxVars, pointerVars: [], scalarVars: [] };
+        return { type: "grid", primaryVar: gridVar, auxVars, pointerVars: [], scalarVars: [], heapVars, dpVars, dsRoles, pointerTargets };
     }
 
     // 4. Array detection (UNIVERSAL FALLBACK) — any 1D numeric array first, then any array
@@ -181,6 +177,10 @@ export function detectVizType(trace: Trace): VizContext {
             auxVars: pointerVars,
             pointerVars,
             scalarVars,
+            heapVars,
+            dpVars,
+            dsRoles,
+            pointerTargets,
         };
     }
 
@@ -194,6 +194,10 @@ export function detectVizType(trace: Trace): VizContext {
             auxVars: [],
             pointerVars: [],
             scalarVars,
+            heapVars,
+            dpVars,
+            dsRoles,
+            pointerTargets,
         };
     }
 
@@ -209,10 +213,14 @@ export function detectVizType(trace: Trace): VizContext {
             auxVars: [],
             pointerVars: [],
             scalarVars,
+            heapVars,
+            dpVars,
+            dsRoles,
+            pointerTargets,
         };
     }
 
-    return { type: "none", primaryVar: null, auxVars: [], pointerVars: [], scalarVars: [] };
+    return { type: "none", primaryVar: null, auxVars: [], pointerVars: [], scalarVars: [], heapVars, dpVars, dsRoles, pointerTargets };
 }
 
 /**
@@ -265,11 +273,11 @@ function findBestAnyArray(
  */
 function findVariableByPredicate(
     trace: Trace,
-    predicate: (val: unknown) => boolean
+    predicate: (val: unknown, name: string) => boolean
 ): string | null {
     for (const step of trace) {
         for (const [name, val] of Object.entries(step.stack)) {
-            if (predicate(val)) return name;
+            if (predicate(val, name)) return name;
         }
     }
     return null;
@@ -345,3 +353,49 @@ function findScalarVars(
     // Limit to most interesting scalars (max 5)
     return scalars.slice(0, 5);
 }
+
+// A deque is a queue, even when its contents happen to be heap-ordered
+const DEQUE_KINDS = /^(deque|ArrayDeque)$/;
+
+function isDeque(trace: Trace, name: string): boolean {
+    return trace.some(step => {
+        const address = step.refs[name];
+        return address !== undefined && DEQUE_KINDS.test(step.heap[address]?.kind ?? "");
+    });
+}
+
+/**
+ * Find lists used as binary heaps: named like one (heap, pq, ...) and
+ * heap-ordered whenever they hold more than one item, or heap-ordered at
+ * every step without merely being sorted. Deques never are.
+ */
+function findHeapVars(trace: Trace, allVarNames: Set<string>): string[] {
+    const heaps: string[] = [];
+    for (const name of allVarNames) {
+        const samples = trace
+            .map(step => step.stack[name])
+            .filter((val): val is unknown[] => Array.isArray(val) && val.length > 0);
+        if (samples.length === 0 || isDeque(trace, name)) continue;
+
+        const ordered = (items: unknown[]) => isHeapOrdered(items, "min") || isHeapOrdered(items, "max");
+        if (HEAP_NAMES.test(name)) {
+            // A single item is trivially ordered, so it proves nothing
+            const telling = samples.filter(items => items.length > 1);
+            if (telling.length > 0 && telling.every(ordered)) heaps.push(name);
+            continue;
+        }
+        if (samples.some(is2DGrid)) continue;
+        const largest = Math.max(...samples.map(items => items.length));
+        const allMin = samples.every(items => isHeapOrdered(items, "min"));
+        const allMax = samples.every(items => isHeapOrdered(items, "max"));
+        if (largest >= 4 && (allMin || allMax) && !samples.every(isSorted)) heaps.push(name);
+    }
+    return heaps;
+}
+
+/** Sorted ascending or descending (a sorted list is trivially a heap too). */
+function isSorted(items: unknown[]): boolean {
+    const ascending = items.every((item, i) => i === 0 || compareHeapItems(items[i - 1], item) <= 0);
+    const descending = items.every((item, i) => i === 0 || compareHeapItems(items[i - 1], item) >= 0);
+    return ascending || descending;
+}
@@ -0,0 +1,45 @@
+/**
+ * Trace fixtures for unit tests.
+ *
+ * Steps are written the way the tracers print them (containers on the heap,
+ * `{ __ref__: address }` in their place) and then go through the same schema
+ * defaults and materialization as a parsed trace line.
+ */
+
+import { materializeStep } from "@/lib/interpreter/heap";
+import { Trace, TraceStep, TraceStepSchema } from "@/lib/interpreter/schema";
+
+export type RawStep = Partial<Omit<TraceStep, "stack" | "heap">> & {
+    stack?: Record<string, unknown>;
+    heap?: TraceStep["heap"];
+};
+
+export function step(raw: RawStep = {}): TraceStep {
+    return materializeStep(TraceStepSchema.parse({ line: 1, stack: {}, heap: {}, stdout: "", ...raw }));
+}
+
+/**
+ * A trace where each entry gives the locals at one step. Arrays become heap
+ * lists, one address per variable name, so refs stay stable across steps.
+ */
+export function traceOf(...locals: Array<Record<string, unknown>>): Trace {
+    const addresses = new Map<string, string>();
+    return locals.map((scope, i) => {
+        const stack: Record<string, unknown> = {};
+        const heap: TraceStep["heap"] = {};
+        for (const [name, val] of Object.entries(scope)) {
+            if (!Array.isArray(val)) {
+                stack[name] = val;
+                continue;
+            }
+            if (!addresses.has(name)) addresses.set(name, String(addresses.size + 1));
+            const address = addresses.get(name)!;
+            heap[address] = { type: "array", kind: "list", value: val };
+            stack[name] = { __ref__: address };
+        }
+        return step({ line: i + 1, stack, heap });
+    });
+}
+
+/** The line of stdout a tracer prints for `raw` */
+export const traceLine = (raw: Record<string, unknown>): string => `__TRACE__${JSON.stringify({ stdout: "", heap: {}, ...raw })}`;